@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+/**
+ * Local simulator for the payment provider webhooks.
+ *
+ *   node scripts/simulate-payment-webhook.mjs list
+ *   node scripts/simulate-payment-webhook.mjs send <transactionId> <pago|falhado|expirado>
+ *   node scripts/simulate-payment-webhook.mjs auto [intervalMs]
+ *
+ * Environment: CHECKOUT_URL (default http://localhost:3000) and
+ * PAYMENT_WEBHOOK_SECRET (must match the one used by the app).
+ */
+import { createHmac, randomUUID } from "node:crypto"
+
+const baseUrl = process.env.CHECKOUT_URL ?? "http://localhost:3000"
+const secret = process.env.PAYMENT_WEBHOOK_SECRET ?? "colmeia-dev-webhook-secret"
+const statuses = ["pago", "falhado", "expirado"]
+const successRates = { pix: 0.85, credit: 0.72, boleto: 0.6 }
+
+const sign = (body) => {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+  return `t=${timestamp},v1=${signature}`
+}
+
+const listPending = async () => {
+  // Signing an empty body lists the pending transactions of every account.
+  const response = await fetch(`${baseUrl}/api/payments?status=processando`, {
+    headers: { "x-colmeia-signature": sign("") },
+  })
+  if (!response.ok) throw new Error(`Falha ao listar transações (${response.status})`)
+  const { transactions } = await response.json()
+  return transactions
+}
+
+const send = async (transactionId, status) => {
+  const body = JSON.stringify({
+    id: randomUUID(),
+    type: "payment.status_changed",
+    transactionId,
+    status,
+    occurredAt: new Date().toISOString(),
+  })
+  const response = await fetch(`${baseUrl}/api/webhooks/payments`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-colmeia-signature": sign(body) },
+    body,
+  })
+  const result = await response.json().catch(() => ({}))
+  console.log(`${transactionId} → ${status}: HTTP ${response.status}`, result.error ?? "")
+  return response.ok
+}
+
+const rollStatus = (method) => {
+  const rate = successRates[method] ?? 0.5
+  const random = Math.random()
+  if (random <= rate) return "pago"
+  if (random <= rate + 0.1) return "expirado"
+  return "falhado"
+}
+
+const [command, ...args] = process.argv.slice(2)
+
+switch (command) {
+  case "list": {
+    const pending = await listPending()
+    if (pending.length === 0) console.log("Nenhuma transação aguardando confirmação.")
+    for (const transaction of pending) {
+      console.log(`${transaction.transactionId}\t${transaction.method}\tR$ ${transaction.amount.toFixed(2)}`)
+    }
+    break
+  }
+  case "send": {
+    const [transactionId, status] = args
+    if (!transactionId || !statuses.includes(status)) {
+      console.error(`Uso: send <transactionId> <${statuses.join("|")}>`)
+      process.exit(1)
+    }
+    process.exit((await send(transactionId, status)) ? 0 : 1)
+    break
+  }
+  case "auto": {
+    const interval = Number(args[0] ?? 5000)
+    console.log(`Liquidando transações pendentes a cada ${interval}ms. Ctrl+C para sair.`)
+    for (;;) {
+      const pending = await listPending().catch((error) => {
+        console.error(error.message)
+        return []
+      })
+      for (const transaction of pending) {
+        await send(transaction.transactionId, rollStatus(transaction.method))
+      }
+      await new Promise((resolve) => setTimeout(resolve, interval))
+    }
+  }
+  default:
+    console.error("Comandos: list | send <transactionId> <status> | auto [intervalMs]")
+    process.exit(1)
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import { useState } from "react"
+
+import { fieldClassName } from "@/components/product-fields"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAdminData } from "@/hooks/use-admin-data"
+import { formatRate } from "@/lib/back-office"
+import { funnelStageLabels, type FunnelReport } from "@/lib/funnel"
+import { paymentMethodLabels } from "@/lib/payment-status"
+
+const periods = [
+  { value: "7", label: "Últimos 7 dias" },
+  { value: "30", label: "Últimos 30 dias" },
+  { value: "", label: "Todo o período" },
+]
+
+export default function AdminFunnelPage() {
+  const [period, setPeriod] = useState("30")
+  const { data, error } = useAdminData<FunnelReport>(`/api/admin/funnel${period ? `?dias=${period}` : ""}`)
+
+  return (
+    <>
+      <header className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">Funil de compra</h1>
+          <p className="text-sm text-muted-foreground">
+            Onde os clientes param entre o catálogo e o pagamento aprovado, contado em sessões de navegação.
+          </p>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="funnelPeriod">Período</Label>
+          <select
+            id="funnelPeriod"
+            value={period}
+            onChange={(event) => setPeriod(event.target.value)}
+            className={`h-9 ${fieldClassName}`}
+          >
+            {periods.map(({ value, label }) => (
+              <option key={label} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      {error ? (
+        <Card>
+          <CardContent className="py-8 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      ) : !data ? (
+        <Skeleton className="h-[420px] w-full" />
+      ) : data.sessions === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            Nenhum evento registrado no período.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Conversão por etapa</CardTitle>
+              <CardDescription>
+                {data.sessions} sessões e {data.events} eventos. Uma sessão conta em uma etapa se chegou a ela ou a
+                qualquer etapa seguinte.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {data.stages.map((stage) => (
+                <div key={stage.stage} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-foreground">{funnelStageLabels[stage.stage]}</span>
+                    <span className="text-muted-foreground">
+                      {stage.sessions} • {formatRate(stage.fromStart)} do início
+                      {stage.fromPrevious === null ? "" : ` • ${formatRate(stage.fromPrevious)} da etapa anterior`}
+                    </span>
+                  </div>
+                  <div className="h-2 w-full rounded-full bg-muted">
+                    <div
+                      className="h-2 rounded-full bg-primary"
+                      style={{ width: `${(stage.fromStart ?? 0) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Conversão por forma de pagamento</CardTitle>
+              <CardDescription>
+                Sessões que escolheram a forma, enviaram o pedido com ela e tiveram o pagamento aprovado. Quem pagou
+                com a forma sugerida sem trocá-la conta como escolha.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-xs uppercase text-muted-foreground">
+                  <tr>
+                    <th className="py-2 pr-4 font-medium">Forma</th>
+                    <th className="py-2 pr-4 text-right font-medium">Escolhida</th>
+                    <th className="py-2 pr-4 text-right font-medium">Enviada</th>
+                    <th className="py-2 pr-4 text-right font-medium">Aprovada</th>
+                    <th className="py-2 pr-4 text-right font-medium">Envio</th>
+                    <th className="py-2 text-right font-medium">Aprovação</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {data.methods.map((item) => (
+                    <tr key={item.method}>
+                      <td className="py-3 pr-4 text-foreground">{paymentMethodLabels[item.method]}</td>
+                      <td className="py-3 pr-4 text-right">{item.selected}</td>
+                      <td className="py-3 pr-4 text-right">{item.submitted}</td>
+                      <td className="py-3 pr-4 text-right">{item.approved}</td>
+                      <td className="py-3 pr-4 text-right">{formatRate(item.submitRate)}</td>
+                      <td className="py-3 text-right text-foreground">{formatRate(item.approvalRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </>
+  )
+}
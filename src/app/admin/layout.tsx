@@ -0,0 +1,93 @@
+'use client'
+
+import { useEffect, useState, type ReactNode } from "react"
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { ChevronLeft, Filter, LayoutDashboard, Package, ShoppingBag } from "lucide-react"
+import { Toaster } from "sonner"
+
+import { buttonVariants } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAuthStore } from "@/hooks/use-auth"
+import { usesApi } from "@/lib/api-client"
+
+const sections = [
+  { href: "/admin", label: "Visão geral", icon: LayoutDashboard },
+  { href: "/admin/produtos", label: "Produtos", icon: Package },
+  { href: "/admin/pedidos", label: "Pedidos", icon: ShoppingBag },
+  { href: "/admin/funil", label: "Funil", icon: Filter },
+]
+
+/** Back office: only admins get past the layout, and only with the API. */
+export default function AdminLayout({ children }: { children: ReactNode }) {
+  const pathname = usePathname()
+  const [isHydrated, setIsHydrated] = useState(false)
+  const user = useAuthStore((state) => state.user)
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setIsHydrated(true))
+    return () => cancelAnimationFrame(frame)
+  }, [])
+
+  if (!isHydrated) {
+    return (
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-6 px-6 py-16">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-[420px] w-full" />
+      </main>
+    )
+  }
+
+  if (!usesApi() || user?.role !== "admin") {
+    return (
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-16">
+        <Card>
+          <CardHeader>
+            <CardTitle>Acesso restrito</CardTitle>
+            <CardDescription>
+              {!usesApi()
+                ? "A administração precisa da API; ela não funciona no modo local."
+                : "Entre com uma conta da equipe da loja para acessar a administração."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/" className={buttonVariants({ variant: "outline" })}>
+              <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+              Voltar à loja
+            </Link>
+          </CardContent>
+        </Card>
+      </main>
+    )
+  }
+
+  return (
+    <main className="mx-auto flex w-full max-w-6xl flex-col gap-6 px-6 py-10">
+      <Toaster position="top-center" theme="light" richColors />
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <nav className="flex flex-wrap gap-2" aria-label="Administração">
+          {sections.map(({ href, label, icon: Icon }) => {
+            const active = href === "/admin" ? pathname === href : pathname.startsWith(href)
+            return (
+              <Link
+                key={href}
+                href={href}
+                aria-current={active ? "page" : undefined}
+                className={buttonVariants({ variant: active ? "default" : "ghost", size: "sm" })}
+              >
+                <Icon className="h-4 w-4" aria-hidden="true" />
+                {label}
+              </Link>
+            )
+          })}
+        </nav>
+        <Link href="/" className={buttonVariants({ variant: "outline", size: "sm" })}>
+          <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+          Voltar à loja
+        </Link>
+      </div>
+      {children}
+    </main>
+  )
+}
@@ -0,0 +1,101 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAdminData } from "@/hooks/use-admin-data"
+import { formatRate, type MethodApproval } from "@/lib/back-office"
+import { formatMoney } from "@/lib/money"
+import { paymentMethodLabels } from "@/lib/payment-status"
+
+type PaymentSummary = { orders: number; methods: MethodApproval[] }
+
+const methodLabel = (method: MethodApproval["method"]) => (method === "todos" ? "Total" : paymentMethodLabels[method])
+
+export default function AdminOverviewPage() {
+  const { data, error } = useAdminData<PaymentSummary>("/api/admin/payments")
+  const total = data?.methods.find((item) => item.method === "todos")
+
+  return (
+    <>
+      <header className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">Visão geral</h1>
+        <p className="text-sm text-muted-foreground">
+          Tentativas de pagamento de todos os pedidos, com a taxa de aprovação de cada forma de pagamento.
+        </p>
+      </header>
+
+      {error ? (
+        <Card>
+          <CardContent className="py-8 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      ) : !data || !total ? (
+        <Skeleton className="h-[320px] w-full" />
+      ) : (
+        <>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <CardDescription>Pedidos</CardDescription>
+                <CardTitle className="text-3xl">{data.orders}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardDescription>Tentativas de pagamento</CardDescription>
+                <CardTitle className="text-3xl">{total.attempts}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardDescription>Taxa de aprovação</CardDescription>
+                <CardTitle className="text-3xl">{formatRate(total.approvalRate)}</CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Aprovação por forma de pagamento</CardTitle>
+              <CardDescription>
+                A taxa considera as tentativas concluídas: aprovadas, recusadas e expiradas. Pendentes e canceladas
+                pela loja ficam de fora.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-xs uppercase text-muted-foreground">
+                  <tr>
+                    <th className="py-2 pr-4 font-medium">Forma</th>
+                    <th className="py-2 pr-4 text-right font-medium">Tentativas</th>
+                    <th className="py-2 pr-4 text-right font-medium">Aprovadas</th>
+                    <th className="py-2 pr-4 text-right font-medium">Recusadas</th>
+                    <th className="py-2 pr-4 text-right font-medium">Expiradas</th>
+                    <th className="py-2 pr-4 text-right font-medium">Pendentes</th>
+                    <th className="py-2 pr-4 text-right font-medium">Canceladas</th>
+                    <th className="py-2 pr-4 text-right font-medium">Aprovação</th>
+                    <th className="py-2 text-right font-medium">Valor aprovado</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {data.methods.map((item) => (
+                    <tr key={item.method} className={item.method === "todos" ? "font-semibold" : undefined}>
+                      <td className="py-3 pr-4 text-foreground">{methodLabel(item.method)}</td>
+                      <td className="py-3 pr-4 text-right">{item.attempts}</td>
+                      <td className="py-3 pr-4 text-right">{item.approved}</td>
+                      <td className="py-3 pr-4 text-right">{item.declined}</td>
+                      <td className="py-3 pr-4 text-right">{item.expired}</td>
+                      <td className="py-3 pr-4 text-right">{item.pending}</td>
+                      <td className="py-3 pr-4 text-right">{item.cancelled}</td>
+                      <td className="py-3 pr-4 text-right text-foreground">{formatRate(item.approvalRate)}</td>
+                      <td className="py-3 text-right">{formatMoney(item.approvedAmount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,211 @@
+'use client'
+
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { ChevronLeft, CreditCard, MapPin, Truck, User } from "lucide-react"
+
+import { SummaryLines } from "@/components/summary-lines"
+import { Badge } from "@/components/ui/badge"
+import { buttonVariants } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAdminData } from "@/hooks/use-admin-data"
+import { formatCurrency } from "@/lib/format"
+import { formatMoney } from "@/lib/money"
+import type { StoredOrder } from "@/lib/order-registry"
+import { fulfillmentStatusLabels, fulfillmentStatusVariants, orderNumber } from "@/lib/orders"
+import { paymentMethodLabels, paymentStatusLabels } from "@/lib/payment-status"
+import { formatAddress, formatDeliveryDays } from "@/lib/shipping"
+import { lineItemName } from "@/lib/variants"
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })
+
+export default function AdminOrderPage() {
+  const { id } = useParams<{ id: string }>()
+  const { data: order, error } = useAdminData<StoredOrder>(`/api/admin/orders/${id}`)
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Pedido não encontrado</CardTitle>
+          <CardDescription>{error}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link href="/admin/pedidos" className={buttonVariants({ variant: "outline" })}>
+            <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+            Voltar aos pedidos
+          </Link>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!order) return <Skeleton className="h-[520px] w-full" />
+
+  const attempts = order.attempts ?? []
+  const latestAttemptId = order.attemptIds[order.attemptIds.length - 1]
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <Link href="/admin/pedidos" className={buttonVariants({ variant: "outline" })}>
+          <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+          Voltar aos pedidos
+        </Link>
+      </div>
+
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">Pedido {orderNumber(order)}</h1>
+          <p className="text-sm text-muted-foreground">
+            Feito em {formatDateTime(order.createdAt)} • atualizado em {formatDateTime(order.updatedAt)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Badge variant="outline" className="w-fit capitalize">
+            Pagamento {paymentStatusLabels[order.paymentStatus]}
+          </Badge>
+          <Badge variant={fulfillmentStatusVariants[order.fulfillment]} className="w-fit">
+            {fulfillmentStatusLabels[order.fulfillment]}
+          </Badge>
+        </div>
+      </header>
+
+      <div className="grid gap-6 lg:grid-cols-[2fr,1fr]">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="h-5 w-5" aria-hidden="true" />
+                Tentativas de pagamento
+              </CardTitle>
+              <CardDescription>
+                Todas as tentativas do pedido, novas tentativas incluídas. A mais recente decide a situação do pedido.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {attempts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Este pedido foi feito antes de as tentativas serem registradas no servidor.
+                </p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {attempts.map((attempt) => (
+                    <li key={attempt.id} className="space-y-1 rounded-lg border border-border px-4 py-3">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <span className="font-medium text-foreground">
+                          {paymentMethodLabels[attempt.method]}
+                          {attempt.installments && attempt.installments > 1 ? ` em ${attempt.installments}x` : ""}
+                          {attempt.leg ? ` • parte ${attempt.leg.index} de ${attempt.leg.count}` : ""}
+                          {attempt.id === latestAttemptId ? (
+                            <span className="ml-2 text-xs font-normal text-muted-foreground">(mais recente)</span>
+                          ) : null}
+                        </span>
+                        <Badge variant="secondary" className="capitalize">
+                          {attempt.rolledBack ? "desfeito" : paymentStatusLabels[attempt.status]}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDateTime(attempt.createdAt)}
+                        {attempt.amount ? ` • ${formatCurrency(attempt.amount)}` : ""}
+                        {attempt.refundedAmount ? ` • estornado ${formatCurrency(attempt.refundedAmount)}` : ""}
+                        {attempt.gateway ? ` • ${attempt.gateway}` : ""}
+                        {attempt.transactionId ? ` • transação ${attempt.transactionId}` : ""}
+                      </p>
+                      {attempt.details ? <p className="text-xs text-muted-foreground">{attempt.details}</p> : null}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Itens</CardTitle>
+              <CardDescription>
+                {order.stockCommittedAt
+                  ? `Baixados do estoque em ${formatDateTime(order.stockCommittedAt)}.`
+                  : "Saem do estoque quando o pagamento for aprovado."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y divide-border text-sm">
+                {order.lines.map((line) => {
+                  const priced = order.totals.lines.find((item) => item.sku === line.sku)
+                  return (
+                    <li key={line.sku} className="flex items-center justify-between gap-4 py-3">
+                      <div>
+                        <p className="font-medium text-foreground">{lineItemName(line)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {line.quantity} × {formatCurrency(line.unitPrice)} • SKU {line.sku}
+                        </p>
+                        {order.oversold?.includes(line.sku) ? (
+                          <p className="text-xs text-destructive">
+                            Sem estoque quando o pagamento foi aprovado; não foi baixado.
+                          </p>
+                        ) : null}
+                      </div>
+                      {priced ? (
+                        <span className="font-medium text-foreground">{formatMoney(priced.gross)}</span>
+                      ) : null}
+                    </li>
+                  )
+                })}
+              </ul>
+            </CardContent>
+          </Card>
+        </div>
+
+        <aside className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <User className="h-5 w-5" aria-hidden="true" />
+                Cliente
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm">
+              <p className="font-medium text-foreground">{order.customer.name}</p>
+              <p className="text-muted-foreground">{order.customer.email}</p>
+              <p className="text-muted-foreground">CPF {order.customer.document}</p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Truck className="h-5 w-5" aria-hidden="true" />
+                Entrega
+              </CardTitle>
+              <CardDescription>
+                {order.shipping.quote.carrier} • {formatDeliveryDays(order.shipping.quote.deliveryDays)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="flex items-start gap-2 text-sm text-muted-foreground">
+                <MapPin className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+                {formatAddress(order.shipping.address)}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Resumo</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <SummaryLines summary={order.totals} />
+              <div className="flex items-center justify-between border-t border-border pt-4 text-sm">
+                <span className="font-semibold text-foreground">Total</span>
+                <span className="text-lg font-bold text-foreground">{formatMoney(order.totals.total)}</span>
+              </div>
+            </CardContent>
+          </Card>
+        </aside>
+      </div>
+    </>
+  )
+}
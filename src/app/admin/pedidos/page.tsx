@@ -0,0 +1,166 @@
+'use client'
+
+import { useState } from "react"
+import Link from "next/link"
+import { ChevronRight, Package } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button, buttonVariants } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { fieldClassName } from "@/components/product-fields"
+import { useAdminData } from "@/hooks/use-admin-data"
+import {
+  defaultAdminOrderFilters,
+  serializeAdminOrderFilters,
+  type AdminOrderFilters,
+} from "@/lib/back-office"
+import { formatMoney } from "@/lib/money"
+import type { StoredOrder } from "@/lib/order-registry"
+import { fulfillmentStatusLabels, fulfillmentStatusVariants, orderNumber } from "@/lib/orders"
+import { paymentStatusLabels } from "@/lib/payment-status"
+
+export default function AdminOrdersPage() {
+  const [filters, setFilters] = useState<AdminOrderFilters>(defaultAdminOrderFilters)
+  const query = serializeAdminOrderFilters(filters)
+  const { data, error } = useAdminData<{ orders: StoredOrder[] }>(`/api/admin/orders${query ? `?${query}` : ""}`)
+
+  return (
+    <>
+      <header className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">Pedidos</h1>
+        <p className="text-sm text-muted-foreground">Pedidos de todos os clientes, do mais recente ao mais antigo.</p>
+      </header>
+
+      <form
+        className="grid gap-4 rounded-lg border border-border p-4 sm:grid-cols-[2fr,1fr,1fr,auto] sm:items-end"
+        onSubmit={(event) => event.preventDefault()}
+      >
+        <div className="grid gap-2">
+          <Label htmlFor="adminOrderSearch">Buscar</Label>
+          <Input
+            id="adminOrderSearch"
+            type="search"
+            placeholder="Número do pedido, cliente ou e-mail"
+            value={filters.search}
+            onChange={(event) => setFilters({ ...filters, search: event.target.value })}
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="adminOrderPayment">Pagamento</Label>
+          <select
+            id="adminOrderPayment"
+            value={filters.payment}
+            onChange={(event) =>
+              setFilters({ ...filters, payment: event.target.value as AdminOrderFilters["payment"] })
+            }
+            className={`h-9 ${fieldClassName}`}
+          >
+            <option value="todos">Todos</option>
+            {Object.entries(paymentStatusLabels).map(([value, label]) => (
+              <option key={value} value={value} className="capitalize">
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="adminOrderFulfillment">Entrega</Label>
+          <select
+            id="adminOrderFulfillment"
+            value={filters.fulfillment}
+            onChange={(event) =>
+              setFilters({ ...filters, fulfillment: event.target.value as AdminOrderFilters["fulfillment"] })
+            }
+            className={`h-9 ${fieldClassName}`}
+          >
+            <option value="todos">Todas</option>
+            {Object.entries(fulfillmentStatusLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          disabled={filters === defaultAdminOrderFilters}
+          onClick={() => setFilters(defaultAdminOrderFilters)}
+        >
+          Limpar filtros
+        </Button>
+      </form>
+
+      {error ? (
+        <Card>
+          <CardContent className="py-8 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      ) : !data ? (
+        <Skeleton className="h-[420px] w-full" />
+      ) : data.orders.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-3 py-12 text-center">
+            <Package className="h-10 w-10 text-muted-foreground" aria-hidden="true" />
+            <p className="text-sm text-muted-foreground">
+              {query ? "Nenhum pedido encontrado com esses filtros." : "Nenhum pedido feito ainda."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="overflow-x-auto pt-6">
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs uppercase text-muted-foreground">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Pedido</th>
+                  <th className="py-2 pr-4 font-medium">Cliente</th>
+                  <th className="py-2 pr-4 font-medium">Pagamento</th>
+                  <th className="py-2 pr-4 font-medium">Entrega</th>
+                  <th className="py-2 pr-4 text-right font-medium">Total</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {data.orders.map((order) => (
+                  <tr key={order.id}>
+                    <td className="py-3 pr-4">
+                      <p className="font-medium text-foreground">{orderNumber(order)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(order.createdAt).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+                      </p>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <p className="text-foreground">{order.customer.name}</p>
+                      <p className="text-xs text-muted-foreground">{order.customer.email}</p>
+                    </td>
+                    <td className="py-3 pr-4 capitalize">{paymentStatusLabels[order.paymentStatus]}</td>
+                    <td className="py-3 pr-4">
+                      <Badge variant={fulfillmentStatusVariants[order.fulfillment]}>
+                        {fulfillmentStatusLabels[order.fulfillment]}
+                      </Badge>
+                    </td>
+                    <td className="py-3 pr-4 text-right font-medium text-foreground">
+                      {formatMoney(order.totals.total)}
+                    </td>
+                    <td className="py-3 text-right">
+                      <Link
+                        href={`/admin/pedidos/${order.id}`}
+                        className={buttonVariants({ variant: "ghost", size: "sm" })}
+                      >
+                        Detalhes
+                        <ChevronRight className="h-4 w-4" aria-hidden="true" />
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  )
+}
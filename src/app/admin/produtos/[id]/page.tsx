@@ -0,0 +1,379 @@
+'use client'
+
+import { useState, type FormEvent } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { ChevronLeft, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { fieldClassName, ProductFields, type ProductFieldValues } from "@/components/product-fields"
+import { Badge } from "@/components/ui/badge"
+import { Button, buttonVariants } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAdminData } from "@/hooks/use-admin-data"
+import { useCatalogStore } from "@/hooks/use-catalog"
+import { apiRequest } from "@/lib/api-client"
+import {
+  manualStockReasons,
+  parseFormNumber,
+  stockAdjustmentReasonLabels,
+  type StockAdjustment,
+  type StockAdjustmentReason,
+} from "@/lib/back-office"
+import type { Product } from "@/lib/mock-data"
+import { orderNumber } from "@/lib/orders"
+import {
+  firstErrorMessage,
+  getFieldErrors,
+  stockAdjustmentSchema,
+  updateProductSchema,
+  type FieldErrors,
+} from "@/lib/schemas"
+import { variantLabel } from "@/lib/variants"
+
+type ProductDetail = { product: Product; adjustments: StockAdjustment[] }
+
+type ProductDraft = ProductFieldValues & { prices: Record<string, string> }
+
+type AdjustmentDraft = { sku: string; delta: string; reason: StockAdjustmentReason; note: string }
+
+const toDraft = (product: Product): ProductDraft => ({
+  name: product.name,
+  description: product.description,
+  category: product.category,
+  image: product.image,
+  prices: Object.fromEntries(product.variants.map((variant) => [variant.sku, String(variant.price).replace(".", ",")])),
+})
+
+const versionName = (product: Product, sku: string) => {
+  const variant = product.variants.find((item) => item.sku === sku)
+  const label = variant ? variantLabel(product, variant) : ""
+  return label ? `${label} (${sku})` : sku
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })
+
+export default function AdminProductPage() {
+  const { id } = useParams<{ id: string }>()
+  const router = useRouter()
+  const { data, error, replace } = useAdminData<ProductDetail>(`/api/admin/products/${id}`)
+  const [draft, setDraft] = useState<ProductDraft | null>(null)
+  const [errors, setErrors] = useState<FieldErrors>({})
+  const [adjustment, setAdjustment] = useState<AdjustmentDraft | null>(null)
+  const [adjustmentErrors, setAdjustmentErrors] = useState<FieldErrors>({})
+  const [saving, setSaving] = useState(false)
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Produto indisponível</CardTitle>
+          <CardDescription>{error}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Link href="/admin/produtos" className={buttonVariants({ variant: "outline" })}>
+            <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+            Voltar aos produtos
+          </Link>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!data) return <Skeleton className="h-[520px] w-full" />
+
+  const { product, adjustments } = data
+  // The form starts from the saved product until the admin edits it.
+  const values = draft ?? toDraft(product)
+  const stockDraft: AdjustmentDraft = adjustment ?? {
+    sku: product.variants[0]?.sku ?? "",
+    delta: "",
+    reason: "entrada",
+    note: "",
+  }
+
+  const save = async (event: FormEvent) => {
+    event.preventDefault()
+    const { prices, ...fields } = values
+    const input = {
+      ...fields,
+      variants: product.variants.map((variant) => ({ sku: variant.sku, price: parseFormNumber(prices[variant.sku] ?? "") })),
+    }
+    const fieldErrors = getFieldErrors(updateProductSchema, input)
+    setErrors(fieldErrors)
+    if (Object.keys(fieldErrors).length > 0) return
+
+    setSaving(true)
+    try {
+      const saved = await apiRequest<Product>(`/api/admin/products/${product.id}`, {
+        method: "PATCH",
+        body: JSON.stringify(input),
+      })
+      replace({ product: saved, adjustments })
+      setDraft(null)
+      void useCatalogStore.getState().load()
+      toast.success("Produto atualizado.")
+    } catch (failure) {
+      toast.error(failure instanceof Error ? failure.message : "Não foi possível salvar o produto.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const adjust = async (event: FormEvent) => {
+    event.preventDefault()
+    const input = {
+      sku: stockDraft.sku,
+      delta: parseFormNumber(stockDraft.delta),
+      reason: stockDraft.reason,
+      note: stockDraft.note.trim() || undefined,
+    }
+    const fieldErrors = getFieldErrors(stockAdjustmentSchema, input)
+    setAdjustmentErrors(fieldErrors)
+    if (Object.keys(fieldErrors).length > 0) return
+
+    setSaving(true)
+    try {
+      const saved = await apiRequest<{ adjustment: StockAdjustment; product: Product }>("/api/admin/stock", {
+        method: "POST",
+        body: JSON.stringify(input),
+      })
+      replace({ product: saved.product, adjustments: [saved.adjustment, ...adjustments] })
+      setAdjustment(null)
+      void useCatalogStore.getState().load()
+      toast.success(`Estoque de ${versionName(saved.product, saved.adjustment.sku)}: ${saved.adjustment.stockAfter}.`)
+    } catch (failure) {
+      toast.error(failure instanceof Error ? failure.message : "Não foi possível ajustar o estoque.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async () => {
+    if (!window.confirm(`Tirar ${product.name} do catálogo? Os pedidos já feitos não mudam.`)) return
+    setSaving(true)
+    try {
+      await apiRequest(`/api/admin/products/${product.id}`, { method: "DELETE" })
+      void useCatalogStore.getState().load()
+      toast.success(`${product.name} saiu do catálogo.`)
+      router.push("/admin/produtos")
+    } catch (failure) {
+      toast.error(failure instanceof Error ? failure.message : "Não foi possível excluir o produto.")
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Link href="/admin/produtos" className={buttonVariants({ variant: "outline" })}>
+          <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+          Voltar aos produtos
+        </Link>
+        <Button variant="destructive" disabled={saving} onClick={() => void remove()}>
+          <Trash2 className="h-4 w-4" aria-hidden="true" />
+          Excluir produto
+        </Button>
+      </div>
+
+      <header className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">{product.name}</h1>
+        <p className="text-sm text-muted-foreground">
+          <Link href={`/produtos/${product.id}`} className="underline-offset-4 hover:underline">
+            Ver na loja
+          </Link>
+        </p>
+      </header>
+
+      <div className="grid gap-6 lg:grid-cols-[3fr,2fr]">
+        <Card>
+          <CardHeader>
+            <CardTitle>Dados do produto</CardTitle>
+            <CardDescription>O estoque muda só pelos ajustes ao lado, que ficam no histórico.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form className="grid gap-4 sm:grid-cols-2" onSubmit={save} noValidate>
+              <ProductFields
+                idPrefix="product"
+                values={values}
+                errors={errors}
+                onChange={(fields) => setDraft({ ...values, ...fields })}
+              />
+              <fieldset className="grid gap-3 sm:col-span-2">
+                <legend className="mb-2 text-sm font-medium">Preços (R$)</legend>
+                {product.variants.map((variant) => (
+                  <div key={variant.sku} className="grid grid-cols-[1fr,8rem] items-center gap-3">
+                    <Label htmlFor={`price-${variant.sku}`} className="font-normal">
+                      {versionName(product, variant.sku)}
+                    </Label>
+                    <Input
+                      id={`price-${variant.sku}`}
+                      inputMode="decimal"
+                      value={values.prices[variant.sku] ?? ""}
+                      onChange={(event) =>
+                        setDraft({ ...values, prices: { ...values.prices, [variant.sku]: event.target.value } })
+                      }
+                    />
+                  </div>
+                ))}
+                {errors.variants ? <p className="text-xs text-destructive">Informe preços maiores que zero.</p> : null}
+              </fieldset>
+              <div className="flex gap-2 sm:col-span-2">
+                <Button type="submit" disabled={saving || !draft}>
+                  {saving ? "Salvando..." : "Salvar alterações"}
+                </Button>
+                {draft ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => {
+                      setDraft(null)
+                      setErrors({})
+                    }}
+                  >
+                    Descartar
+                  </Button>
+                ) : null}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Estoque</CardTitle>
+            <CardDescription>Entradas somam, saídas usam número negativo (ex.: -2).</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <ul className="divide-y divide-border text-sm">
+              {product.variants.map((variant) => (
+                <li key={variant.sku} className="flex items-center justify-between gap-4 py-2">
+                  <span>{versionName(product, variant.sku)}</span>
+                  {variant.stock === 0 ? (
+                    <Badge variant="destructive">Esgotado</Badge>
+                  ) : (
+                    <span className="font-medium text-foreground">{variant.stock}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <form className="grid gap-4" onSubmit={adjust} noValidate>
+              {product.variants.length > 1 ? (
+                <div className="grid gap-2">
+                  <Label htmlFor="adjustSku">Versão</Label>
+                  <select
+                    id="adjustSku"
+                    value={stockDraft.sku}
+                    onChange={(event) => setAdjustment({ ...stockDraft, sku: event.target.value })}
+                    className={`h-9 ${fieldClassName}`}
+                  >
+                    {product.variants.map((variant) => (
+                      <option key={variant.sku} value={variant.sku}>
+                        {versionName(product, variant.sku)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : null}
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="adjustDelta">Unidades</Label>
+                  <Input
+                    id="adjustDelta"
+                    inputMode="numeric"
+                    value={stockDraft.delta}
+                    aria-invalid={Boolean(adjustmentErrors.delta)}
+                    onChange={(event) => setAdjustment({ ...stockDraft, delta: event.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="adjustReason">Motivo</Label>
+                  <select
+                    id="adjustReason"
+                    value={stockDraft.reason}
+                    onChange={(event) =>
+                      setAdjustment({ ...stockDraft, reason: event.target.value as StockAdjustmentReason })
+                    }
+                    className={`h-9 ${fieldClassName}`}
+                  >
+                    {manualStockReasons.map((reason) => (
+                      <option key={reason} value={reason}>
+                        {stockAdjustmentReasonLabels[reason]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="adjustNote">Observação (opcional)</Label>
+                <Input
+                  id="adjustNote"
+                  value={stockDraft.note}
+                  aria-invalid={Boolean(adjustmentErrors.note)}
+                  onChange={(event) => setAdjustment({ ...stockDraft, note: event.target.value })}
+                />
+              </div>
+              {firstErrorMessage(adjustmentErrors) ? (
+                <p className="text-xs text-destructive">{firstErrorMessage(adjustmentErrors)}</p>
+              ) : null}
+              <Button type="submit" variant="outline" disabled={saving}>
+                Registrar ajuste
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Histórico de estoque</CardTitle>
+          <CardDescription>Cadastro, vendas pagas e ajustes da equipe, do mais recente ao mais antigo.</CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          {adjustments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma movimentação registrada.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs uppercase text-muted-foreground">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Data</th>
+                  <th className="py-2 pr-4 font-medium">Versão</th>
+                  <th className="py-2 pr-4 font-medium">Motivo</th>
+                  <th className="py-2 pr-4 text-right font-medium">Unidades</th>
+                  <th className="py-2 text-right font-medium">Saldo</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {adjustments.map((item) => (
+                  <tr key={item.id}>
+                    <td className="py-3 pr-4 whitespace-nowrap">{formatDateTime(item.createdAt)}</td>
+                    <td className="py-3 pr-4">{versionName(product, item.sku)}</td>
+                    <td className="py-3 pr-4">
+                      {stockAdjustmentReasonLabels[item.reason]}
+                      {item.orderId ? (
+                        <>
+                          {" "}
+                          <Link href={`/admin/pedidos/${item.orderId}`} className="underline-offset-4 hover:underline">
+                            {orderNumber({ id: item.orderId })}
+                          </Link>
+                        </>
+                      ) : null}
+                      {item.note ? <span className="block text-xs text-muted-foreground">{item.note}</span> : null}
+                    </td>
+                    <td className="py-3 pr-4 text-right">{item.delta > 0 ? `+${item.delta}` : item.delta}</td>
+                    <td className="py-3 text-right font-medium text-foreground">{item.stockAfter}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  )
+}
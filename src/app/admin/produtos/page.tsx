@@ -0,0 +1,193 @@
+'use client'
+
+import { useState, type FormEvent } from "react"
+import Link from "next/link"
+import { ChevronRight, Plus } from "lucide-react"
+import { toast } from "sonner"
+
+import { ProductFields, type ProductFieldValues } from "@/components/product-fields"
+import { Badge } from "@/components/ui/badge"
+import { Button, buttonVariants } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAdminData } from "@/hooks/use-admin-data"
+import { useCatalogStore } from "@/hooks/use-catalog"
+import { apiRequest } from "@/lib/api-client"
+import { parseFormNumber } from "@/lib/back-office"
+import { categoryLabels } from "@/lib/catalog"
+import { formatCurrency } from "@/lib/format"
+import type { Product } from "@/lib/mock-data"
+import { createProductSchema, getFieldErrors, type FieldErrors } from "@/lib/schemas"
+import { priceRange } from "@/lib/variants"
+
+const emptyProduct: ProductFieldValues & { price: string; stock: string } = {
+  name: "",
+  description: "",
+  category: "bebidas",
+  image: "",
+  price: "",
+  stock: "0",
+}
+
+const formatPriceRange = (product: Product) => {
+  const { min, max } = priceRange(product)
+  return min === max ? formatCurrency(min) : `${formatCurrency(min)} a ${formatCurrency(max)}`
+}
+
+const totalStock = (product: Product) => product.variants.reduce((sum, variant) => sum + variant.stock, 0)
+
+export default function AdminProductsPage() {
+  const { data, error, replace } = useAdminData<{ products: Product[] }>("/api/admin/products")
+  const [isCreating, setIsCreating] = useState(false)
+  const [draft, setDraft] = useState(emptyProduct)
+  const [errors, setErrors] = useState<FieldErrors>({})
+  const [saving, setSaving] = useState(false)
+
+  const create = async (event: FormEvent) => {
+    event.preventDefault()
+    const input = { ...draft, price: parseFormNumber(draft.price), stock: parseFormNumber(draft.stock) }
+    const fieldErrors = getFieldErrors(createProductSchema, input)
+    setErrors(fieldErrors)
+    if (Object.keys(fieldErrors).length > 0) return
+
+    setSaving(true)
+    try {
+      const product = await apiRequest<Product>("/api/admin/products", { method: "POST", body: JSON.stringify(input) })
+      replace({ products: [...(data?.products ?? []), product].sort((a, b) => a.name.localeCompare(b.name, "pt-BR")) })
+      void useCatalogStore.getState().load()
+      setDraft(emptyProduct)
+      setIsCreating(false)
+      toast.success(`${product.name} está no catálogo.`)
+    } catch (failure) {
+      toast.error(failure instanceof Error ? failure.message : "Não foi possível salvar o produto.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <header className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">Produtos</h1>
+          <p className="text-sm text-muted-foreground">Cadastro, preços e estoque do catálogo da loja.</p>
+        </div>
+        {isCreating ? null : (
+          <Button onClick={() => setIsCreating(true)}>
+            <Plus className="h-4 w-4" aria-hidden="true" />
+            Novo produto
+          </Button>
+        )}
+      </header>
+
+      {isCreating ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Novo produto</CardTitle>
+            <CardDescription>
+              Produtos novos têm uma única versão. O estoque inicial entra no histórico como cadastro.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form className="grid gap-4 sm:grid-cols-2" onSubmit={create} noValidate>
+              <ProductFields idPrefix="newProduct" values={draft} errors={errors} onChange={(values) => setDraft({ ...draft, ...values })} />
+              <div className="grid gap-2">
+                <Label htmlFor="newProductPrice">Preço (R$)</Label>
+                <Input
+                  id="newProductPrice"
+                  inputMode="decimal"
+                  value={draft.price}
+                  aria-invalid={Boolean(errors.price)}
+                  onChange={(event) => setDraft({ ...draft, price: event.target.value })}
+                />
+                {errors.price ? <p className="text-xs text-destructive">{errors.price}</p> : null}
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="newProductStock">Estoque inicial</Label>
+                <Input
+                  id="newProductStock"
+                  inputMode="numeric"
+                  value={draft.stock}
+                  aria-invalid={Boolean(errors.stock)}
+                  onChange={(event) => setDraft({ ...draft, stock: event.target.value })}
+                />
+                {errors.stock ? <p className="text-xs text-destructive">{errors.stock}</p> : null}
+              </div>
+              <div className="flex gap-2 sm:col-span-2">
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Salvando..." : "Cadastrar produto"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => {
+                    setIsCreating(false)
+                    setDraft(emptyProduct)
+                    setErrors({})
+                  }}
+                >
+                  Cancelar
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {error ? (
+        <Card>
+          <CardContent className="py-8 text-sm text-destructive">{error}</CardContent>
+        </Card>
+      ) : !data ? (
+        <Skeleton className="h-[420px] w-full" />
+      ) : (
+        <Card>
+          <CardContent className="overflow-x-auto pt-6">
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs uppercase text-muted-foreground">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Produto</th>
+                  <th className="py-2 pr-4 font-medium">Categoria</th>
+                  <th className="py-2 pr-4 text-right font-medium">Preço</th>
+                  <th className="py-2 pr-4 text-right font-medium">Estoque</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {data.products.map((product) => {
+                  const stock = totalStock(product)
+                  return (
+                    <tr key={product.id}>
+                      <td className="py-3 pr-4">
+                        <p className="font-medium text-foreground">{product.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {product.variants.length === 1 ? product.variants[0].sku : `${product.variants.length} versões`}
+                        </p>
+                      </td>
+                      <td className="py-3 pr-4">{categoryLabels[product.category]}</td>
+                      <td className="py-3 pr-4 text-right">{formatPriceRange(product)}</td>
+                      <td className="py-3 pr-4 text-right">
+                        {stock === 0 ? <Badge variant="destructive">Esgotado</Badge> : stock}
+                      </td>
+                      <td className="py-3 text-right">
+                        <Link
+                          href={`/admin/produtos/${product.id}`}
+                          className={buttonVariants({ variant: "ghost", size: "sm" })}
+                        >
+                          Editar
+                          <ChevronRight className="h-4 w-4" aria-hidden="true" />
+                        </Link>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  )
+}
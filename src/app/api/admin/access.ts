@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+
+import { accountFromRequest, isAdmin } from "@/lib/account-registry"
+
+/**
+ * The admin signed in on the request, or the response that turns everyone
+ * else away.
+ */
+export const adminAccess = (request: Request) => {
+  const account = accountFromRequest(request)
+  if (!account) {
+    return { denied: NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 }) } as const
+  }
+  if (!isAdmin(account)) {
+    return { denied: NextResponse.json({ error: "Acesso restrito à equipe da loja." }, { status: 403 }) } as const
+  }
+  return { account } as const
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+
+import { adminAccess } from "@/app/api/admin/access"
+import { listEvents } from "@/lib/analytics-registry"
+import { funnelReport } from "@/lib/funnel"
+
+const dayInMs = 24 * 60 * 60 * 1000
+
+/** Checkout funnel over the last `dias` days, or over every stored event. */
+export async function GET(request: Request) {
+  const { denied } = adminAccess(request)
+  if (denied) return denied
+
+  const days = Number(new URL(request.url).searchParams.get("dias"))
+  const since = Number.isInteger(days) && days > 0 ? new Date(Date.now() - days * dayInMs) : undefined
+  return NextResponse.json(funnelReport(listEvents(since)))
+}
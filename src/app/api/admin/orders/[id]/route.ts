@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+
+import { adminAccess } from "@/app/api/admin/access"
+import { findOrder } from "@/lib/order-registry"
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params
+  const { denied } = adminAccess(request)
+  if (denied) return denied
+
+  const order = findOrder(id)
+  if (!order) {
+    return NextResponse.json({ error: "Pedido não encontrado." }, { status: 404 })
+  }
+  return NextResponse.json(order)
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+
+import { adminAccess } from "@/app/api/admin/access"
+import { parseAdminOrderFilters, searchAdminOrders } from "@/lib/back-office"
+import { listAllOrders } from "@/lib/order-registry"
+
+export async function GET(request: Request) {
+  const { denied } = adminAccess(request)
+  if (denied) return denied
+
+  const filters = parseAdminOrderFilters(new URL(request.url).searchParams)
+  return NextResponse.json({ filters, orders: searchAdminOrders(listAllOrders(), filters) })
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+
+import { adminAccess } from "@/app/api/admin/access"
+import { approvalRates } from "@/lib/back-office"
+import { listAllOrders } from "@/lib/order-registry"
+
+/** Approval rates per payment method over every attempt linked to an order. */
+export async function GET(request: Request) {
+  const { denied } = adminAccess(request)
+  if (denied) return denied
+
+  const orders = listAllOrders()
+  const attempts = orders.flatMap((order) => order.attempts ?? [])
+  return NextResponse.json({ orders: orders.length, methods: approvalRates(attempts) })
+}
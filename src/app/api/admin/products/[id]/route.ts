@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server"
+
+import { adminAccess } from "@/app/api/admin/access"
+import { deleteProduct, getProduct, listStockAdjustments, updateProduct } from "@/lib/product-registry"
+import { updateProductSchema } from "@/lib/schemas"
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params
+  const { denied } = adminAccess(request)
+  if (denied) return denied
+
+  const product = getProduct(id)
+  if (!product) {
+    return NextResponse.json({ error: "Produto não encontrado." }, { status: 404 })
+  }
+  return NextResponse.json({ product, adjustments: listStockAdjustments({ productId: id }) })
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { id } = await params
+  const { denied } = adminAccess(request)
+  if (denied) return denied
+
+  const product = getProduct(id)
+  if (!product) {
+    return NextResponse.json({ error: "Produto não encontrado." }, { status: 404 })
+  }
+
+  const payload = updateProductSchema.safeParse(await request.json().catch(() => null))
+  if (!payload.success) {
+    return NextResponse.json({ error: "Produto inválido.", issues: payload.error.issues }, { status: 400 })
+  }
+  return NextResponse.json(updateProduct(product, payload.data))
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { id } = await params
+  const { denied } = adminAccess(request)
+  if (denied) return denied
+
+  if (!getProduct(id)) {
+    return NextResponse.json({ error: "Produto não encontrado." }, { status: 404 })
+  }
+  deleteProduct(id)
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+
+import { adminAccess } from "@/app/api/admin/access"
+import { createProduct, listProducts } from "@/lib/product-registry"
+import { createProductSchema } from "@/lib/schemas"
+
+export async function GET(request: Request) {
+  const { denied } = adminAccess(request)
+  if (denied) return denied
+  return NextResponse.json({ products: listProducts() })
+}
+
+export async function POST(request: Request) {
+  const { denied, account } = adminAccess(request)
+  if (denied) return denied
+
+  const payload = createProductSchema.safeParse(await request.json().catch(() => null))
+  if (!payload.success) {
+    return NextResponse.json({ error: "Produto inválido.", issues: payload.error.issues }, { status: 400 })
+  }
+  return NextResponse.json(createProduct(payload.data, account.id), { status: 201 })
+}
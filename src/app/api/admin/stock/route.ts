@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+
+import { adminAccess } from "@/app/api/admin/access"
+import { adjustStock, listStockAdjustments } from "@/lib/product-registry"
+import { stockAdjustmentSchema } from "@/lib/schemas"
+
+export async function GET(request: Request) {
+  const { denied } = adminAccess(request)
+  if (denied) return denied
+
+  const params = new URL(request.url).searchParams
+  const adjustments = listStockAdjustments({
+    productId: params.get("produto") ?? undefined,
+    sku: params.get("sku") ?? undefined,
+  })
+  return NextResponse.json({ adjustments })
+}
+
+export async function POST(request: Request) {
+  const { denied, account } = adminAccess(request)
+  if (denied) return denied
+
+  const payload = stockAdjustmentSchema.safeParse(await request.json().catch(() => null))
+  if (!payload.success) {
+    return NextResponse.json({ error: "Ajuste inválido.", issues: payload.error.issues }, { status: 400 })
+  }
+
+  const result = adjustStock(payload.data, account.id)
+  if (!result.ok) {
+    return result.reason === "unknown_sku"
+      ? NextResponse.json({ error: "SKU fora do catálogo." }, { status: 404 })
+      : NextResponse.json({ error: "O estoque não pode ficar negativo." }, { status: 409 })
+  }
+  return NextResponse.json({ adjustment: result.adjustment, product: result.product }, { status: 201 })
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+
+import { allowEvents, analyticsBatchSchema, analyticsClient, recordEvents } from "@/lib/analytics-registry"
+
+/**
+ * Receives the storefront's event batches. No session is needed, shoppers are
+ * tracked before they sign in, so each client address gets a limited number
+ * of events per minute instead.
+ */
+export async function POST(request: Request) {
+  const payload = analyticsBatchSchema.safeParse(await request.json().catch(() => null))
+  if (!payload.success) {
+    return NextResponse.json({ error: "Eventos inválidos.", issues: payload.error.issues }, { status: 400 })
+  }
+  if (!allowEvents(analyticsClient(request.headers), payload.data.events.length)) {
+    return NextResponse.json({ error: "Muitos eventos. Tente novamente em instantes." }, { status: 429 })
+  }
+  return NextResponse.json({ recorded: recordEvents(payload.data.events) }, { status: 202 })
+}
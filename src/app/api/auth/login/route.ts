@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+
+import { authenticate, createSession, publicAccount, sessionCookie } from "@/lib/account-registry"
+import { authCredentialsSchema, firstErrorMessage, getFieldErrors } from "@/lib/schemas"
+
+export async function POST(request: Request) {
+  const json = await request.json().catch(() => null)
+  const payload = authCredentialsSchema.safeParse(json)
+  if (!payload.success) {
+    return NextResponse.json(
+      { error: firstErrorMessage(getFieldErrors(authCredentialsSchema, json)), issues: payload.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const account = authenticate(payload.data.email, payload.data.password)
+  if (!account) {
+    return NextResponse.json({ error: "Credenciais inválidas. Verifique e tente novamente." }, { status: 401 })
+  }
+
+  const response = NextResponse.json({ user: publicAccount(account) })
+  response.cookies.set(sessionCookie(createSession(account)))
+  return response
+}
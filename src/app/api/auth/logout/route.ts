@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+
+import { deleteSession, sessionConfig, sessionToken } from "@/lib/account-registry"
+
+export async function POST(request: Request) {
+  const token = sessionToken(request)
+  if (token) deleteSession(token)
+
+  const response = new NextResponse(null, { status: 204 })
+  response.cookies.delete(sessionConfig.cookieName)
+  return response
+}
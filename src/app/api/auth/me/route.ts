@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+
+import { accountFromRequest, publicAccount, saveAccountAddress } from "@/lib/account-registry"
+import { shippingAddressSchema } from "@/lib/schemas"
+
+const profileSchema = z.object({ address: shippingAddressSchema })
+
+export async function GET(request: Request) {
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+  return NextResponse.json({ user: publicAccount(account) })
+}
+
+export async function PATCH(request: Request) {
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+
+  const payload = profileSchema.safeParse(await request.json().catch(() => null))
+  if (!payload.success) {
+    return NextResponse.json({ error: "Endereço inválido.", issues: payload.error.issues }, { status: 400 })
+  }
+  return NextResponse.json({ user: publicAccount(saveAccountAddress(account, payload.data.address)) })
+}
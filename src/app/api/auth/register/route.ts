@@ -0,0 +1,28 @@
+import { after, NextResponse } from "next/server"
+
+import { createSession, publicAccount, registerAccount, sessionCookie } from "@/lib/account-registry"
+import { deliverMail } from "@/lib/mail-transport"
+import { firstErrorMessage, getFieldErrors, registerCredentialsSchema } from "@/lib/schemas"
+
+export async function POST(request: Request) {
+  const json = await request.json().catch(() => null)
+  const payload = registerCredentialsSchema.safeParse(json)
+  if (!payload.success) {
+    return NextResponse.json(
+      { error: firstErrorMessage(getFieldErrors(registerCredentialsSchema, json)), issues: payload.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const result = registerAccount(payload.data)
+  if (!result.ok) {
+    return NextResponse.json({ error: "E-mail já cadastrado. Tente fazer login." }, { status: 409 })
+  }
+
+  const { name, email } = result.account
+  after(() => deliverMail(email, { template: "account_created", name, email }))
+
+  const response = NextResponse.json({ user: publicAccount(result.account) }, { status: 201 })
+  response.cookies.set(sessionCookie(createSession(result.account)))
+  return response
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+
+import { accountFromRequest } from "@/lib/account-registry"
+import { cartSchema, getCart, saveCart } from "@/lib/cart-registry"
+
+export async function GET(request: Request) {
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+  return NextResponse.json(getCart(account.id))
+}
+
+export async function PUT(request: Request) {
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+
+  const payload = cartSchema.safeParse(await request.json().catch(() => null))
+  if (!payload.success) {
+    return NextResponse.json({ error: "Carrinho inválido.", issues: payload.error.issues }, { status: 400 })
+  }
+  return NextResponse.json(saveCart(account.id, payload.data))
+}
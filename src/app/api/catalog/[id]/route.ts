@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server"
+
+import { getProduct } from "@/lib/product-registry"
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  const { id } = await params
+  const product = getProduct(id)
+  if (!product) {
+    return NextResponse.json({ error: "Produto não encontrado." }, { status: 404 })
+  }
+  return NextResponse.json(product)
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+
+import { parseCatalogQuery, searchCatalog } from "@/lib/catalog"
+import { listProducts } from "@/lib/product-registry"
+
+export async function GET(request: Request) {
+  const query = parseCatalogQuery(new URL(request.url).searchParams)
+  return NextResponse.json({ query, ...searchCatalog(listProducts(), query) })
+}
@@ -0,0 +1,58 @@
+import { after, NextResponse } from "next/server"
+
+import { accountFromRequest } from "@/lib/account-registry"
+import { paymentStatusMail, type MailMessage } from "@/lib/mail-templates"
+import { deliverMail } from "@/lib/mail-transport"
+import { getOrder, orderPaymentSchema, updateOrderPayment } from "@/lib/order-registry"
+
+type RouteParams = { params: Promise<{ id: string }> }
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id } = await params
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+
+  // Orders of other accounts read as missing.
+  const order = getOrder(id, account.id)
+  if (!order) {
+    return NextResponse.json({ error: "Pedido não encontrado." }, { status: 404 })
+  }
+  return NextResponse.json(order)
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  const { id } = await params
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+
+  const order = getOrder(id, account.id)
+  if (!order) {
+    return NextResponse.json({ error: "Pedido não encontrado." }, { status: 404 })
+  }
+
+  const payload = orderPaymentSchema.safeParse(await request.json().catch(() => null))
+  if (!payload.success) {
+    return NextResponse.json({ error: "Atualização inválida.", issues: payload.error.issues }, { status: 400 })
+  }
+
+  const updated = updateOrderPayment(order, payload.data)
+  const mails: MailMessage[] = []
+  // Pix and boletos are sent once, when the legs of the submission are linked.
+  if (updated.attemptIds.length > order.attemptIds.length) {
+    for (const { pix, boleto } of payload.data.documents) {
+      if (pix) mails.push({ template: "pix_issued", order: updated, pix })
+      if (boleto) mails.push({ template: "boleto_issued", order: updated, boleto })
+    }
+  }
+  const statusMail =
+    updated.paymentStatus !== order.paymentStatus ? paymentStatusMail(updated, updated.paymentStatus) : null
+  if (statusMail) mails.push(statusMail)
+  after(async () => {
+    for (const mail of mails) await deliverMail(account.email, mail)
+  })
+  return NextResponse.json(updated)
+}
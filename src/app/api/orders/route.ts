@@ -0,0 +1,51 @@
+import { after, NextResponse } from "next/server"
+
+import { accountFromRequest } from "@/lib/account-registry"
+import { deliverMail } from "@/lib/mail-transport"
+import { getOrder, listOrders, placeOrder, placeOrderSchema } from "@/lib/order-registry"
+
+export async function GET(request: Request) {
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+  return NextResponse.json({ orders: listOrders(account.id) })
+}
+
+export async function POST(request: Request) {
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Entre na sua conta para finalizar o pedido." }, { status: 401 })
+  }
+
+  const payload = placeOrderSchema.safeParse(await request.json().catch(() => null))
+  if (!payload.success) {
+    return NextResponse.json({ error: "Pedido inválido.", issues: payload.error.issues }, { status: 400 })
+  }
+
+  const isRetry = getOrder(payload.data.id, account.id) !== null
+  const result = placeOrder(account, payload.data)
+  if (!result.ok) {
+    switch (result.reason) {
+      case "not_found":
+        return NextResponse.json({ error: "Pedido não encontrado." }, { status: 404 })
+      case "already_paid":
+        return NextResponse.json({ error: "Este pedido já foi pago." }, { status: 409 })
+      case "coupon":
+      case "out_of_stock":
+        return NextResponse.json({ error: result.error }, { status: 409 })
+      case "freight_unavailable":
+        return NextResponse.json({ error: "O frete escolhido não atende este endereço." }, { status: 409 })
+      case "price_changed":
+        return NextResponse.json(
+          { error: "Os preços do pedido mudaram. Revise o carrinho antes de pagar." },
+          { status: 409 },
+        )
+    }
+  }
+
+  // A retry of the same order is reported with its payment.
+  const { order } = result
+  if (!isRetry) after(() => deliverMail(account.email, { template: "order_placed", order }))
+  return NextResponse.json(order, { status: 201 })
+}
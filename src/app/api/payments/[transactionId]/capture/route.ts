@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+
+import { accountFromRequest } from "@/lib/account-registry"
+import { captureTransaction, getAccountTransaction } from "@/lib/payment-registry"
+
+type RouteParams = { params: Promise<{ transactionId: string }> }
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const { transactionId } = await params
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+
+  if (!getAccountTransaction(transactionId, account.id)) {
+    return NextResponse.json({ error: "Transação não encontrada." }, { status: 404 })
+  }
+  return NextResponse.json(captureTransaction(transactionId))
+}
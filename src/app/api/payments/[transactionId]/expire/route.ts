@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+
+import { accountFromRequest } from "@/lib/account-registry"
+import { expireTransaction, getAccountTransaction } from "@/lib/payment-registry"
+
+type RouteParams = { params: Promise<{ transactionId: string }> }
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const { transactionId } = await params
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+  if (!getAccountTransaction(transactionId, account.id)) {
+    return NextResponse.json({ error: "Transação não encontrada." }, { status: 404 })
+  }
+
+  const result = expireTransaction(transactionId)
+  if (!result.ok) {
+    return result.reason === "unknown_transaction"
+      ? NextResponse.json({ error: "Transação não encontrada." }, { status: 404 })
+      : NextResponse.json({ error: "Só cobranças Pix expiram por aqui." }, { status: 409 })
+  }
+  return NextResponse.json(result.transaction)
+}
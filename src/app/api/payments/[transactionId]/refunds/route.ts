@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+
+import { accountFromRequest } from "@/lib/account-registry"
+import { getAccountTransaction, refundTransaction, refundTransactionSchema } from "@/lib/payment-registry"
+
+type RouteParams = { params: Promise<{ transactionId: string }> }
+
+export async function POST(request: Request, { params }: RouteParams) {
+  const { transactionId } = await params
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+  if (!getAccountTransaction(transactionId, account.id)) {
+    return NextResponse.json({ error: "Transação não encontrada." }, { status: 404 })
+  }
+
+  const payload = refundTransactionSchema.safeParse(await request.json().catch(() => null))
+  if (!payload.success) {
+    return NextResponse.json(
+      { error: "Estorno inválido.", issues: payload.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const result = refundTransaction(transactionId, payload.data.amount)
+  if (!result.ok) {
+    return result.reason === "unknown_transaction"
+      ? NextResponse.json({ error: "Transação não encontrada." }, { status: 404 })
+      : NextResponse.json({ error: result.message ?? "Transação não pode ser estornada." }, { status: 409 })
+  }
+  return NextResponse.json(result.refund, { status: 201 })
+}
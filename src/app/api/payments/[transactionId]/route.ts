@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+
+import { accountFromRequest } from "@/lib/account-registry"
+import { cancelTransaction, checkTransaction, getAccountTransaction } from "@/lib/payment-registry"
+
+type RouteParams = { params: Promise<{ transactionId: string }> }
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const { transactionId } = await params
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+
+  // Transactions of other accounts read as missing.
+  const transaction = getAccountTransaction(transactionId, account.id)
+  if (!transaction) {
+    return NextResponse.json({ error: "Transação não encontrada." }, { status: 404 })
+  }
+  return NextResponse.json(checkTransaction(transaction))
+}
+
+export async function DELETE(request: Request, { params }: RouteParams) {
+  const { transactionId } = await params
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+
+  if (!getAccountTransaction(transactionId, account.id)) {
+    return NextResponse.json({ error: "Transação não encontrada." }, { status: 404 })
+  }
+  return NextResponse.json(cancelTransaction(transactionId))
+}
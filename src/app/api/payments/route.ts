@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+
+import { accountFromRequest } from "@/lib/account-registry"
+import { listTransactions, registerTransaction, registerTransactionSchema } from "@/lib/payment-registry"
+import type { PaymentStatus } from "@/lib/payment-gateway"
+import { getWebhookSecret, paymentSignatureHeader, verifyWebhookSignature } from "@/lib/payment-webhooks"
+
+/**
+ * The account's transactions. The provider (or the local simulator) lists
+ * every account's by signing an empty body with the webhook secret.
+ */
+export async function GET(request: Request) {
+  const status = new URL(request.url).searchParams.get("status") as PaymentStatus | null
+  const secret = getWebhookSecret()
+  if (secret && verifyWebhookSignature(secret, "", request.headers.get(paymentSignatureHeader))) {
+    return NextResponse.json({ transactions: listTransactions(status ?? undefined) })
+  }
+
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Sessão expirada. Entre novamente." }, { status: 401 })
+  }
+  return NextResponse.json({ transactions: listTransactions(status ?? undefined, account.id) })
+}
+
+export async function POST(request: Request) {
+  const account = accountFromRequest(request)
+  if (!account) {
+    return NextResponse.json({ error: "Entre na sua conta para pagar." }, { status: 401 })
+  }
+
+  const payload = registerTransactionSchema.safeParse(await request.json().catch(() => null))
+  if (!payload.success) {
+    return NextResponse.json(
+      { error: "Transação inválida.", issues: payload.error.issues },
+      { status: 400 },
+    )
+  }
+
+  const result = registerTransaction(payload.data, account.id)
+  if (!result.ok) {
+    switch (result.reason) {
+      case "taken":
+        return NextResponse.json({ error: "Transação já registrada." }, { status: 409 })
+      case "unknown_order":
+        return NextResponse.json({ error: "Pedido não encontrado." }, { status: 404 })
+      case "unpriced_amount":
+        return NextResponse.json({ error: "Valor diferente do cobrado no pedido." }, { status: 400 })
+    }
+  }
+  return NextResponse.json(result.transaction, { status: 201 })
+}
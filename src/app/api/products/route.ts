@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server"
+
+import { listProducts } from "@/lib/product-registry"
+
+/** The whole catalog with current prices and stock, which the storefront keeps in memory. */
+export async function GET() {
+  return NextResponse.json({ products: listProducts() })
+}
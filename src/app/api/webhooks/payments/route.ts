@@ -0,0 +1,54 @@
+import { after, NextResponse } from "next/server"
+
+import { paymentStatusMail } from "@/lib/mail-templates"
+import { deliverMail } from "@/lib/mail-transport"
+import { settleOrdersCharged } from "@/lib/order-registry"
+import { applyPaymentEvent } from "@/lib/payment-registry"
+import {
+  getWebhookSecret,
+  paymentSignatureHeader,
+  paymentWebhookEventSchema,
+  verifyWebhookSignature,
+} from "@/lib/payment-webhooks"
+
+export async function POST(request: Request) {
+  const secret = getWebhookSecret()
+  if (!secret) {
+    return NextResponse.json({ error: "Webhook não configurado." }, { status: 500 })
+  }
+
+  const body = await request.text()
+  if (!verifyWebhookSignature(secret, body, request.headers.get(paymentSignatureHeader))) {
+    return NextResponse.json({ error: "Assinatura inválida." }, { status: 401 })
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(body)
+  } catch {
+    return NextResponse.json({ error: "Corpo da requisição inválido." }, { status: 400 })
+  }
+
+  const event = paymentWebhookEventSchema.safeParse(json)
+  if (!event.success) {
+    return NextResponse.json({ error: "Evento inválido.", issues: event.error.issues }, { status: 400 })
+  }
+
+  const result = applyPaymentEvent(event.data)
+  if (!result.ok) {
+    return result.reason === "unknown_transaction"
+      ? NextResponse.json({ error: "Transação não encontrada." }, { status: 404 })
+      : NextResponse.json({ error: "Transação já liquidada." }, { status: 409 })
+  }
+
+  // Pix and boletos are often paid with the store closed: the order follows the charge here.
+  const settled = result.duplicate ? [] : settleOrdersCharged(result.transaction.transactionId)
+  after(async () => {
+    for (const order of settled) {
+      const mail = paymentStatusMail(order, order.paymentStatus)
+      if (mail) await deliverMail(order.customer.email, mail)
+    }
+  })
+
+  return NextResponse.json({ received: true, duplicate: result.duplicate, transaction: result.transaction })
+}
@@ -0,0 +1,162 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { ChevronLeft, FileText, Printer } from "lucide-react"
+
+import { Button, buttonVariants } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAuthStore } from "@/hooks/use-auth"
+import { useCheckoutStore } from "@/hooks/use-checkout"
+import { boletoIssuer, encodeInterleaved2of5 } from "@/lib/boleto"
+import { formatCurrency, formatIsoDate } from "@/lib/format"
+
+function BoletoBarcode({ digits }: { digits: string }) {
+  const modules = encodeInterleaved2of5(digits)
+  const offsets = modules.reduce<number[]>(
+    (acc, width, index) => [...acc, index === 0 ? 0 : acc[index - 1] + modules[index - 1]],
+    [],
+  )
+  const totalWidth = offsets[offsets.length - 1] + modules[modules.length - 1]
+
+  return (
+    <svg
+      viewBox={`0 0 ${totalWidth} 50`}
+      preserveAspectRatio="none"
+      className="h-16 w-full max-w-[640px]"
+      role="img"
+      aria-label={`Código de barras ${digits}`}
+    >
+      {modules.map((width, index) =>
+        index % 2 === 0 ? (
+          <rect key={index} x={offsets[index]} y={0} width={width} height={50} fill="#000" />
+        ) : null,
+      )}
+    </svg>
+  )
+}
+
+function BoletoField({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div className={className}>
+      <p className="text-[10px] uppercase tracking-[0.08em] text-muted-foreground">{label}</p>
+      <p className="text-sm font-medium text-foreground">{value}</p>
+    </div>
+  )
+}
+
+export default function BoletoPage() {
+  const { attemptId } = useParams<{ attemptId: string }>()
+  const [isHydrated, setIsHydrated] = useState(false)
+  const attempt = useCheckoutStore((state) => state.attempts.find((item) => item.id === attemptId))
+  const user = useAuthStore((state) => state.user)
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setIsHydrated(true))
+    return () => cancelAnimationFrame(frame)
+  }, [])
+
+  if (!isHydrated) {
+    return (
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-16">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-[420px] w-full" />
+      </main>
+    )
+  }
+
+  const boleto = attempt?.boleto
+
+  if (!boleto) {
+    return (
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-16">
+        <Card>
+          <CardHeader>
+            <CardTitle>Boleto não encontrado</CardTitle>
+            <CardDescription>
+              Este boleto não está disponível nesta sessão. Volte ao checkout e gere um novo.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/" className={buttonVariants({ variant: "outline" })}>
+              <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+              Voltar ao checkout
+            </Link>
+          </CardContent>
+        </Card>
+      </main>
+    )
+  }
+
+  return (
+    <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-10 print:max-w-none print:p-0">
+      <div className="flex items-center justify-between print:hidden">
+        <Link href="/" className={buttonVariants({ variant: "outline" })}>
+          <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+          Voltar ao checkout
+        </Link>
+        <Button onClick={() => window.print()}>
+          <Printer className="h-4 w-4" aria-hidden="true" />
+          Imprimir boleto
+        </Button>
+      </div>
+
+      <section className="space-y-4 rounded-lg border border-border p-6 print:border-black">
+        <header className="flex flex-wrap items-center gap-4 border-b border-border pb-4">
+          <FileText className="h-6 w-6" aria-hidden="true" />
+          <span className="text-lg font-bold">{boletoIssuer.bankName}</span>
+          <span className="border-x border-border px-4 text-lg font-bold">
+            {boletoIssuer.bankCode}-{boletoIssuer.bankDigit}
+          </span>
+          <span className="ml-auto font-mono text-sm font-semibold tracking-wide sm:text-base">
+            {boleto.digitableLine}
+          </span>
+        </header>
+
+        <div className="grid gap-4 sm:grid-cols-4">
+          <BoletoField
+            className="sm:col-span-3"
+            label="Local de pagamento"
+            value="Pagável em qualquer banco ou lotérica até o vencimento"
+          />
+          <BoletoField label="Vencimento" value={formatIsoDate(boleto.dueDate)} />
+          <BoletoField
+            className="sm:col-span-3"
+            label="Beneficiário"
+            value={`${boletoIssuer.beneficiary} • CNPJ ${boletoIssuer.beneficiaryDocument}`}
+          />
+          <BoletoField
+            label="Agência / Código beneficiário"
+            value={`${boletoIssuer.agency} / ${boletoIssuer.account}`}
+          />
+          <BoletoField
+            label="Data do documento"
+            value={attempt.createdAt.toLocaleDateString("pt-BR")}
+          />
+          <BoletoField label="Carteira" value={boletoIssuer.wallet} />
+          <BoletoField label="Nosso número" value={boleto.nossoNumero} />
+          <BoletoField label="Valor do documento" value={formatCurrency(boleto.amount)} />
+          <div className="sm:col-span-3">
+            <p className="text-[10px] uppercase tracking-[0.08em] text-muted-foreground">Instruções</p>
+            <ul className="mt-1 space-y-1 text-sm text-foreground">
+              <li>Não receber após o vencimento.</li>
+              {boleto.instructions ? <li>{boleto.instructions}</li> : null}
+            </ul>
+          </div>
+          <BoletoField label="(=) Valor cobrado" value={formatCurrency(boleto.amount)} />
+          <BoletoField
+            className="sm:col-span-4"
+            label="Pagador"
+            value={user ? `${user.name} • CPF ${user.document}` : "—"}
+          />
+        </div>
+
+        <div className="border-t border-border pt-4">
+          <BoletoBarcode digits={boleto.barcode} />
+        </div>
+      </section>
+    </main>
+  )
+}
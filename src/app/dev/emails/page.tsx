@@ -0,0 +1,80 @@
+'use client'
+
+import { useMemo, useState } from "react"
+import { notFound } from "next/navigation"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { mailPreviewMessages } from "@/lib/mail-previews"
+import { mailTemplateLabels, renderMail, type MailTemplate } from "@/lib/mail-templates"
+import { cn } from "@/lib/utils"
+
+const templates = Object.keys(mailTemplateLabels) as MailTemplate[]
+
+/** Development-only preview of the transactional e-mails with sample data. */
+export default function MailPreviewPage() {
+  const [template, setTemplate] = useState<MailTemplate>("order_placed")
+  const [view, setView] = useState<"html" | "text">("html")
+  const messages = useMemo(() => mailPreviewMessages(), [])
+  const mail = useMemo(() => renderMail(messages[template]), [messages, template])
+
+  if (process.env.NODE_ENV === "production") notFound()
+
+  return (
+    <main className="mx-auto flex w-full max-w-6xl flex-col gap-6 px-6 py-10">
+      <header className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">E-mails transacionais</h1>
+        <p className="text-sm text-muted-foreground">
+          Prévia dos modelos com dados de exemplo. Os e-mails enviados em desenvolvimento ficam em `.data/outbox`.
+        </p>
+      </header>
+
+      <div className="grid gap-6 lg:grid-cols-[220px,1fr]">
+        <nav className="flex flex-col gap-1" aria-label="Modelos">
+          {templates.map((item) => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => setTemplate(item)}
+              className={cn(
+                "rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-muted",
+                item === template ? "bg-muted font-semibold text-foreground" : "text-muted-foreground",
+              )}
+            >
+              {mailTemplateLabels[item]}
+            </button>
+          ))}
+        </nav>
+
+        <Card>
+          <CardHeader className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+            <div className="space-y-1">
+              <CardTitle className="text-lg">{mail.subject}</CardTitle>
+              <CardDescription>Modelo {template}</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant={view === "html" ? "default" : "outline"} onClick={() => setView("html")}>
+                HTML
+              </Button>
+              <Button size="sm" variant={view === "text" ? "default" : "outline"} onClick={() => setView("text")}>
+                Texto
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {view === "html" ? (
+              <iframe
+                title={`Prévia do e-mail ${mailTemplateLabels[template]}`}
+                srcDoc={mail.html}
+                sandbox=""
+                className="h-[720px] w-full rounded-md border border-border bg-white"
+              />
+            ) : (
+              <pre className="whitespace-pre-wrap rounded-md border border-border bg-muted p-4 text-sm">{mail.text}</pre>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  )
+}
@@ -1,52 +1,169 @@
 'use client'
 
-import { useEffect, useMemo, useState, type FormEvent } from "react"
+import { Fragment, Suspense, useEffect, useMemo, useRef, useState, type FormEvent } from "react"
 import type { ElementType } from "react"
 import {
   BadgeCheck,
+  Bookmark,
   Box,
   CheckCircle,
   ChevronLeft,
   ChevronRight,
+  Copy,
   CreditCard,
   FileText,
+  Heart,
+  LayoutDashboard,
+  Lock,
+  LogIn,
   LogOut,
   Package,
+  Printer,
   QrCode,
   RefreshCw,
+  RotateCcw,
+  Search,
   ShoppingCart,
+  SlidersHorizontal,
+  TicketPercent,
   TimerReset,
+  TriangleAlert,
+  Truck,
+  X,
   XCircle,
 } from "lucide-react"
+import Link from "next/link"
+import { QRCodeSVG } from "qrcode.react"
 import { Toaster, toast } from "sonner"
 
+import { SummaryLines } from "@/components/summary-lines"
 import { Badge } from "@/components/ui/badge"
-import { Button } from "@/components/ui/button"
+import { Button, buttonVariants } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useAuthStore } from "@/hooks/use-auth"
-import { cartQuantity, cartTotal, useCartStore } from "@/hooks/use-cart"
+import { cartQuantity, useCartStore } from "@/hooks/use-cart"
+import { useCatalogStore } from "@/hooks/use-catalog"
+import { useCatalogQuery } from "@/hooks/use-catalog-query"
 import { currentAttempt, useCheckoutStore } from "@/hooks/use-checkout"
-import { formatCurrency, maskCardNumber, maskExpiration } from "@/lib/format"
-import { products } from "@/lib/mock-data"
-import type { PaymentMethod } from "@/lib/mock-data"
-import type { CheckoutFormValues, CheckoutStep } from "@/lib/types"
+import { useCouponStore } from "@/hooks/use-coupons"
+import { useAvailableStock, useInventoryStore } from "@/hooks/use-inventory"
+import { useOrderStore } from "@/hooks/use-orders"
+import { useProcessingElsewhere } from "@/hooks/use-processing-lock"
+import { useWishlist, useWishlistStore } from "@/hooks/use-wishlist"
+import { track } from "@/lib/analytics"
+import {
+  cardBrandRules,
+  cardCvvLength,
+  detectCardBrand,
+  type CardBrand,
+} from "@/lib/card"
+import {
+  catalogSortLabels,
+  categoryLabels,
+  defaultCatalogQuery,
+  searchCatalog,
+  serializeCatalogQuery,
+  type CatalogSort,
+} from "@/lib/catalog"
+import type { CartMergeLine } from "@/lib/cart-merge"
+import type { CartChange } from "@/lib/cart-revalidation"
+import { evaluateCoupon, redeemedCouponCodes } from "@/lib/coupons"
+import {
+  formatCurrency,
+  formatIsoDate,
+  maskCardNumber,
+  maskCep,
+  maskExpiration,
+  toIsoDate,
+} from "@/lib/format"
+import {
+  buildInstallmentOptions,
+  describeInstallmentPlan,
+  formatInterestRate,
+  installmentConfig,
+  resolveInstallmentPlan,
+  type InstallmentPlan,
+} from "@/lib/installments"
+import type {
+  FreightQuote,
+  PaymentAttempt,
+  PaymentMethod,
+  Product,
+  ProductCategory,
+  ProductVariant,
+  ShippingAddress,
+} from "@/lib/mock-data"
+import { addMoney, formatMoney, toMoney, toReais, zeroMoney, type Money } from "@/lib/money"
+import type { PaymentStatus } from "@/lib/payment-gateway"
+import { isRefundableStatus, paymentStatusLabels } from "@/lib/payment-status"
+import type { PixCharge } from "@/lib/pix"
+import { priceOrder, pricingConfig, type OrderTotals } from "@/lib/pricing"
+import {
+  refundableItems,
+  refundAmountFor,
+  validateRefundSelection,
+  type RefundSelection,
+} from "@/lib/refunds"
+import type {
+  Account,
+  AuthCredentials,
+  CartItem,
+  CheckoutFormValues,
+  CheckoutStep,
+  ShippingDraft,
+  WishlistEntry,
+  SplitPaymentDraft,
+} from "@/lib/types"
+import {
+  authCredentialsSchema,
+  checkoutFormSchema,
+  firstErrorMessage,
+  getFieldErrors,
+  registerCredentialsSchema,
+  shippingAddressSchema,
+  splitAmountSchema,
+} from "@/lib/schemas"
+import {
+  carriers,
+  formatAddress,
+  formatDeliveryDays,
+  lookupCep,
+  quoteFreight,
+} from "@/lib/shipping"
+import {
+  buildPaymentLegs,
+  combineLegStatuses,
+  orderLegs,
+  splitPaymentConfig,
+} from "@/lib/split-payment"
 import { cn } from "@/lib/utils"
+import { findBySku, hasOptions, lineItemName, priceRange, variantLabel, variantName } from "@/lib/variants"
+import { resolveWishlistEntry, wishlistKey } from "@/lib/wishlist"
 
-const stepOrder: CheckoutStep[] = ["catalog", "cart", "payment", "status"]
+const stepOrder: CheckoutStep[] = ["catalog", "cart", "shipping", "payment", "status"]
 
 const stepLabels: Record<CheckoutStep, { title: string; description: string; icon: ElementType }> = {
   catalog: { title: "Catálogo", description: "Escolha seus produtos", icon: Package },
   cart: { title: "Carrinho", description: "Revise itens e quantidades", icon: ShoppingCart },
+  shipping: { title: "Entrega", description: "Endereço e frete", icon: Truck },
   payment: { title: "Pagamento", description: "Informe os dados de pagamento", icon: CreditCard },
   status: { title: "Status", description: "Acompanhe seu pedido", icon: FileText },
 }
 
 const paymentLabels: Record<PaymentMethod, { title: string; description: string; icon: ElementType }> = {
-  pix: { title: "Pix", description: "Pagamentos instantâneos com QR Code ou chave", icon: QrCode },
-  credit: { title: "Cartão de Crédito", description: "Até 12x sem juros", icon: CreditCard },
+  pix: {
+    title: "Pix",
+    description: `QR Code ou chave, com ${pricingConfig.pixDiscountPercent}% de desconto`,
+    icon: QrCode,
+  },
+  credit: {
+    title: "Cartão de Crédito",
+    description: `Em até ${installmentConfig.maxInstallments}x, ${installmentConfig.interestFreeInstallments}x sem juros`,
+    icon: CreditCard,
+  },
   boleto: { title: "Boleto", description: "Vencimento em 2 dias úteis", icon: FileText },
 }
 
@@ -56,17 +173,45 @@ const statusVariants: Record<string, { label: string; variant: "default" | "seco
   pago: { label: "Pagamento aprovado", variant: "default" },
   falhado: { label: "Pagamento recusado", variant: "destructive" },
   expirado: { label: "Pagamento expirado", variant: "destructive" },
+  cancelado: { label: "Pedido cancelado", variant: "secondary" },
+  estornado: { label: "Pagamento estornado", variant: "secondary" },
+  parcialmente_estornado: { label: "Estorno parcial", variant: "secondary" },
+}
+
+/** One-use coupons count as used once their order is paid. */
+const redeemOrderCoupon = (order: PaymentAttempt) => {
+  const user = useAuthStore.getState().user
+  if (order.coupon && user) useCouponStore.getState().redeem(user.id, order.coupon.code)
 }
 
 function CatalogStep({
-  onAddProduct,
+  onAddVariant,
   onGoToCart,
   itemsCount,
+  cartItems,
+  availableFor,
+  isGuest,
+  wishlist,
+  onToggleWishlist,
+  onRemoveWishlist,
+  onRequestLogin,
 }: {
-  onAddProduct: (productId: string) => void
+  onAddVariant: (product: Product, variant: ProductVariant) => void
   onGoToCart: () => void
   itemsCount: number
+  cartItems: CartItem[]
+  availableFor: (variant: ProductVariant) => number
+  isGuest: boolean
+  wishlist: WishlistEntry[]
+  onToggleWishlist: (product: Product) => void
+  onRemoveWishlist: (key: string) => void
+  onRequestLogin: () => void
 }) {
+  const [query, setQuery] = useCatalogQuery()
+  const catalog = useCatalogStore((state) => state.products)
+  const results = useMemo(() => searchCatalog(catalog, query), [catalog, query])
+  const hasFilters = serializeCatalogQuery({ ...query, page: 1 }) !== ""
+
   return (
     <div className="grid gap-6 lg:grid-cols-[2fr,1fr]">
       <Card className="h-full">
@@ -79,97 +224,461 @@ function CatalogStep({
           </div>
           <Badge variant="secondary" className="flex items-center gap-1">
             <Package className="h-3.5 w-3.5" aria-hidden="true" />
-            {products.length} produtos
+            {results.total} produto{results.total !== 1 ? "s" : ""}
           </Badge>
         </CardHeader>
-        <CardContent className="grid gap-4 sm:grid-cols-2">
-          {products.map((product) => (
-            <article
-              key={product.id}
-              className="flex h-full flex-col justify-between rounded-lg border border-border p-4 transition hover:border-primary"
-            >
-              <div className="space-y-2">
-                <h3 className="text-lg font-semibold text-foreground">{product.name}</h3>
-                <p className="text-sm text-muted-foreground">{product.description}</p>
+        <CardContent className="space-y-6">
+          <div className="space-y-3">
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <div className="relative flex-1">
+                <Search
+                  className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
+                  aria-hidden="true"
+                />
+                <Input
+                  type="search"
+                  aria-label="Buscar produtos"
+                  placeholder="Buscar por nome ou descrição"
+                  value={query.search}
+                  onChange={(event) => setQuery({ search: event.target.value })}
+                  className="pl-9"
+                />
               </div>
-              <div className="mt-4 space-y-3">
-                <div className="flex items-center justify-between">
-                  <span className="text-base font-semibold text-foreground">
-                    {formatCurrency(product.price)}
-                  </span>
-                  <Badge variant="outline">{product.category}</Badge>
-                </div>
+              <select
+                aria-label="Ordenar por"
+                value={query.sort}
+                onChange={(event) => setQuery({ sort: event.target.value as CatalogSort })}
+                className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+              >
+                {Object.entries(catalogSortLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {(Object.keys(categoryLabels) as ProductCategory[]).map((category) => {
+                const isActive = query.categories.includes(category)
+                return (
+                  <Button
+                    key={category}
+                    variant={isActive ? "default" : "outline"}
+                    size="sm"
+                    aria-pressed={isActive}
+                    onClick={() =>
+                      setQuery({
+                        categories: isActive
+                          ? query.categories.filter((item) => item !== category)
+                          : [...query.categories, category],
+                      })
+                    }
+                  >
+                    {categoryLabels[category]}
+                  </Button>
+                )
+              })}
+              <PriceRangeFilter
+                key={`${query.minPrice}-${query.maxPrice}`}
+                minPrice={query.minPrice}
+                maxPrice={query.maxPrice}
+                onApply={(minPrice, maxPrice) => setQuery({ minPrice, maxPrice })}
+              />
+              {hasFilters ? (
                 <Button
-                  variant="outline"
-                  onClick={() => onAddProduct(product.id)}
-                  className="w-full"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setQuery({ ...defaultCatalogQuery })}
                 >
-                  <ShoppingCart className="mr-2 h-4 w-4" aria-hidden="true" />
-                  Adicionar
+                  <X className="mr-1 h-4 w-4" aria-hidden="true" />
+                  Limpar filtros
                 </Button>
-                <p className="text-xs text-muted-foreground">
-                  Estoque virtual: {product.stock} unidade{product.stock > 1 ? "s" : ""}
-                </p>
-              </div>
-            </article>
-          ))}
-        </CardContent>
-      </Card>
+              ) : null}
+            </div>
+          </div>
 
-      <Card className="sticky top-8 h-fit">
-        <CardHeader>
-          <CardTitle className="text-xl">Resumo rápido</CardTitle>
-          <CardDescription>
-            A sessão permanece ativa mesmo ao recarregar a página. O carrinho é salvo localmente.
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="rounded-md border border-dashed border-border p-4 text-sm">
-            <p className="text-muted-foreground">
-              <strong className="text-foreground">Status da sessão:</strong> autenticada e persistida via
-              localStorage. O fluxo segue bloqueado até login/cadastro.
-            </p>
+          {results.total === 0 ? (
+            <div className="rounded-md border border-dashed border-border p-6 text-center">
+              <Search className="mx-auto h-10 w-10 text-muted-foreground" aria-hidden="true" />
+              <p className="mt-3 text-sm text-muted-foreground">
+                Nenhum produto encontrado. Ajuste a busca ou os filtros.
+              </p>
+            </div>
+          ) : null}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {results.items.map((product) => {
+              const variant = product.variants[0]
+              const range = priceRange(product)
+              const available = hasOptions(product)
+                ? product.variants.reduce((sum, item) => sum + availableFor(item), 0)
+                : availableFor(variant)
+              const inCart = cartItems.find((item) => item.variant.sku === variant.sku)?.quantity ?? 0
+              const isWished = wishlist.some((entry) => wishlistKey(entry) === product.id)
+              return (
+                <article
+                  key={product.id}
+                  className="flex h-full flex-col justify-between rounded-lg border border-border p-4 transition hover:border-primary"
+                >
+                  <div className="space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <h3 className="text-lg font-semibold text-foreground">
+                        <Link href={`/produtos/${product.id}`} className="hover:underline">
+                          {product.name}
+                        </Link>
+                      </h3>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-pressed={isWished}
+                        aria-label={isWished ? "Remover da lista de desejos" : "Salvar na lista de desejos"}
+                        onClick={() => onToggleWishlist(product)}
+                      >
+                        <Heart className={cn("h-4 w-4", isWished && "fill-current text-rose-500")} aria-hidden="true" />
+                      </Button>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{product.description}</p>
+                  </div>
+                  <div className="mt-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-base font-semibold text-foreground">
+                        {range.min === range.max ? "" : "a partir de "}
+                        {formatCurrency(range.min)}
+                      </span>
+                      <Badge variant="outline">{categoryLabels[product.category]}</Badge>
+                    </div>
+                    {hasOptions(product) ? (
+                      <Link
+                        href={`/produtos/${product.id}`}
+                        className={cn(buttonVariants({ variant: "outline" }), "w-full")}
+                      >
+                        <SlidersHorizontal className="mr-2 h-4 w-4" aria-hidden="true" />
+                        Escolher opções
+                      </Link>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        onClick={() => onAddVariant(product, variant)}
+                        className="w-full"
+                        disabled={inCart >= available}
+                      >
+                        <ShoppingCart className="mr-2 h-4 w-4" aria-hidden="true" />
+                        {available === 0 ? "Esgotado" : inCart >= available ? "Limite no carrinho" : "Adicionar"}
+                      </Button>
+                    )}
+                    <p className={cn("text-xs", available === 0 ? "text-destructive" : "text-muted-foreground")}>
+                      {available === 0
+                        ? "Sem unidades disponíveis no momento"
+                        : hasOptions(product)
+                          ? `${product.variants.length} opções • ${available} unidade${available > 1 ? "s" : ""} no total`
+                          : `Disponível: ${available} unidade${available > 1 ? "s" : ""}`}
+                    </p>
+                  </div>
+                </article>
+              )
+            })}
           </div>
-          <Button
-            className="w-full"
-            size="lg"
-            onClick={onGoToCart}
-            disabled={itemsCount === 0}
-          >
-            Continuar para o carrinho
-            <ChevronRight className="ml-2 h-4 w-4" aria-hidden="true" />
-          </Button>
-          {itemsCount === 0 ? (
-            <p className="text-center text-xs text-muted-foreground">
-              Adicione itens para liberar o próximo passo.
-            </p>
-          ) : (
-            <p className="text-center text-sm text-muted-foreground">
-              Você possui <strong>{itemsCount}</strong> item{itemsCount > 1 ? "s" : ""} no carrinho.
-            </p>
-          )}
+
+          {results.pageCount > 1 ? (
+            <nav aria-label="Paginação do catálogo" className="flex items-center justify-between gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={results.page <= 1}
+                onClick={() => setQuery({ page: results.page - 1 })}
+              >
+                <ChevronLeft className="mr-1 h-4 w-4" aria-hidden="true" />
+                Anterior
+              </Button>
+              <div className="flex flex-wrap justify-center gap-1">
+                {Array.from({ length: results.pageCount }, (_, index) => index + 1).map((page) => (
+                  <Button
+                    key={page}
+                    variant={page === results.page ? "default" : "ghost"}
+                    size="sm"
+                    aria-current={page === results.page ? "page" : undefined}
+                    onClick={() => setQuery({ page })}
+                  >
+                    {page}
+                  </Button>
+                ))}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={results.page >= results.pageCount}
+                onClick={() => setQuery({ page: results.page + 1 })}
+              >
+                Próxima
+                <ChevronRight className="ml-1 h-4 w-4" aria-hidden="true" />
+              </Button>
+            </nav>
+          ) : null}
         </CardContent>
       </Card>
+
+      <div className="sticky top-8 h-fit space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Resumo rápido</CardTitle>
+            <CardDescription>
+              A sessão permanece ativa mesmo ao recarregar a página. O carrinho é salvo localmente.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="rounded-md border border-dashed border-border p-4 text-sm">
+              <p className="text-muted-foreground">
+                <strong className="text-foreground">Status da sessão:</strong>{" "}
+                {isGuest
+                  ? "visitante. O carrinho fica salvo neste navegador e é combinado com o da sua conta ao entrar."
+                  : "autenticada e persistida via localStorage."}
+              </p>
+            </div>
+            <Button
+              className="w-full"
+              size="lg"
+              onClick={onGoToCart}
+              disabled={itemsCount === 0}
+            >
+              Continuar para o carrinho
+              <ChevronRight className="ml-2 h-4 w-4" aria-hidden="true" />
+            </Button>
+            {itemsCount === 0 ? (
+              <p className="text-center text-xs text-muted-foreground">
+                Adicione itens para liberar o próximo passo.
+              </p>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground">
+                Você possui <strong>{itemsCount}</strong> item{itemsCount > 1 ? "s" : ""} no carrinho.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <WishlistPanel
+          entries={isGuest ? null : wishlist}
+          cartItems={cartItems}
+          availableFor={availableFor}
+          onAddVariant={onAddVariant}
+          onRemove={onRemoveWishlist}
+          onRequestLogin={onRequestLogin}
+        />
+      </div>
     </div>
   )
 }
 
+function WishlistPanel({
+  entries,
+  cartItems,
+  availableFor,
+  onAddVariant,
+  onRemove,
+  onRequestLogin,
+}: {
+  /** Null for guests, who need an account to keep a wishlist. */
+  entries: WishlistEntry[] | null
+  cartItems: CartItem[]
+  availableFor: (variant: ProductVariant) => number
+  onAddVariant: (product: Product, variant: ProductVariant) => void
+  onRemove: (key: string) => void
+  onRequestLogin: () => void
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-xl">
+          <Heart className="h-5 w-5" aria-hidden="true" />
+          Lista de desejos
+        </CardTitle>
+        <CardDescription>Produtos guardados para comprar depois, com preço e estoque atuais.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {!entries ? (
+          <>
+            <p className="text-muted-foreground">Entre na sua conta para guardar produtos na lista de desejos.</p>
+            <Button variant="outline" className="w-full" onClick={onRequestLogin}>
+              <LogIn className="mr-2 h-4 w-4" aria-hidden="true" />
+              Entrar
+            </Button>
+          </>
+        ) : entries.length === 0 ? (
+          <p className="text-muted-foreground">Toque no coração de um produto para guardá-lo aqui.</p>
+        ) : (
+          <ul className="space-y-3">
+            {entries.map((entry) => {
+              const key = wishlistKey(entry)
+              const resolved = resolveWishlistEntry(entry)
+              if (!resolved) {
+                return (
+                  <li key={key} className="flex items-center justify-between gap-2 text-muted-foreground">
+                    <span>Produto fora do catálogo</span>
+                    <Button variant="ghost" size="sm" onClick={() => onRemove(key)}>
+                      Remover
+                    </Button>
+                  </li>
+                )
+              }
+
+              const { product, variant } = resolved
+              const range = priceRange(product)
+              const available = variant
+                ? availableFor(variant)
+                : product.variants.reduce((sum, item) => sum + availableFor(item), 0)
+              const inCart = variant ? (cartItems.find((item) => item.variant.sku === variant.sku)?.quantity ?? 0) : 0
+              return (
+                <li key={key} className="space-y-2 rounded-lg border border-border p-3">
+                  <div>
+                    <Link href={`/produtos/${product.id}`} className="font-medium text-foreground hover:underline">
+                      {variant ? variantName(product, variant) : product.name}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">
+                      {variant
+                        ? formatCurrency(variant.price)
+                        : `${range.min === range.max ? "" : "a partir de "}${formatCurrency(range.min)}`}
+                      {" • "}
+                      <span className={cn(available === 0 && "text-destructive")}>
+                        {available === 0 ? "Esgotado" : `Disponível: ${available}`}
+                      </span>
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {variant ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onAddVariant(product, variant)}
+                        disabled={inCart >= available}
+                      >
+                        <ShoppingCart className="mr-1 h-4 w-4" aria-hidden="true" />
+                        {inCart >= available && available > 0 ? "No carrinho" : "Adicionar"}
+                      </Button>
+                    ) : (
+                      <Link
+                        href={`/produtos/${product.id}`}
+                        className={buttonVariants({ variant: "outline", size: "sm" })}
+                      >
+                        <SlidersHorizontal className="mr-1 h-4 w-4" aria-hidden="true" />
+                        Escolher opções
+                      </Link>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => onRemove(key)}>
+                      Remover
+                    </Button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function PriceRangeFilter({
+  minPrice,
+  maxPrice,
+  onApply,
+}: {
+  minPrice: number | null
+  maxPrice: number | null
+  onApply: (minPrice: number | null, maxPrice: number | null) => void
+}) {
+  const [min, setMin] = useState(minPrice?.toString() ?? "")
+  const [max, setMax] = useState(maxPrice?.toString() ?? "")
+
+  const toPrice = (value: string) => {
+    const price = Number(value.replace(",", "."))
+    return value.trim() && Number.isFinite(price) && price >= 0 ? price : null
+  }
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const from = toPrice(min)
+    const to = toPrice(max)
+    // Swapped bounds are read as the range the customer meant.
+    if (from !== null && to !== null && from > to) onApply(to, from)
+    else onApply(from, to)
+  }
+
+  return (
+    <form className="flex items-center gap-1" onSubmit={handleSubmit}>
+      <Input
+        aria-label="Preço mínimo"
+        inputMode="decimal"
+        placeholder="R$ mín."
+        value={min}
+        onChange={(event) => setMin(event.target.value)}
+        className="h-8 w-24"
+      />
+      <span className="text-xs text-muted-foreground">a</span>
+      <Input
+        aria-label="Preço máximo"
+        inputMode="decimal"
+        placeholder="R$ máx."
+        value={max}
+        onChange={(event) => setMax(event.target.value)}
+        className="h-8 w-24"
+      />
+      <Button type="submit" variant="outline" size="sm">
+        Filtrar
+      </Button>
+    </form>
+  )
+}
+
 function CartStep({
   items,
-  total,
+  summary,
+  changes,
+  couponCode,
+  couponError,
+  onAcknowledgeChanges,
+  savedForLater,
+  onSaveForLater,
+  onMoveToCart,
+  onRemoveSaved,
   onUpdateQuantity,
   onRemove,
+  onApplyCoupon,
+  onRemoveCoupon,
   onGoToCatalog,
-  onGoToPayment,
+  onGoToShipping,
+  availableFor,
 }: {
-  items: ReturnType<typeof useCartStore>["items"]
-  total: number
-  onUpdateQuantity: (productId: string, quantity: number) => void
-  onRemove: (productId: string) => void
+  items: CartItem[]
+  summary: OrderTotals
+  changes: CartChange[]
+  couponCode: string | null
+  couponError: string | null
+  onAcknowledgeChanges: () => void
+  savedForLater: CartItem[]
+  onSaveForLater: (sku: string) => void
+  onMoveToCart: (sku: string) => void
+  onRemoveSaved: (sku: string) => void
+  onUpdateQuantity: (sku: string, quantity: number) => void
+  onRemove: (sku: string) => void
+  onApplyCoupon: (code: string) => string | null
+  onRemoveCoupon: () => void
   onGoToCatalog: () => void
-  onGoToPayment: () => void
+  onGoToShipping: () => void
+  availableFor: (variant: ProductVariant) => number
 }) {
   const hasItems = items.length > 0
+  const [couponInput, setCouponInput] = useState("")
+  const [couponInputError, setCouponInputError] = useState<string | null>(null)
+
+  const handleApplyCoupon = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!couponInput.trim()) {
+      setCouponInputError("Informe o código do cupom.")
+      return
+    }
+    const error = onApplyCoupon(couponInput)
+    setCouponInputError(error)
+    if (!error) setCouponInput("")
+  }
 
   return (
     <Card>
@@ -184,6 +693,7 @@ function CartStep({
         </Badge>
       </CardHeader>
       <CardContent className="space-y-6">
+        {changes.length > 0 ? <CartChangesNotice changes={changes} onAcknowledge={onAcknowledgeChanges} /> : null}
         {!hasItems ? (
           <div className="rounded-md border border-dashed border-border p-6 text-center">
             <Package className="mx-auto h-10 w-10 text-muted-foreground" aria-hidden="true" />
@@ -198,91 +708,594 @@ function CartStep({
         ) : (
           <div className="space-y-4">
             <ul className="space-y-3">
-              {items.map((item) => (
-                <li
-                  key={item.product.id}
-                  className="flex flex-col gap-4 rounded-lg border border-border p-4 sm:flex-row sm:items-center sm:justify-between"
-                >
-                  <div>
-                    <p className="text-sm font-semibold text-foreground">{item.product.name}</p>
-                    <p className="text-xs text-muted-foreground">
-                      {formatCurrency(item.product.price)} • Estoque: {item.product.stock}
-                    </p>
-                  </div>
-                  <div className="flex items-center gap-3">
-                    <Label className="text-xs text-muted-foreground" htmlFor={`quantity-${item.product.id}`}>
-                      Quantidade
-                    </Label>
-                    <Input
-                      id={`quantity-${item.product.id}`}
-                      type="number"
-                      min={1}
-                      max={item.product.stock}
-                      value={item.quantity}
-                      onChange={(event) => {
-                        const nextValue = Number(event.target.value)
-                        onUpdateQuantity(item.product.id, nextValue)
-                      }}
-                      className="w-20"
-                    />
-                    <Button variant="ghost" size="sm" onClick={() => onRemove(item.product.id)}>
+              {items.map((item, index) => {
+                const available = availableFor(item.variant)
+                const label = variantLabel(item.product, item.variant)
+                return (
+                  <li
+                    key={item.variant.sku}
+                    className="flex flex-col gap-4 rounded-lg border border-border p-4 sm:flex-row sm:items-center sm:justify-between"
+                  >
+                    <div>
+                      <p className="text-sm font-semibold text-foreground">
+                        <Link href={`/produtos/${item.product.id}`} className="hover:underline">
+                          {item.product.name}
+                        </Link>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {label ? `${label} • ` : ""}
+                        {formatCurrency(item.variant.price)} • Disponível: {available}
+                      </p>
+                      {item.quantity > available ? (
+                        <p className="text-xs text-destructive">
+                          {available === 0
+                            ? "Produto esgotado. Remova-o para continuar."
+                            : `Restam apenas ${available} unidade${available > 1 ? "s" : ""}. Ajuste a quantidade.`}
+                        </p>
+                      ) : null}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Label className="text-xs text-muted-foreground" htmlFor={`quantity-${item.variant.sku}`}>
+                        Quantidade
+                      </Label>
+                      <Input
+                        id={`quantity-${item.variant.sku}`}
+                        type="number"
+                        min={1}
+                        max={Math.max(available, 1)}
+                        value={item.quantity}
+                        onChange={(event) => {
+                          const nextValue = Number(event.target.value)
+                          onUpdateQuantity(item.variant.sku, nextValue)
+                        }}
+                        className="w-20"
+                      />
+                      <Button variant="ghost" size="sm" onClick={() => onSaveForLater(item.variant.sku)}>
+                        <Bookmark className="mr-1 h-4 w-4" aria-hidden="true" />
+                        Salvar para depois
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => onRemove(item.variant.sku)}>
+                        Remover
+                      </Button>
+                      <span className="min-w-[96px] text-right text-sm font-medium text-foreground">
+                        {formatMoney(summary.lines[index].gross)}
+                      </span>
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+
+            <div className="grid gap-4 border-t border-border pt-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                {couponCode ? (
+                  <div className="flex items-center justify-between gap-2 rounded-lg border border-dashed border-primary/60 bg-primary/5 px-3 py-2">
+                    <div className="text-sm">
+                      <p className="flex items-center gap-1.5 font-semibold text-foreground">
+                        <TicketPercent className="h-4 w-4 text-primary" aria-hidden="true" />
+                        {couponCode}
+                      </p>
+                      <p className={cn("text-xs", couponError ? "text-destructive" : "text-muted-foreground")}>
+                        {couponError ?? summary.coupon?.description}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={onRemoveCoupon}>
                       Remover
                     </Button>
-                    <span className="min-w-[96px] text-right text-sm font-medium text-foreground">
-                      {formatCurrency(item.product.price * item.quantity)}
-                    </span>
                   </div>
-                </li>
-              ))}
-            </ul>
-
-            <div className="flex flex-col gap-3 border-t border-border pt-4 sm:flex-row sm:items-center sm:justify-between">
-              <div className="flex flex-col text-sm text-muted-foreground">
-                <span>Subtotal</span>
-                <span className="text-lg font-semibold text-foreground">
-                  {formatCurrency(total)}
-                </span>
+                ) : (
+                  <form className="grid gap-2" onSubmit={handleApplyCoupon} noValidate>
+                    <Label htmlFor="couponCode">Cupom de desconto</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="couponCode"
+                        placeholder="Ex: BEMVINDO10"
+                        value={couponInput}
+                        onChange={(event) => {
+                          setCouponInput(event.target.value.toUpperCase())
+                          setCouponInputError(null)
+                        }}
+                        aria-invalid={Boolean(couponInputError)}
+                        aria-describedby={couponInputError ? "couponCode-error" : undefined}
+                        autoComplete="off"
+                      />
+                      <Button type="submit" variant="outline">
+                        Aplicar
+                      </Button>
+                    </div>
+                    <FieldError id="couponCode-error" message={couponInputError ?? undefined} />
+                  </form>
+                )}
               </div>
-              <div className="flex flex-col gap-2 sm:flex-row">
-                <Button variant="outline" onClick={onGoToCatalog}>
-                  <ChevronLeft className="mr-2 h-4 w-4" aria-hidden="true" />
-                  Escolher mais itens
-                </Button>
-                <Button onClick={onGoToPayment}>
-                  Avançar para pagamento
-                  <ChevronRight className="ml-2 h-4 w-4" aria-hidden="true" />
-                </Button>
+              <div className="space-y-2 text-sm">
+                <SummaryLines summary={summary} />
+                <div className="flex items-center justify-between border-t border-border pt-2">
+                  <span className="font-semibold text-foreground">Total</span>
+                  <span className="text-lg font-semibold text-foreground">{formatMoney(summary.total)}</span>
+                </div>
               </div>
             </div>
+
+            <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+              <Button variant="outline" onClick={onGoToCatalog}>
+                <ChevronLeft className="mr-2 h-4 w-4" aria-hidden="true" />
+                Escolher mais itens
+              </Button>
+              <Button onClick={onGoToShipping} disabled={changes.length > 0}>
+                Avançar para entrega
+                <ChevronRight className="ml-2 h-4 w-4" aria-hidden="true" />
+              </Button>
+            </div>
           </div>
         )}
+        {savedForLater.length > 0 ? (
+          <SavedForLaterList
+            items={savedForLater}
+            availableFor={availableFor}
+            onMoveToCart={onMoveToCart}
+            onRemove={onRemoveSaved}
+          />
+        ) : null}
       </CardContent>
     </Card>
   )
 }
 
+function SavedForLaterList({
+  items,
+  availableFor,
+  onMoveToCart,
+  onRemove,
+}: {
+  items: CartItem[]
+  availableFor: (variant: ProductVariant) => number
+  onMoveToCart: (sku: string) => void
+  onRemove: (sku: string) => void
+}) {
+  return (
+    <section className="space-y-3 border-t border-border pt-4">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-foreground">
+        <Bookmark className="h-4 w-4" aria-hidden="true" />
+        Salvos para depois ({items.length})
+      </h3>
+      <ul className="space-y-2">
+        {items.map((item) => {
+          // Parked lines show today's catalog price and stock, not the ones from when they were saved.
+          const current = findBySku(item.variant.sku)
+          const available = current ? availableFor(current.variant) : 0
+          const label = variantLabel(item.product, item.variant)
+          return (
+            <li
+              key={item.variant.sku}
+              className="flex flex-col gap-3 rounded-lg border border-dashed border-border p-3 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div>
+                <p className="text-sm font-medium text-foreground">
+                  <Link href={`/produtos/${item.product.id}`} className="hover:underline">
+                    {item.product.name}
+                  </Link>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {label ? `${label} • ` : ""}
+                  {item.quantity} un. •{" "}
+                  {current ? (
+                    <>
+                      {current.variant.price !== item.variant.price ? (
+                        <s className="mr-1">{formatCurrency(item.variant.price)}</s>
+                      ) : null}
+                      {formatCurrency(current.variant.price)} •{" "}
+                      <span className={cn(available === 0 && "text-destructive")}>
+                        {available === 0 ? "Esgotado" : `Disponível: ${available}`}
+                      </span>
+                    </>
+                  ) : (
+                    <span className="text-destructive">Fora do catálogo</span>
+                  )}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onMoveToCart(item.variant.sku)}
+                  disabled={available === 0}
+                >
+                  <ShoppingCart className="mr-1 h-4 w-4" aria-hidden="true" />
+                  Mover para o carrinho
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onRemove(item.variant.sku)}>
+                  Remover
+                </Button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </section>
+  )
+}
+
+function CartMergeNotice({ lines, onDismiss }: { lines: CartMergeLine[]; onDismiss: () => void }) {
+  return (
+    <div role="status" className="space-y-3 rounded-lg border border-primary/40 bg-primary/5 p-4 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-semibold text-foreground">Carrinho de visitante combinado com a sua conta</p>
+          <p className="text-xs text-muted-foreground">
+            Os itens escolhidos antes do login foram combinados com o carrinho salvo, respeitando o estoque.
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onDismiss} aria-label="Fechar resumo">
+          <X className="h-4 w-4" aria-hidden="true" />
+        </Button>
+      </div>
+      <ul className="space-y-1">
+        {lines.map((line) => (
+          <li key={line.sku} className="flex flex-wrap justify-between gap-2">
+            <span className="text-foreground">{line.name}</span>
+            <span className={cn("text-muted-foreground", line.limited && "text-destructive")}>
+              {line.accountQuantity > 0
+                ? `Conta: ${line.accountQuantity} • Visitante: ${line.guestQuantity} → ${line.quantity}`
+                : `Adicionado: ${line.quantity}`}
+              {line.quantity === 0 ? " (esgotado)" : line.limited ? " (limitado ao estoque)" : ""}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function CartChangesNotice({ changes, onAcknowledge }: { changes: CartChange[]; onAcknowledge: () => void }) {
+  return (
+    <div role="alert" className="space-y-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm">
+      <div className="flex items-start gap-2">
+        <TriangleAlert className="mt-0.5 h-4 w-4 shrink-0 text-amber-700" aria-hidden="true" />
+        <div>
+          <p className="font-semibold text-foreground">Seu carrinho foi atualizado</p>
+          <p className="text-xs text-muted-foreground">
+            Alguns itens mudaram desde que foram adicionados. Confira antes de continuar.
+          </p>
+        </div>
+      </div>
+      <ul className="space-y-1 pl-6">
+        {changes.map((change) => (
+          <li key={`${change.type}-${change.sku}`} className="flex flex-wrap justify-between gap-2">
+            <span className="text-foreground">{change.name}</span>
+            <span className="text-muted-foreground">
+              {change.type === "price" ? (
+                <>
+                  <s>{formatCurrency(change.previousPrice)}</s>
+                  {" → "}
+                  <strong className={change.price > change.previousPrice ? "text-destructive" : "text-foreground"}>
+                    {formatCurrency(change.price)}
+                  </strong>
+                </>
+              ) : change.type === "stock" ? (
+                change.quantity === 0 ? (
+                  "Esgotado, removido do carrinho"
+                ) : (
+                  `Quantidade ajustada de ${change.previousQuantity} para ${change.quantity}`
+                )
+              ) : (
+                "Fora do catálogo, removido do carrinho"
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <div className="flex justify-end">
+        <Button size="sm" onClick={onAcknowledge}>
+          <CheckCircle className="mr-2 h-4 w-4" aria-hidden="true" />
+          Entendi, continuar
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function ShippingStep({
+  items,
+  summary,
+  shipping,
+  quotes,
+  onUpdateAddress,
+  onSelectCarrier,
+  onBackToCart,
+  onContinue,
+  reservedUntil,
+}: {
+  items: CartItem[]
+  summary: OrderTotals
+  shipping: ShippingDraft
+  quotes: FreightQuote[]
+  onUpdateAddress: (values: Partial<ShippingAddress>) => void
+  onSelectCarrier: (carrierId: string) => void
+  onBackToCart: () => void
+  onContinue: () => void
+  reservedUntil: number | null
+}) {
+  const { address } = shipping
+  const [lookup, setLookup] = useState<"idle" | "loading" | "not_found">("idle")
+  const latestCep = useRef(address.cep)
+  const [touched, setTouched] = useState<Partial<Record<keyof ShippingAddress, boolean>>>({})
+  const fieldErrors = useMemo(() => getFieldErrors(shippingAddressSchema, address), [address])
+  const selectedQuote = quotes.find((quote) => quote.carrierId === shipping.carrierId) ?? null
+  const isValid = Object.keys(fieldErrors).length === 0 && Boolean(selectedQuote)
+
+  const errorFor = (field: keyof ShippingAddress) => (touched[field] ? fieldErrors[field] : undefined)
+  const fieldProps = (field: keyof ShippingAddress) => ({
+    id: `shipping-${field}`,
+    onBlur: () => setTouched((prev) => ({ ...prev, [field]: true })),
+    "aria-invalid": Boolean(errorFor(field)),
+    "aria-describedby": errorFor(field) ? `shipping-${field}-error` : undefined,
+  })
+
+  const handleCepChange = async (value: string) => {
+    const cep = maskCep(value)
+    latestCep.current = cep
+    onUpdateAddress({ cep })
+    if (cep.length < 9) {
+      setLookup("idle")
+      return
+    }
+
+    setLookup("loading")
+    const record = await lookupCep(cep)
+    // A newer CEP may have been typed while this one was looked up.
+    if (latestCep.current !== cep) return
+    if (!record) {
+      setLookup("not_found")
+      return
+    }
+    setLookup("idle")
+    onUpdateAddress(record)
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[2fr,1fr]">
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Endereço de entrega</CardTitle>
+            <CardDescription>Informe o CEP para preencher o endereço automaticamente.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-6">
+            <div className="grid gap-2 sm:col-span-2">
+              <Label htmlFor="shipping-cep">CEP</Label>
+              <Input
+                {...fieldProps("cep")}
+                inputMode="numeric"
+                autoComplete="postal-code"
+                placeholder="00000-000"
+                maxLength={9}
+                value={address.cep}
+                onChange={(event) => handleCepChange(event.target.value)}
+                required
+              />
+              <FieldError id="shipping-cep-error" message={errorFor("cep")} />
+            </div>
+            <div className="flex items-end pb-2 text-xs text-muted-foreground sm:col-span-4">
+              {lookup === "loading" ? (
+                <span className="flex items-center gap-2">
+                  <RefreshCw className="h-3.5 w-3.5 animate-spin" aria-hidden="true" />
+                  Buscando endereço...
+                </span>
+              ) : lookup === "not_found" ? (
+                <span>CEP não encontrado na base. Preencha o endereço manualmente.</span>
+              ) : null}
+            </div>
+            <div className="grid gap-2 sm:col-span-4">
+              <Label htmlFor="shipping-street">Rua</Label>
+              <Input
+                {...fieldProps("street")}
+                autoComplete="address-line1"
+                value={address.street}
+                onChange={(event) => onUpdateAddress({ street: event.target.value })}
+                required
+              />
+              <FieldError id="shipping-street-error" message={errorFor("street")} />
+            </div>
+            <div className="grid gap-2 sm:col-span-2">
+              <Label htmlFor="shipping-number">Número</Label>
+              <Input
+                {...fieldProps("number")}
+                value={address.number}
+                onChange={(event) => onUpdateAddress({ number: event.target.value })}
+                required
+              />
+              <FieldError id="shipping-number-error" message={errorFor("number")} />
+            </div>
+            <div className="grid gap-2 sm:col-span-3">
+              <Label htmlFor="shipping-complement">Complemento (opcional)</Label>
+              <Input
+                {...fieldProps("complement")}
+                autoComplete="address-line2"
+                placeholder="Apartamento, bloco, referência"
+                value={address.complement ?? ""}
+                onChange={(event) => onUpdateAddress({ complement: event.target.value })}
+              />
+              <FieldError id="shipping-complement-error" message={errorFor("complement")} />
+            </div>
+            <div className="grid gap-2 sm:col-span-3">
+              <Label htmlFor="shipping-district">Bairro</Label>
+              <Input
+                {...fieldProps("district")}
+                value={address.district}
+                onChange={(event) => onUpdateAddress({ district: event.target.value })}
+                required
+              />
+              <FieldError id="shipping-district-error" message={errorFor("district")} />
+            </div>
+            <div className="grid gap-2 sm:col-span-4">
+              <Label htmlFor="shipping-city">Cidade</Label>
+              <Input
+                {...fieldProps("city")}
+                autoComplete="address-level2"
+                value={address.city}
+                onChange={(event) => onUpdateAddress({ city: event.target.value })}
+                required
+              />
+              <FieldError id="shipping-city-error" message={errorFor("city")} />
+            </div>
+            <div className="grid gap-2 sm:col-span-2">
+              <Label htmlFor="shipping-state">UF</Label>
+              <Input
+                {...fieldProps("state")}
+                autoComplete="address-level1"
+                maxLength={2}
+                placeholder="SP"
+                value={address.state}
+                onChange={(event) => onUpdateAddress({ state: event.target.value.toUpperCase() })}
+                required
+              />
+              <FieldError id="shipping-state-error" message={errorFor("state")} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Opções de frete</CardTitle>
+            <CardDescription>Calculado pelo peso e pelas dimensões dos produtos.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {quotes.length === 0 ? (
+              <p className="rounded-md border border-dashed border-border p-4 text-sm text-muted-foreground">
+                {address.state
+                  ? "Nenhuma transportadora atende este endereço para o seu carrinho."
+                  : "Informe o endereço para ver as opções de entrega."}
+              </p>
+            ) : (
+              <ul className="grid gap-3" role="radiogroup" aria-label="Opções de frete">
+                {quotes.map((quote) => {
+                  const isSelected = quote.carrierId === shipping.carrierId
+                  return (
+                    <li key={quote.carrierId}>
+                      <button
+                        type="button"
+                        role="radio"
+                        aria-checked={isSelected}
+                        onClick={() => onSelectCarrier(quote.carrierId)}
+                        className={cn(
+                          "flex w-full items-center justify-between gap-3 rounded-lg border px-4 py-3 text-left transition",
+                          isSelected
+                            ? "border-primary bg-primary/5 shadow-sm"
+                            : "border-border hover:border-muted-foreground/40",
+                        )}
+                      >
+                        <span className="flex items-center gap-3">
+                          <Truck
+                            className={cn("h-5 w-5", isSelected ? "text-primary" : "text-muted-foreground")}
+                            aria-hidden="true"
+                          />
+                          <span>
+                            <span className="block text-sm font-semibold text-foreground">{quote.carrier}</span>
+                            <span className="block text-xs text-muted-foreground">
+                              {carriers.find((carrier) => carrier.id === quote.carrierId)?.description} •{" "}
+                              {formatDeliveryDays(quote.deliveryDays)}
+                            </span>
+                          </span>
+                        </span>
+                        <span className="text-right text-sm font-semibold text-foreground">
+                          {summary.coupon?.freeShipping ? (
+                            <>
+                              <span className="block text-xs font-normal text-muted-foreground line-through">
+                                {formatCurrency(quote.price)}
+                              </span>
+                              <span className="text-emerald-700">Grátis</span>
+                            </>
+                          ) : (
+                            formatCurrency(quote.price)
+                          )}
+                        </span>
+                      </button>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <aside className="space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Resumo do pedido</CardTitle>
+            <CardDescription>
+              {items.length} item{items.length !== 1 ? "s" : ""} no carrinho.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <SummaryLines summary={summary} />
+            <div className="flex items-center justify-between border-t border-border pt-4 text-sm">
+              <span className="font-semibold text-foreground">Total</span>
+              <span className="text-lg font-bold text-foreground">{formatMoney(summary.total)}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {reservedUntil ? <ReservationNotice expiresAt={reservedUntil} /> : null}
+
+        <div className="flex flex-col gap-2">
+          <Button variant="outline" onClick={onBackToCart}>
+            <ChevronLeft className="mr-2 h-4 w-4" aria-hidden="true" />
+            Voltar ao carrinho
+          </Button>
+          <Button onClick={onContinue} disabled={!isValid}>
+            Avançar para pagamento
+            <ChevronRight className="ml-2 h-4 w-4" aria-hidden="true" />
+          </Button>
+          {!isValid ? (
+            <p className="text-center text-xs text-muted-foreground">
+              Preencha o endereço e escolha o frete para continuar.
+            </p>
+          ) : null}
+        </div>
+      </aside>
+    </div>
+  )
+}
+
 function PaymentStep({
   user,
   items,
-  total,
+  summary,
   payment,
+  split,
   processing,
+  processingElsewhere,
   onUpdatePayment,
   onSelectMethod,
-  onBackToCart,
+  onToggleSplit,
+  onUpdateSplit,
+  onBackToShipping,
   onConfirm,
+  reservedUntil,
 }: {
-  user: NonNullable<ReturnType<typeof useAuthStore>["user"]>
-  items: ReturnType<typeof useCartStore>["items"]
-  total: number
+  user: Account
+  items: CartItem[]
+  summary: OrderTotals
   payment: CheckoutFormValues
+  split: SplitPaymentDraft | null
   processing: boolean
+  processingElsewhere: boolean
   onUpdatePayment: (values: Partial<CheckoutFormValues>) => void
   onSelectMethod: (method: PaymentMethod) => void
-  onBackToCart: () => void
+  onToggleSplit: (enabled: boolean) => void
+  onUpdateSplit: (values: { amount?: Money; payment?: Partial<CheckoutFormValues> }) => void
+  onBackToShipping: () => void
   onConfirm: () => Promise<void>
+  reservedUntil: number | null
 }) {
-  const method = payment.paymentMethod
+  const { due, payments } = summary
+  const legs = useMemo(() => buildPaymentLegs(due, payment, split), [due, payment, split])
+  const installmentPlan = !split ? (payments[0]?.installments ?? null) : null
+  const splitAmountError = split ? firstErrorMessage(getFieldErrors(splitAmountSchema(due), split.amount)) : null
+  const isValid =
+    !splitAmountError &&
+    legs.every((leg) => Object.keys(getFieldErrors(checkoutFormSchema, leg.payment)).length === 0)
 
   return (
     <div className="grid gap-6 lg:grid-cols-[2fr,1fr]">
@@ -307,169 +1320,82 @@ function PaymentStep({
             <CardTitle>Método de pagamento</CardTitle>
             <CardDescription>Escolha uma opção para exibir os campos específicos.</CardDescription>
           </CardHeader>
-          <CardContent className="grid gap-3 sm:grid-cols-3">
-            {(Object.keys(paymentLabels) as PaymentMethod[]).map((option) => {
-              const meta = paymentLabels[option]
-              const isActive = method === option
-              const Icon = meta.icon
-              return (
-                <button
-                  key={option}
-                  type="button"
-                  className={cn(
-                    "flex flex-col gap-2 rounded-lg border border-border p-4 text-left transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
-                    isActive ? "border-primary bg-primary/5 text-primary" : "hover:border-primary",
-                  )}
-                  onClick={() => onSelectMethod(option)}
-                >
-                  <div className="flex items-center gap-2">
-                    <div
-                      className={cn(
-                        "flex h-9 w-9 items-center justify-center rounded-full border",
-                        isActive ? "border-primary bg-primary text-primary-foreground" : "border-border",
-                      )}
-                    >
-                      <Icon className="h-4 w-4" aria-hidden="true" />
-                    </div>
-                    <span className="text-sm font-semibold capitalize">{meta.title}</span>
-                  </div>
-                  <p className="text-xs text-muted-foreground">{meta.description}</p>
-                </button>
-              )
-            })}
+          <CardContent>
+            <PaymentMethodPicker method={payment.paymentMethod} onSelect={onSelectMethod} />
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader>
             <CardTitle>Detalhes do pagamento</CardTitle>
-            <CardDescription>Campos obrigatórios variam conforme o método escolhido.</CardDescription>
+            <CardDescription>
+              {split
+                ? `Primeira forma de pagamento: ${formatMoney(legs[0].amount)}.`
+                : "Campos obrigatórios variam conforme o método escolhido."}
+            </CardDescription>
           </CardHeader>
           <CardContent className="grid gap-4">
-            {method === "pix" ? (
-              <div className="grid gap-2 sm:max-w-sm">
-                <Label htmlFor="pixKey">Chave Pix</Label>
+            <PaymentMethodFields payment={payment} amount={legs[0].amount} onUpdatePayment={onUpdatePayment} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>Dividir pagamento</CardTitle>
+                <CardDescription>
+                  Pague parte do pedido com outro método ou com um segundo cartão. O pedido só é confirmado
+                  quando todas as partes forem aprovadas.
+                </CardDescription>
+              </div>
+              <label className="flex shrink-0 items-center gap-2 text-sm font-medium">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  checked={Boolean(split)}
+                  onChange={(event) => onToggleSplit(event.target.checked)}
+                  disabled={processing}
+                />
+                Usar duas formas
+              </label>
+            </div>
+          </CardHeader>
+          {split ? (
+            <CardContent className="grid gap-6">
+              <div className="grid gap-2 sm:max-w-xs">
+                <Label htmlFor="splitAmount">Valor na segunda forma</Label>
                 <Input
-                  id="pixKey"
-                  placeholder="CPF, CNPJ, e-mail ou chave aleatória"
-                  value={payment.pixKey ?? ""}
-                  onChange={(event) =>
-                    onUpdatePayment({
-                      pixKey: event.target.value,
-                    })
-                  }
-                  autoComplete="off"
-                  required
+                  id="splitAmount"
+                  type="number"
+                  inputMode="decimal"
+                  min={toReais(splitPaymentConfig.minLegAmount)}
+                  max={toReais((due - splitPaymentConfig.minLegAmount) as Money)}
+                  step="0.01"
+                  value={Number.isFinite(split.amount) ? toReais(split.amount) : ""}
+                  onChange={(event) => onUpdateSplit({ amount: toMoney(event.target.valueAsNumber) })}
+                  aria-invalid={Boolean(splitAmountError)}
+                  aria-describedby={splitAmountError ? "splitAmount-error" : undefined}
                 />
+                <FieldError id="splitAmount-error" message={splitAmountError ?? undefined} />
                 <p className="text-xs text-muted-foreground">
-                  Simulação: gere um QR Code virtual após confirmar.
+                  Restante de {formatMoney(legs[0].amount)} na primeira forma.
                 </p>
               </div>
-            ) : null}
-
-            {method === "credit" ? (
-              <div className="grid gap-4 sm:grid-cols-2">
-                <div className="grid gap-2 sm:col-span-2">
-                  <Label htmlFor="cardHolder">Nome impresso no cartão</Label>
-                  <Input
-                    id="cardHolder"
-                    placeholder="Maria S Souza"
-                    value={payment.cardHolder ?? ""}
-                    onChange={(event) =>
-                      onUpdatePayment({
-                        cardHolder: event.target.value.toUpperCase(),
-                      })
-                    }
-                    autoComplete="cc-name"
-                    required
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="cardNumber">Número do cartão</Label>
-                  <Input
-                    id="cardNumber"
-                    inputMode="numeric"
-                    autoComplete="cc-number"
-                    maxLength={19}
-                    placeholder="0000 0000 0000 0000"
-                    value={maskCardNumber(payment.cardNumber ?? "")}
-                    onChange={(event) =>
-                      onUpdatePayment({
-                        cardNumber: maskCardNumber(event.target.value),
-                      })
-                    }
-                    required
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="cardExpiration">Validade</Label>
-                  <Input
-                    id="cardExpiration"
-                    inputMode="numeric"
-                    autoComplete="cc-exp"
-                    placeholder="MM/AA"
-                    maxLength={5}
-                    value={maskExpiration(payment.cardExpiration ?? "")}
-                    onChange={(event) =>
-                      onUpdatePayment({
-                        cardExpiration: maskExpiration(event.target.value),
-                      })
-                    }
-                    required
-                  />
-                </div>
-                <div className="grid gap-2">
-                  <Label htmlFor="cardCvv">CVV</Label>
-                  <Input
-                    id="cardCvv"
-                    inputMode="numeric"
-                    autoComplete="cc-csc"
-                    maxLength={4}
-                    placeholder="123"
-                    value={payment.cardCvv ?? ""}
-                    onChange={(event) =>
-                      onUpdatePayment({
-                        cardCvv: event.target.value.replace(/\D/g, ""),
-                      })
-                    }
-                    required
-                  />
-                </div>
-              </div>
-            ) : null}
-
-            {method === "boleto" ? (
-              <div className="grid gap-4 sm:grid-cols-2">
-                <div className="grid gap-2">
-                  <Label htmlFor="boletoDueDate">Vencimento</Label>
-                  <Input
-                    id="boletoDueDate"
-                    type="date"
-                    value={payment.boletoDueDate ?? ""}
-                    onChange={(event) =>
-                      onUpdatePayment({
-                        boletoDueDate: event.target.value,
-                      })
-                    }
-                    required
-                  />
-                </div>
-                <div className="grid gap-2 sm:col-span-2">
-                  <Label htmlFor="boletoInstructions">Instruções adicionais</Label>
-                  <Input
-                    id="boletoInstructions"
-                    placeholder="Ex: Enviar comprovante após pagamento."
-                    value={payment.boletoInstructions ?? ""}
-                    onChange={(event) =>
-                      onUpdatePayment({
-                        boletoInstructions: event.target.value,
-                      })
-                    }
-                  />
-                </div>
+              <PaymentMethodPicker
+                method={split.payment.paymentMethod}
+                onSelect={(method) => onUpdateSplit({ payment: { paymentMethod: method } })}
+              />
+              <div className="grid gap-4">
+                <PaymentMethodFields
+                  idPrefix="split-"
+                  payment={split.payment}
+                  amount={split.amount}
+                  onUpdatePayment={(values) => onUpdateSplit({ payment: values })}
+                />
               </div>
-            ) : null}
-          </CardContent>
+            </CardContent>
+          ) : null}
         </Card>
       </div>
 
@@ -484,45 +1410,81 @@ function PaymentStep({
               {items.length === 0 ? (
                 <li className="text-muted-foreground">Carrinho vazio após limpar pagamento.</li>
               ) : (
-                items.map((item) => (
-                  <li key={item.product.id} className="flex items-center justify-between">
+                items.map((item, index) => (
+                  <li key={item.variant.sku} className="flex items-center justify-between">
                     <span>
-                      {item.quantity}x {item.product.name}
-                    </span>
-                    <span className="font-medium text-foreground">
-                      {formatCurrency(item.product.price * item.quantity)}
+                      {item.quantity}x {variantName(item.product, item.variant)}
                     </span>
+                    <span className="font-medium text-foreground">{formatMoney(summary.lines[index].gross)}</span>
                   </li>
                 ))
               )}
             </ul>
 
+            <div className="border-t border-border pt-4">
+              <SummaryLines summary={summary} />
+            </div>
+
+            {installmentPlan && installmentPlan.count > 1 ? (
+              <InstallmentBreakdown plan={installmentPlan} subtotal={payments[0].amount} />
+            ) : null}
+
+            {split ? (
+              <dl className="space-y-1 border-t border-border pt-4 text-xs text-muted-foreground">
+                {legs.map((leg, index) => (
+                  <div key={index} className="flex items-center justify-between">
+                    <dt>
+                      Parte {index + 1} • {paymentLabels[leg.payment.paymentMethod].title}
+                      {leg.payment.paymentMethod === "credit" && (leg.payment.installments ?? 1) > 1
+                        ? ` em ${leg.payment.installments}x`
+                        : ""}
+                    </dt>
+                    <dd className="font-medium text-foreground">{formatMoney(payments[index].charged)}</dd>
+                  </div>
+                ))}
+              </dl>
+            ) : null}
+
             <div className="flex items-center justify-between border-t border-border pt-4 text-sm">
               <span className="font-semibold text-foreground">Total a pagar</span>
-              <span className="text-lg font-bold text-foreground">{formatCurrency(total)}</span>
+              <span className="text-lg font-bold text-foreground">{formatMoney(summary.total)}</span>
             </div>
 
             <div className="space-y-2 text-xs text-muted-foreground">
               <p className="flex items-center gap-2">
                 <CheckCircle className="h-4 w-4 text-green-600" aria-hidden="true" />
-                Proteção de dados simulada. Nenhuma informação é enviada a servidores.
+                Pagamento simulado. Os dados do cartão não saem do navegador; o pedido e as cobranças ficam na sua conta.
               </p>
               <p className="flex items-center gap-2">
                 <Box className="h-4 w-4 text-primary" aria-hidden="true" />
-                Pagamentos são processados em poucos segundos neste mock.
+                Cartões são aprovados em segundos; Pix e boleto aguardam a confirmação do banco.
               </p>
             </div>
           </CardContent>
         </Card>
 
+        {reservedUntil ? <ReservationNotice expiresAt={reservedUntil} /> : null}
+
         <div className="flex flex-col gap-2">
-          <Button variant="outline" onClick={onBackToCart} disabled={processing}>
+          {processingElsewhere && !processing ? (
+            <div
+              role="status"
+              className="flex items-start gap-2 rounded-lg border border-amber-300 bg-amber-50 p-3 text-xs text-amber-900"
+            >
+              <Lock className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+              <span>
+                Outra aba está processando um pagamento. Aguarde a conclusão para evitar uma cobrança
+                em duplicidade.
+              </span>
+            </div>
+          ) : null}
+          <Button variant="outline" onClick={onBackToShipping} disabled={processing}>
             <ChevronLeft className="mr-2 h-4 w-4" aria-hidden="true" />
-            Voltar ao carrinho
+            Voltar para entrega
           </Button>
           <Button
             onClick={onConfirm}
-            disabled={processing}
+            disabled={processing || processingElsewhere || !isValid}
             className="bg-emerald-600 hover:bg-emerald-600/90"
           >
             {processing ? (
@@ -537,9 +1499,261 @@ function PaymentStep({
               </>
             )}
           </Button>
+          {!isValid && !processing ? (
+            <p className="text-center text-xs text-muted-foreground">
+              Preencha os dados de pagamento para liberar a confirmação.
+            </p>
+          ) : null}
+        </div>
+      </aside>
+    </div>
+  )
+}
+
+function PaymentMethodPicker({
+  method,
+  onSelect,
+}: {
+  method: PaymentMethod
+  onSelect: (method: PaymentMethod) => void
+}) {
+  return (
+    <div className="grid gap-3 sm:grid-cols-3">
+      {(Object.keys(paymentLabels) as PaymentMethod[]).map((option) => {
+        const meta = paymentLabels[option]
+        const isActive = method === option
+        const Icon = meta.icon
+        return (
+          <button
+            key={option}
+            type="button"
+            className={cn(
+              "flex flex-col gap-2 rounded-lg border border-border p-4 text-left transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+              isActive ? "border-primary bg-primary/5 text-primary" : "hover:border-primary",
+            )}
+            onClick={() => onSelect(option)}
+          >
+            <div className="flex items-center gap-2">
+              <div
+                className={cn(
+                  "flex h-9 w-9 items-center justify-center rounded-full border",
+                  isActive ? "border-primary bg-primary text-primary-foreground" : "border-border",
+                )}
+              >
+                <Icon className="h-4 w-4" aria-hidden="true" />
+              </div>
+              <span className="text-sm font-semibold capitalize">{meta.title}</span>
+            </div>
+            <p className="text-xs text-muted-foreground">{meta.description}</p>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
+function PaymentMethodFields({
+  idPrefix = "",
+  payment,
+  amount,
+  onUpdatePayment,
+}: {
+  idPrefix?: string
+  payment: CheckoutFormValues
+  amount: Money
+  onUpdatePayment: (values: Partial<CheckoutFormValues>) => void
+}) {
+  const method = payment.paymentMethod
+  const cardBrand = detectCardBrand(payment.cardNumber ?? "")
+  const installmentOptions = useMemo(() => buildInstallmentOptions(amount), [amount])
+  const installmentPlan = method === "credit" ? resolveInstallmentPlan(amount, payment.installments) : null
+  const [touched, setTouched] = useState<Partial<Record<keyof CheckoutFormValues, boolean>>>({})
+  const fieldErrors = useMemo(() => getFieldErrors(checkoutFormSchema, payment), [payment])
+
+  const fieldId = (field: keyof CheckoutFormValues) => `${idPrefix}${field}`
+  const errorFor = (field: keyof CheckoutFormValues) => (touched[field] ? fieldErrors[field] : undefined)
+  const fieldProps = (field: keyof CheckoutFormValues) => ({
+    onBlur: () => setTouched((prev) => ({ ...prev, [field]: true })),
+    "aria-invalid": Boolean(errorFor(field)),
+    "aria-describedby": errorFor(field) ? `${fieldId(field)}-error` : undefined,
+  })
+
+  return (
+    <>
+      {method === "pix" ? (
+        <div className="grid gap-2 sm:max-w-sm">
+          <Label htmlFor={fieldId("pixKey")}>Chave Pix</Label>
+          <Input
+            id={fieldId("pixKey")}
+            {...fieldProps("pixKey")}
+            placeholder="CPF, CNPJ, e-mail ou chave aleatória"
+            value={payment.pixKey ?? ""}
+            onChange={(event) =>
+              onUpdatePayment({
+                pixKey: event.target.value,
+              })
+            }
+            autoComplete="off"
+            required
+          />
+          <FieldError id={`${fieldId("pixKey")}-error`} message={errorFor("pixKey")} />
+          <p className="text-xs text-muted-foreground">
+            Ao confirmar, geramos o QR Code e o código copia e cola com validade limitada.
+          </p>
+        </div>
+      ) : null}
+
+      {method === "credit" ? (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2 sm:col-span-2">
+            <Label htmlFor={fieldId("cardHolder")}>Nome impresso no cartão</Label>
+            <Input
+              id={fieldId("cardHolder")}
+              {...fieldProps("cardHolder")}
+              placeholder="Maria S Souza"
+              value={payment.cardHolder ?? ""}
+              onChange={(event) =>
+                onUpdatePayment({
+                  cardHolder: event.target.value.toUpperCase(),
+                })
+              }
+              autoComplete="cc-name"
+              required
+            />
+            <FieldError id={`${fieldId("cardHolder")}-error`} message={errorFor("cardHolder")} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor={fieldId("cardNumber")}>Número do cartão</Label>
+            <div className="relative">
+              <Input
+                id={fieldId("cardNumber")}
+                {...fieldProps("cardNumber")}
+                inputMode="numeric"
+                autoComplete="cc-number"
+                maxLength={23}
+                placeholder="0000 0000 0000 0000"
+                value={maskCardNumber(payment.cardNumber ?? "")}
+                onChange={(event) => {
+                  const cardNumber = maskCardNumber(event.target.value)
+                  onUpdatePayment({
+                    cardNumber,
+                    cardCvv: (payment.cardCvv ?? "").slice(0, cardCvvLength(cardNumber)),
+                  })
+                }}
+                className="pr-14"
+                required
+              />
+              {cardBrand ? (
+                <CardBrandIcon brand={cardBrand} className="absolute right-2 top-1/2 -translate-y-1/2" />
+              ) : null}
+            </div>
+            <FieldError id={`${fieldId("cardNumber")}-error`} message={errorFor("cardNumber")} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor={fieldId("cardExpiration")}>Validade</Label>
+            <Input
+              id={fieldId("cardExpiration")}
+              {...fieldProps("cardExpiration")}
+              inputMode="numeric"
+              autoComplete="cc-exp"
+              placeholder="MM/AA"
+              maxLength={5}
+              value={maskExpiration(payment.cardExpiration ?? "")}
+              onChange={(event) =>
+                onUpdatePayment({
+                  cardExpiration: maskExpiration(event.target.value),
+                })
+              }
+              required
+            />
+            <FieldError id={`${fieldId("cardExpiration")}-error`} message={errorFor("cardExpiration")} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor={fieldId("cardCvv")}>CVV</Label>
+            <Input
+              id={fieldId("cardCvv")}
+              {...fieldProps("cardCvv")}
+              inputMode="numeric"
+              autoComplete="cc-csc"
+              maxLength={cardCvvLength(payment.cardNumber ?? "")}
+              placeholder={cardBrand === "amex" ? "1234" : "123"}
+              value={payment.cardCvv ?? ""}
+              onChange={(event) =>
+                onUpdatePayment({
+                  cardCvv: event.target.value.replace(/\D/g, ""),
+                })
+              }
+              required
+            />
+            <FieldError id={`${fieldId("cardCvv")}-error`} message={errorFor("cardCvv")} />
+          </div>
+          <div className="grid gap-2 sm:col-span-2">
+            <Label htmlFor={fieldId("installments")}>Parcelamento</Label>
+            <select
+              id={fieldId("installments")}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              value={installmentPlan?.count ?? 1}
+              onChange={(event) =>
+                onUpdatePayment({
+                  installments: Number(event.target.value),
+                })
+              }
+            >
+              {installmentOptions.map((option) => (
+                <option key={option.count} value={option.count}>
+                  {option.count}x de {formatMoney(option.installmentValue)}
+                  {option.monthlyInterestRate === 0
+                    ? " sem juros"
+                    : ` (total ${formatMoney(option.total)})`}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">
+              Até {installmentConfig.interestFreeInstallments}x sem juros. Demais opções com juros de{" "}
+              {formatInterestRate(installmentConfig.monthlyInterestRate)}. Parcela mínima de{" "}
+              {formatMoney(installmentConfig.minInstallmentValue)}.
+            </p>
+          </div>
         </div>
-      </aside>
-    </div>
+      ) : null}
+
+      {method === "boleto" ? (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label htmlFor={fieldId("boletoDueDate")}>Vencimento</Label>
+            <Input
+              id={fieldId("boletoDueDate")}
+              {...fieldProps("boletoDueDate")}
+              type="date"
+              min={toIsoDate(new Date())}
+              value={payment.boletoDueDate ?? ""}
+              onChange={(event) =>
+                onUpdatePayment({
+                  boletoDueDate: event.target.value,
+                })
+              }
+              required
+            />
+            <FieldError id={`${fieldId("boletoDueDate")}-error`} message={errorFor("boletoDueDate")} />
+          </div>
+          <div className="grid gap-2 sm:col-span-2">
+            <Label htmlFor={fieldId("boletoInstructions")}>Instruções adicionais</Label>
+            <Input
+              id={fieldId("boletoInstructions")}
+              {...fieldProps("boletoInstructions")}
+              placeholder="Ex: Enviar comprovante após pagamento."
+              value={payment.boletoInstructions ?? ""}
+              onChange={(event) =>
+                onUpdatePayment({
+                  boletoInstructions: event.target.value,
+                })
+              }
+            />
+            <FieldError id={`${fieldId("boletoInstructions")}-error`} message={errorFor("boletoInstructions")} />
+          </div>
+        </div>
+      ) : null}
+    </>
   )
 }
 
@@ -547,20 +1761,40 @@ function StatusStep({
   attempt,
   attempts,
   status,
+  error,
   processing,
   onRetry,
   onStartOver,
+  onContinueShopping,
+  onPixExpired,
+  onCancelOrder,
+  onRefund,
 }: {
   attempt: ReturnType<typeof currentAttempt>
-  attempts: ReturnType<typeof useCheckoutStore>["attempts"]
-  status: string
+  attempts: PaymentAttempt[]
+  status: PaymentStatus
+  error: string | null
   processing: boolean
   onRetry: () => void
   onStartOver: () => void
+  onContinueShopping: () => void
+  onPixExpired: (attemptId: string) => void
+  onCancelOrder: (attemptId: string) => void
+  onRefund: (attemptId: string, selection: RefundSelection[]) => Promise<boolean>
 }) {
-  const OutcomeIcon = status === "pago" ? CheckCircle : status === "processando" ? RefreshCw : XCircle
-  const outcomeColor =
-    status === "pago" ? "text-emerald-600" : status === "processando" ? "text-blue-600" : "text-destructive"
+  const legs = attempt ? orderLegs(attempts, attempt) : []
+  const isSplit = legs.length > 1
+  const hasPix = legs.some((leg) => leg.pix)
+  const hasBoleto = legs.some((leg) => leg.boleto)
+  const isPaid = status === "pago" || status === "estornado" || status === "parcialmente_estornado"
+  const OutcomeIcon = isPaid ? CheckCircle : status === "processando" ? RefreshCw : XCircle
+  const outcomeColor = isPaid
+    ? "text-emerald-600"
+    : status === "processando"
+      ? "text-blue-600"
+      : status === "cancelado"
+        ? "text-muted-foreground"
+        : "text-destructive"
 
   return (
     <div className="grid gap-6 lg:grid-cols-[2fr,1fr]">
@@ -568,7 +1802,8 @@ function StatusStep({
         <CardHeader className="border-b border-border">
           <CardTitle>Resultado da tentativa de pagamento</CardTitle>
           <CardDescription>
-            Simulação do ciclo completo: inicial → processando → pago | falhado | expirado.
+            Simulação do ciclo completo: inicial → processando → pago | falhado | expirado | cancelado,
+            com estornos totais ou parciais após o pagamento.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6 pt-6">
@@ -576,10 +1811,11 @@ function StatusStep({
             <OutcomeIcon className={cn("h-6 w-6", outcomeColor)} aria-hidden="true" />
             <div>
               <p className="text-sm font-semibold text-foreground capitalize">
-                Status atual: {status}
+                Status atual: {paymentStatusLabels[status]}
               </p>
               <p className="text-xs text-muted-foreground">
-                {attempt?.details ??
+                {(isSplit && status !== "processando" ? error : null) ??
+                  attempt?.details ??
                   (status === "processando"
                     ? "Estamos validando as informações do pagamento."
                     : "Sem detalhes disponíveis.")}
@@ -587,6 +1823,122 @@ function StatusStep({
             </div>
           </div>
 
+          {legs[0]?.shipping ? (
+            <div className="space-y-1 rounded-lg border border-border p-4 text-sm">
+              <p className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2 font-semibold text-foreground">
+                  <Truck className="h-4 w-4" aria-hidden="true" />
+                  Entrega via {legs[0].shipping.quote.carrier}
+                </span>
+                <strong className="text-foreground">
+                  {legs[0].shipping.price > 0 ? formatMoney(legs[0].shipping.price) : "Frete grátis"}
+                </strong>
+              </p>
+              <p className="text-muted-foreground">{formatAddress(legs[0].shipping.address)}</p>
+              <p className="text-xs text-muted-foreground">
+                Prazo estimado: {formatDeliveryDays(legs[0].shipping.quote.deliveryDays)} após a confirmação
+                do pagamento.
+              </p>
+            </div>
+          ) : null}
+
+          {legs[0]?.coupon ? (
+            <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-border p-4 text-sm">
+              <span className="flex items-center gap-2 text-muted-foreground">
+                <TicketPercent className="h-4 w-4" aria-hidden="true" />
+                Cupom {legs[0].coupon.code} • {legs[0].coupon.description}
+              </span>
+              {legs[0].coupon.freeShipping ? (
+                <strong className="text-foreground">Frete grátis</strong>
+              ) : legs[0].totals ? (
+                <strong className="text-foreground">
+                  - {formatMoney(addMoney(legs[0].totals.lineDiscount, legs[0].totals.orderDiscount))}
+                </strong>
+              ) : null}
+            </div>
+          ) : null}
+
+          {legs[0]?.totals ? (
+            <div className="space-y-2 rounded-lg border border-border p-4">
+              <SummaryLines summary={legs[0].totals} />
+              <p className="flex items-center justify-between border-t border-border pt-2 text-sm">
+                <span className="font-semibold text-foreground">Total do pedido</span>
+                <strong className="text-foreground">{formatMoney(legs[0].totals.total)}</strong>
+              </p>
+            </div>
+          ) : null}
+
+          {isSplit ? (
+            <div className="space-y-3 rounded-lg border border-border p-4">
+              <p className="text-sm font-semibold text-foreground">Pagamento dividido</p>
+              <ul className="space-y-2 text-sm">
+                {legs.map((leg) => (
+                  <li key={leg.id} className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="text-muted-foreground">
+                      Parte {leg.leg?.index} • {paymentLabels[leg.method].title}
+                      {leg.amount ? ` • ${formatCurrency(leg.amount)}` : ""}
+                    </span>
+                    <Badge variant={statusVariants[leg.status]?.variant ?? "secondary"} className="capitalize">
+                      {leg.rolledBack ? "desfeito" : (statusVariants[leg.status]?.label ?? leg.status)}
+                    </Badge>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-muted-foreground">
+                O pedido é confirmado quando todas as partes forem aprovadas. Se uma delas falhar, as demais
+                são canceladas ou estornadas automaticamente.
+              </p>
+            </div>
+          ) : null}
+
+          {legs.map((leg) => (
+            <Fragment key={leg.id}>
+              {leg.pix && leg.status === "processando" ? (
+                <PixPaymentPanel
+                  pix={leg.pix}
+                  amount={leg.amount}
+                  onExpire={() => onPixExpired(leg.id)}
+                />
+              ) : null}
+
+              {leg.installments && leg.installments.count > 1 ? (
+                <div className="rounded-lg border border-border p-4">
+                  <p className="text-sm font-semibold text-foreground">Pagamento parcelado no cartão</p>
+                  <InstallmentBreakdown
+                    plan={leg.installments}
+                    subtotal={(leg.installments.total - leg.installments.interest) as Money}
+                  />
+                  <p className="mt-2 flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Total no cartão</span>
+                    <strong className="text-foreground">{formatMoney(leg.installments.total)}</strong>
+                  </p>
+                </div>
+              ) : null}
+
+              {leg.boleto && !leg.rolledBack ? (
+                <div className="space-y-3 rounded-lg border border-border p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p className="text-sm font-semibold text-foreground">Boleto bancário</p>
+                    <span className="text-xs text-muted-foreground">
+                      Vencimento {formatIsoDate(leg.boleto.dueDate)} • {formatCurrency(leg.boleto.amount)}
+                    </span>
+                  </div>
+                  <p className="break-all rounded-md bg-muted/40 px-3 py-2 font-mono text-xs text-foreground">
+                    {leg.boleto.digitableLine}
+                  </p>
+                  <Link
+                    href={`/boleto/${leg.id}`}
+                    target="_blank"
+                    className={buttonVariants({ variant: "outline", size: "sm" })}
+                  >
+                    <Printer className="h-4 w-4" aria-hidden="true" />
+                    Visualizar e imprimir boleto
+                  </Link>
+                </div>
+              ) : null}
+            </Fragment>
+          ))}
+
           <div>
             <h3 className="text-sm font-semibold text-foreground">Linha do tempo</h3>
             <ul className="mt-3 space-y-3">
@@ -594,7 +1946,13 @@ function StatusStep({
               <TimelineItem
                 active={["processando", "pago", "falhado", "expirado"].includes(status)}
                 label="Processando"
-                description="Em análise pelo gateway mockado"
+                description={
+                  hasPix
+                    ? "Aguardando o pagamento do QR Code Pix"
+                    : hasBoleto
+                      ? "Aguardando a compensação do boleto"
+                      : "Em análise pelo gateway mockado"
+                }
               />
               <TimelineItem
                 active={status === "pago"}
@@ -611,16 +1969,57 @@ function StatusStep({
                 active={status === "expirado"}
                 variant="destructive"
                 label="Expirou"
-                description="Tempo limite atingido"
+                description={hasPix ? "QR Code Pix não foi pago dentro do prazo" : "Tempo limite atingido"}
+              />
+              <TimelineItem
+                active={status === "cancelado"}
+                variant="destructive"
+                label="Cancelado"
+                description="Pedido cancelado antes da confirmação do pagamento"
+              />
+              <TimelineItem
+                active={status === "estornado" || status === "parcialmente_estornado"}
+                label={status === "parcialmente_estornado" ? "Estorno parcial" : "Estornado"}
+                description="Valor devolvido ao cliente pelo mesmo meio de pagamento"
               />
             </ul>
           </div>
 
+          {attempt && isRefundableStatus(status) && refundableItems(legs[0]).length > 0 ? (
+            <RefundPanel
+              key={legs[0].refunds?.length ?? 0}
+              legs={legs}
+              processing={processing}
+              onRefund={(selection) => onRefund(legs[0].id, selection)}
+            />
+          ) : null}
+
           <div className="flex flex-col gap-2 sm:flex-row">
-            {status === "pago" ? (
-              <Button className="bg-emerald-600 hover:bg-emerald-600/90" onClick={onStartOver}>
-                Finalizar e voltar ao catálogo
-              </Button>
+            {status === "processando" ? (
+              <>
+                <Button variant="outline" onClick={onContinueShopping}>
+                  <ChevronLeft className="mr-2 h-4 w-4" aria-hidden="true" />
+                  Voltar ao catálogo
+                </Button>
+                {attempt ? (
+                  <Button variant="outline" onClick={() => onCancelOrder(attempt.id)} disabled={processing}>
+                    <XCircle className="mr-2 h-4 w-4" aria-hidden="true" />
+                    Cancelar pedido
+                  </Button>
+                ) : null}
+              </>
+            ) : isPaid ? (
+              <>
+                <Button className="bg-emerald-600 hover:bg-emerald-600/90" onClick={onStartOver}>
+                  Finalizar e voltar ao catálogo
+                </Button>
+                {legs[0]?.orderId ? (
+                  <Link href={`/pedidos/${legs[0].orderId}`} className={buttonVariants({ variant: "outline" })}>
+                    <Package className="mr-2 h-4 w-4" aria-hidden="true" />
+                    Ver pedido
+                  </Link>
+                ) : null}
+              </>
             ) : (
               <>
                 <Button variant="outline" onClick={onStartOver}>
@@ -658,7 +2057,10 @@ function StatusStep({
                 .map((item) => (
                   <li key={item.id} className="rounded-lg border border-border px-4 py-3 text-left">
                     <div className="flex items-center justify-between text-xs">
-                      <span className="font-medium text-foreground capitalize">{item.method}</span>
+                      <span className="font-medium text-foreground capitalize">
+                        {item.method}
+                        {item.leg ? ` • parte ${item.leg.index} de ${item.leg.count}` : ""}
+                      </span>
                       <span className="text-muted-foreground">
                         {item.createdAt.toLocaleTimeString("pt-BR", {
                           hour: "2-digit",
@@ -673,6 +2075,34 @@ function StatusStep({
                       {statusVariants[item.status]?.label ?? item.status}
                     </Badge>
                     <p className="mt-2 text-xs text-muted-foreground">{item.details}</p>
+                    {item.refunds?.length ? (
+                      <ul className="mt-2 space-y-1 border-t border-border pt-2 text-xs text-muted-foreground">
+                        {item.refunds.map((refund) => (
+                          <li key={refund.id} className="flex items-start justify-between gap-2">
+                            <span>
+                              Estorno
+                              {refund.items.length > 0
+                                ? ` • ${refund.items
+                                    .map((line) => {
+                                      const product = item.items?.find((entry) => entry.sku === line.sku)
+                                      const name = product ? lineItemName(product) : line.sku
+                                      return `${line.quantity}x ${name}`
+                                    })
+                                    .join(", ")}`
+                                : ""}
+                              {" • "}
+                              {refund.createdAt.toLocaleTimeString("pt-BR", {
+                                hour: "2-digit",
+                                minute: "2-digit",
+                              })}
+                            </span>
+                            <span className="font-medium text-foreground">
+                              -{formatCurrency(refund.amount)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : null}
                   </li>
                 ))}
             </ul>
@@ -683,6 +2113,194 @@ function StatusStep({
   )
 }
 
+function RefundPanel({
+  legs,
+  processing,
+  onRefund,
+}: {
+  legs: PaymentAttempt[]
+  processing: boolean
+  onRefund: (selection: RefundSelection[]) => Promise<boolean>
+}) {
+  const order = legs[0]
+  const items = refundableItems(order)
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const selection = items.map((item) => ({
+    sku: item.sku,
+    quantity: quantities[item.sku] ?? 0,
+  }))
+  const selectionError = validateRefundSelection(order, selection)
+  const amount = selectionError ? zeroMoney : refundAmountFor(legs, order, selection)
+
+  const refund = async (lines: RefundSelection[]) => {
+    if (await onRefund(lines)) setQuantities({})
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-4">
+      <div>
+        <p className="text-sm font-semibold text-foreground">Estornar itens</p>
+        <p className="text-xs text-muted-foreground">
+          Escolha as quantidades a devolver. O valor volta pelo mesmo meio de pagamento, proporcional ao que foi
+          cobrado.
+        </p>
+      </div>
+      <ul className="space-y-2 text-sm">
+        {items.map((item) => (
+          <li key={item.sku} className="flex items-center justify-between gap-3">
+            <Label htmlFor={`refund-${item.sku}`} className="font-normal">
+              {lineItemName(item)}
+              <span className="ml-1 text-xs text-muted-foreground">
+                ({item.quantity} {item.quantity > 1 ? "disponíveis" : "disponível"})
+              </span>
+            </Label>
+            <Input
+              id={`refund-${item.sku}`}
+              type="number"
+              inputMode="numeric"
+              min={0}
+              max={item.quantity}
+              className="w-20"
+              value={quantities[item.sku] ?? 0}
+              onChange={(event) =>
+                setQuantities((prev) => ({
+                  ...prev,
+                  [item.sku]: Math.min(
+                    item.quantity,
+                    Math.max(0, Math.floor(event.target.valueAsNumber || 0)),
+                  ),
+                }))
+              }
+              disabled={processing}
+            />
+          </li>
+        ))}
+      </ul>
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <span className="text-sm text-muted-foreground">
+          Valor do estorno: <strong className="text-foreground">{formatMoney(amount)}</strong>
+        </span>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refund(items.map(({ sku, quantity }) => ({ sku, quantity })))}
+            disabled={processing}
+          >
+            Estornar tudo
+          </Button>
+          <Button size="sm" onClick={() => refund(selection)} disabled={processing || Boolean(selectionError)}>
+            <RotateCcw className="mr-2 h-4 w-4" aria-hidden="true" />
+            Estornar selecionados
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function useSecondsUntil(deadline: Date) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  return Math.max(0, Math.ceil((deadline.getTime() - now) / 1000))
+}
+
+function ReservationNotice({ expiresAt }: { expiresAt: number }) {
+  const secondsLeft = useSecondsUntil(new Date(expiresAt))
+  const minutes = Math.floor(secondsLeft / 60)
+  const seconds = (secondsLeft % 60).toString().padStart(2, "0")
+
+  return (
+    <p role="status" className="flex items-center gap-2 rounded-lg border border-border bg-muted/40 p-3 text-xs">
+      <TimerReset className="h-4 w-4 shrink-0 text-primary" aria-hidden="true" />
+      {secondsLeft > 0 ? (
+        <span>
+          Itens reservados por <strong className="font-mono text-foreground">{minutes}:{seconds}</strong>.
+        </span>
+      ) : (
+        <span>A reserva expirou. Confirmaremos o estoque novamente ao finalizar o pedido.</span>
+      )}
+    </p>
+  )
+}
+
+function PixPaymentPanel({
+  pix,
+  amount,
+  onExpire,
+}: {
+  pix: PixCharge
+  amount?: number
+  onExpire: () => void
+}) {
+  const remaining = useSecondsUntil(pix.expiresAt)
+  const expiredRef = useRef(false)
+  const minutes = Math.floor(remaining / 60)
+  const seconds = remaining % 60
+
+  useEffect(() => {
+    if (remaining > 0 || expiredRef.current) return
+    expiredRef.current = true
+    onExpire()
+  }, [remaining, onExpire])
+
+  const copyPayload = async () => {
+    try {
+      await navigator.clipboard.writeText(pix.payload)
+      toast.success("Código Pix copiado.")
+    } catch {
+      toast.error("Não foi possível copiar. Selecione o código manualmente.")
+    }
+  }
+
+  return (
+    <div className="grid gap-4 rounded-lg border border-border p-4 sm:grid-cols-[auto,1fr]">
+      <div className="mx-auto rounded-md border border-border bg-white p-3">
+        <QRCodeSVG value={pix.payload} size={176} level="M" />
+      </div>
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-semibold text-foreground">Pague com Pix</p>
+          <Badge variant={remaining <= 60 ? "destructive" : "secondary"} className="flex items-center gap-1">
+            <TimerReset className="h-3.5 w-3.5" aria-hidden="true" />
+            Expira em {minutes.toString().padStart(2, "0")}:{seconds.toString().padStart(2, "0")}
+          </Badge>
+        </div>
+        {amount ? (
+          <p className="text-sm text-muted-foreground">
+            Valor: <strong className="text-foreground">{formatCurrency(amount)}</strong>
+          </p>
+        ) : null}
+        <div className="grid gap-2">
+          <Label htmlFor={`pix-payload-${pix.txid}`}>Pix copia e cola</Label>
+          <div className="flex gap-2">
+            <Input
+              id={`pix-payload-${pix.txid}`}
+              readOnly
+              value={pix.payload}
+              onFocus={(event) => event.target.select()}
+              className="font-mono text-xs"
+            />
+            <Button type="button" variant="outline" onClick={copyPayload}>
+              <Copy className="mr-2 h-4 w-4" aria-hidden="true" />
+              Copiar
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Abra o app do seu banco, escolha pagar com Pix e escaneie o QR Code. A confirmação aparece aqui
+          automaticamente.
+        </p>
+      </div>
+    </div>
+  )
+}
+
 function TimelineItem({
   label,
   description,
@@ -718,6 +2336,69 @@ function TimelineItem({
   )
 }
 
+function InstallmentBreakdown({ plan, subtotal }: { plan: InstallmentPlan; subtotal: Money }) {
+  return (
+    <dl className="space-y-1 border-t border-border pt-4 text-xs text-muted-foreground">
+      <div className="flex items-center justify-between">
+        <dt>Parcelamento</dt>
+        <dd className="font-medium text-foreground">
+          {plan.count}x de {formatMoney(plan.installmentValue)}
+        </dd>
+      </div>
+      <div className="flex items-center justify-between">
+        <dt>Condição</dt>
+        <dd>{describeInstallmentPlan(plan)}</dd>
+      </div>
+      <div className="flex items-center justify-between">
+        <dt>Valor dos produtos</dt>
+        <dd>{formatMoney(subtotal)}</dd>
+      </div>
+      {plan.interest > 0 ? (
+        <div className="flex items-center justify-between">
+          <dt>Juros do parcelamento</dt>
+          <dd>{formatMoney(plan.interest)}</dd>
+        </div>
+      ) : null}
+    </dl>
+  )
+}
+
+function CardBrandIcon({ brand, className }: { brand: CardBrand; className?: string }) {
+  const rule = cardBrandRules[brand]
+
+  return (
+    <svg
+      viewBox="0 0 48 30"
+      className={cn("h-6 w-10", className)}
+      role="img"
+      aria-label={`Bandeira ${rule.label}`}
+    >
+      <title>{rule.label}</title>
+      <rect width="48" height="30" rx="4" fill={rule.color} />
+      <text
+        x="24"
+        y="19"
+        textAnchor="middle"
+        fontSize={rule.shortLabel.length > 4 ? 8 : 10}
+        fontWeight="700"
+        fontFamily="sans-serif"
+        fill="#ffffff"
+      >
+        {rule.shortLabel}
+      </text>
+    </svg>
+  )
+}
+
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null
+  return (
+    <p id={id} className="text-xs text-destructive">
+      {message}
+    </p>
+  )
+}
+
 function Field({ label, value }: { label: string; value: string }) {
   return (
     <div className="space-y-1">
@@ -729,50 +2410,20 @@ function Field({ label, value }: { label: string; value: string }) {
   )
 }
 
-function validatePayment(payment: CheckoutFormValues) {
-  switch (payment.paymentMethod) {
-    case "pix":
-      if (!payment.pixKey) {
-        return "Informe a chave Pix para continuidade."
-      }
-      break
-    case "credit":
-      if (!payment.cardHolder || payment.cardHolder.length < 3) {
-        return "Nome do titular inválido."
-      }
-      if (!payment.cardNumber || payment.cardNumber.replace(/\s/g, "").length < 16) {
-        return "Número do cartão incompleto."
-      }
-      if (!payment.cardExpiration || payment.cardExpiration.length < 5) {
-        return "Informe a validade no formato MM/AA."
-      }
-      if (!payment.cardCvv || payment.cardCvv.length < 3) {
-        return "Informe o código de segurança (CVV)."
-      }
-      break
-    case "boleto":
-      if (!payment.boletoDueDate) {
-        return "Selecione a data de vencimento do boleto."
-      }
-      break
-    default:
-      return "Selecione um método de pagamento válido."
-  }
-  return null
-}
-
 function AuthScreen({
   loading,
   error,
   login,
   register,
   clearError,
+  onCancel,
 }: {
   loading: boolean
   error: string | null
-  login: ReturnType<typeof useAuthStore>["login"]
-  register: ReturnType<typeof useAuthStore>["register"]
-  clearError: ReturnType<typeof useAuthStore>["clearError"]
+  login: (credentials: AuthCredentials) => Promise<boolean>
+  register: (credentials: AuthCredentials) => Promise<boolean>
+  clearError: () => void
+  onCancel: () => void
 }) {
   const [mode, setMode] = useState<"login" | "register">("login")
   const [formValues, setFormValues] = useState({
@@ -780,10 +2431,27 @@ function AuthScreen({
     email: "",
     password: "",
   })
+  const [touched, setTouched] = useState<Partial<Record<keyof typeof formValues, boolean>>>({})
+  const fieldErrors = useMemo(
+    () => getFieldErrors(mode === "login" ? authCredentialsSchema : registerCredentialsSchema, formValues),
+    [mode, formValues],
+  )
+  const isValid = Object.keys(fieldErrors).length === 0
+
+  const errorFor = (field: keyof typeof formValues) => (touched[field] ? fieldErrors[field] : undefined)
+  const fieldProps = (field: keyof typeof formValues) => ({
+    onBlur: () => setTouched((prev) => ({ ...prev, [field]: true })),
+    "aria-invalid": Boolean(errorFor(field)),
+    "aria-describedby": errorFor(field) ? `${field}-error` : undefined,
+  })
 
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault()
     clearError()
+    if (!isValid) {
+      setTouched({ name: true, email: true, password: true })
+      return
+    }
     const action = mode === "login" ? login : register
     const success = await action({
       email: formValues.email.trim(),
@@ -804,7 +2472,8 @@ function AuthScreen({
           {mode === "login" ? "Entre para continuar" : "Crie sua conta"}
         </CardTitle>
         <CardDescription>
-          Use as credenciais mockadas ou crie um novo acesso para simular o fluxo completo.
+          Use as credenciais mockadas ou crie um novo acesso para simular o fluxo completo. Os itens do
+          carrinho de visitante são levados para a sua conta.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -814,6 +2483,7 @@ function AuthScreen({
               <Label htmlFor="name">Nome completo</Label>
               <Input
                 id="name"
+                {...fieldProps("name")}
                 name="name"
                 autoComplete="name"
                 placeholder="Maria Silva"
@@ -826,6 +2496,7 @@ function AuthScreen({
                   }))
                 }
               />
+              <FieldError id="name-error" message={errorFor("name")} />
             </div>
           ) : null}
 
@@ -833,6 +2504,7 @@ function AuthScreen({
             <Label htmlFor="email">E-mail</Label>
             <Input
               id="email"
+              {...fieldProps("email")}
               name="email"
               type="email"
               autoComplete="email"
@@ -846,6 +2518,7 @@ function AuthScreen({
                 }))
               }
             />
+            <FieldError id="email-error" message={errorFor("email")} />
           </div>
 
           <div className="grid gap-2">
@@ -859,6 +2532,7 @@ function AuthScreen({
             </div>
             <Input
               id="password"
+              {...fieldProps("password")}
               name="password"
               type="password"
               autoComplete={mode === "login" ? "current-password" : "new-password"}
@@ -873,6 +2547,7 @@ function AuthScreen({
                 }))
               }
             />
+            <FieldError id="password-error" message={errorFor("password")} />
           </div>
 
           {error ? (
@@ -881,7 +2556,7 @@ function AuthScreen({
             </p>
           ) : null}
 
-          <Button className="w-full" disabled={loading} type="submit">
+          <Button className="w-full" disabled={loading || !isValid} type="submit">
             {loading ? (
               <span className="flex items-center gap-2">
                 <RefreshCw className="h-4 w-4 animate-spin" aria-hidden="true" />
@@ -915,6 +2590,7 @@ function AuthScreen({
           onClick={() => {
             setMode((prev) => (prev === "login" ? "register" : "login"))
             clearError()
+            setTouched({})
             setFormValues((values) => ({
               ...values,
               password: "",
@@ -925,6 +2601,11 @@ function AuthScreen({
             ? "Nunca comprou aqui? Crie uma conta."
             : "Já possui cadastro? Faça login."}
         </button>
+
+        <Button variant="ghost" className="w-full" onClick={onCancel} disabled={loading}>
+          <ChevronLeft className="mr-2 h-4 w-4" aria-hidden="true" />
+          Continuar como visitante
+        </Button>
       </CardContent>
     </Card>
   )
@@ -961,7 +2642,7 @@ function StepProgress({
           </span>
         ) : null}
       </div>
-      <ol className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+      <ol className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
         {stepOrder.map((step, index) => {
           const stepMeta = stepLabels[step]
           const isActive = currentStep === step
@@ -1011,6 +2692,7 @@ function StepProgress({
 
 export default function CheckoutExperience() {
   const [isHydrated, setIsHydrated] = useState(false)
+  const [authRequested, setAuthRequested] = useState(false)
 
   const authUser = useAuthStore((state) => state.user)
   const authLoading = useAuthStore((state) => state.loading)
@@ -1018,6 +2700,7 @@ export default function CheckoutExperience() {
   const login = useAuthStore((state) => state.login)
   const register = useAuthStore((state) => state.register)
   const logout = useAuthStore((state) => state.logout)
+  const saveAddress = useAuthStore((state) => state.saveAddress)
   const clearAuthError = useAuthStore((state) => state.clearError)
 
   const cartItems = useCartStore((state) => state.items)
@@ -1025,39 +2708,157 @@ export default function CheckoutExperience() {
   const updateCartQuantity = useCartStore((state) => state.updateQuantity)
   const removeCartItem = useCartStore((state) => state.removeItem)
   const clearCart = useCartStore((state) => state.clear)
+  const cartChanges = useCartStore((state) => state.changes)
+  const revalidateCart = useCartStore((state) => state.revalidate)
+  const acknowledgeCartChanges = useCartStore((state) => state.acknowledgeChanges)
+  const switchCartAccount = useCartStore((state) => state.switchAccount)
+  const mergeSummary = useCartStore((state) => state.mergeSummary)
+  const dismissMergeSummary = useCartStore((state) => state.dismissMergeSummary)
+  const savedForLater = useCartStore((state) => state.savedForLater)
+  const saveForLater = useCartStore((state) => state.saveForLater)
+  const moveToCart = useCartStore((state) => state.moveToCart)
+  const removeSaved = useCartStore((state) => state.removeSaved)
+  const wishlist = useWishlist(authUser?.id ?? null)
+  const toggleWishlist = useWishlistStore((state) => state.toggle)
+  const removeFromWishlist = useWishlistStore((state) => state.remove)
+  const couponCode = useCartStore((state) => state.couponCode)
+  const applyCoupon = useCartStore((state) => state.applyCoupon)
+  const removeCoupon = useCartStore((state) => state.removeCoupon)
+  const couponRedemptions = useCouponStore((state) => state.redemptions)
+  const orders = useOrderStore((state) => state.orders)
+  const loadOrders = useOrderStore((state) => state.load)
+  // Paid orders loaded from the server also count, so a coupon used on another device shows as used here.
+  const redeemedCodes = useMemo(
+    () =>
+      authUser
+        ? [
+            ...(couponRedemptions[authUser.id] ?? []),
+            ...redeemedCouponCodes(orders.filter((order) => order.accountId === authUser.id)),
+          ]
+        : undefined,
+    [authUser, couponRedemptions, orders],
+  )
 
   const checkoutStep = useCheckoutStore((state) => state.step)
   const checkoutStatus = useCheckoutStore((state) => state.status)
+  const checkoutError = useCheckoutStore((state) => state.error)
   const isProcessing = useCheckoutStore((state) => state.processing)
+  const isProcessingElsewhere = useProcessingElsewhere()
   const paymentState = useCheckoutStore((state) => state.payment)
+  const shippingState = useCheckoutStore((state) => state.shipping)
+  const splitPayment = useCheckoutStore((state) => state.split)
   const attempts = useCheckoutStore((state) => state.attempts)
   const activeAttemptId = useCheckoutStore((state) => state.activeAttemptId)
   const setCheckoutStep = useCheckoutStore((state) => state.setStep)
   const setPaymentMethod = useCheckoutStore((state) => state.setPaymentMethod)
   const updatePaymentState = useCheckoutStore((state) => state.updatePayment)
+  const updateShippingAddress = useCheckoutStore((state) => state.updateShippingAddress)
+  const selectCarrier = useCheckoutStore((state) => state.selectCarrier)
+  const toggleSplitPayment = useCheckoutStore((state) => state.toggleSplit)
+  const updateSplitPayment = useCheckoutStore((state) => state.updateSplit)
   const submitOrder = useCheckoutStore((state) => state.submitOrder)
+  const syncAttempt = useCheckoutStore((state) => state.syncAttempt)
+  const expireAttempt = useCheckoutStore((state) => state.expireAttempt)
+  const cancelOrder = useCheckoutStore((state) => state.cancelOrder)
+  const refundOrder = useCheckoutStore((state) => state.refundOrder)
   const resetCheckout = useCheckoutStore((state) => state.reset)
+  const switchCheckoutAccount = useCheckoutStore((state) => state.switchAccount)
   const retryCheckout = useCheckoutStore((state) => state.retry)
+  const holdStock = useCheckoutStore((state) => state.holdStock)
+  const checkoutKey = useCheckoutStore((state) => state.idempotencyKey)
+  const availableFor = useAvailableStock(checkoutKey)
+  const reservedUntil =
+    useInventoryStore((state) => state.reservations.find((item) => item.key === checkoutKey)?.expiresAt) ?? null
 
   useEffect(() => {
     const frame = requestAnimationFrame(() => setIsHydrated(true))
     return () => cancelAnimationFrame(frame)
   }, [])
 
+  useEffect(() => {
+    if (isHydrated) track({ type: "step_entered", step: checkoutStep })
+  }, [isHydrated, checkoutStep])
+
+  // Cart and checkout state belong to the signed-in account and are swapped when it changes.
+  const accountId = authUser?.id ?? null
   useEffect(() => {
     if (!isHydrated) return
-    if (!authUser) {
+    switchCheckoutAccount(accountId)
+    void switchCartAccount(accountId, availableFor).then((merged) => {
+      if (merged.length > 0) setCheckoutStep("cart")
+    })
+  }, [isHydrated, accountId, availableFor, switchCheckoutAccount, switchCartAccount, setCheckoutStep])
+
+  useEffect(() => {
+    if (isHydrated && accountId) void loadOrders(accountId)
+  }, [isHydrated, accountId, loadOrders])
+
+  useEffect(() => {
+    if (!isHydrated) return
+    // Guests browse and fill the cart; delivery and payment need an account.
+    if (!authUser && ["shipping", "payment", "status"].includes(checkoutStep)) {
       resetCheckout()
-      clearCart()
       return
     }
 
-    if (cartItems.length === 0 && (checkoutStep === "cart" || checkoutStep === "payment")) {
-      setCheckoutStep("catalog")
+    // A cart changed by the catalog stays open until the customer has seen the differences.
+    if (cartChanges.length > 0 && ["shipping", "payment"].includes(checkoutStep)) {
+      setCheckoutStep("cart")
+    } else if (cartItems.length === 0 && ["cart", "shipping", "payment"].includes(checkoutStep)) {
+      // An empty cart still opens when it has changes to review or lines saved for later.
+      const target = cartChanges.length > 0 || savedForLater.length > 0 ? "cart" : "catalog"
+      if (checkoutStep !== target) setCheckoutStep(target)
     }
-  }, [authUser, isHydrated, cartItems.length, checkoutStep, resetCheckout, clearCart, setCheckoutStep])
+  }, [
+    authUser,
+    isHydrated,
+    cartItems.length,
+    cartChanges.length,
+    savedForLater.length,
+    checkoutStep,
+    resetCheckout,
+    setCheckoutStep,
+  ])
 
-  const cartTotalValue = useMemo(() => cartTotal(cartItems), [cartItems])
+  const couponResult = useMemo(
+    () =>
+      couponCode
+        ? evaluateCoupon(couponCode, {
+            items: cartItems,
+            accountId: authUser?.id,
+            redeemedCodes,
+          })
+        : null,
+    [couponCode, cartItems, authUser, redeemedCodes],
+  )
+  const freightQuotes = useMemo(
+    () => quoteFreight(cartItems, shippingState.address.state),
+    [cartItems, shippingState.address.state],
+  )
+  const selectedFreight = freightQuotes.find((quote) => quote.carrierId === shippingState.carrierId) ?? null
+  const isShippingReady =
+    Boolean(selectedFreight) && shippingAddressSchema.safeParse(shippingState.address).success
+  const orderSummary = useMemo(
+    () =>
+      priceOrder({
+        items: cartItems,
+        coupon: couponResult?.ok ? couponResult.coupon : null,
+        freight: selectedFreight,
+      }),
+    [cartItems, couponResult, selectedFreight],
+  )
+  // The payment step adds the Pix discount and card interest of the chosen payment.
+  const paymentSummary = useMemo(
+    () =>
+      priceOrder({
+        items: cartItems,
+        coupon: orderSummary.coupon,
+        freight: orderSummary.freight,
+        payment: paymentState,
+        split: splitPayment,
+      }),
+    [cartItems, orderSummary, paymentState, splitPayment],
+  )
   const itemsCount = useMemo(() => cartQuantity(cartItems), [cartItems])
 
   const activeAttempt = useMemo(() => {
@@ -1065,6 +2866,86 @@ export default function CheckoutExperience() {
     return attempts.find((item) => item.id === activeAttemptId) ?? currentAttempt()
   }, [activeAttemptId, attempts])
 
+  const pendingAttemptIds = useMemo(
+    () =>
+      attempts
+        .filter((attempt) => attempt.status === "processando" && attempt.transactionId)
+        .map((attempt) => attempt.id)
+        .join(","),
+    [attempts],
+  )
+
+  useEffect(() => {
+    if (!pendingAttemptIds) return
+    let running = false
+
+    const interval = setInterval(async () => {
+      if (running) return
+      running = true
+      try {
+        for (const attemptId of pendingAttemptIds.split(",")) {
+          // Legs rolled back by an earlier iteration are no longer pending.
+          const pending = useCheckoutStore.getState().attempts.find((item) => item.id === attemptId)
+          if (pending?.status !== "processando") continue
+
+          const attempt = await syncAttempt(attemptId)
+          if (!attempt || attempt.status === "processando") continue
+
+          const state = useCheckoutStore.getState()
+          const legs = orderLegs(state.attempts, attempt)
+          const orderStatus = combineLegStatuses(legs.map((leg) => leg.status))
+          const isActive = legs.some((leg) => leg.id === state.activeAttemptId)
+          if (orderStatus === "processando") {
+            toast.info("Parte do pagamento confirmada. Aguardando as demais formas.")
+          } else if (orderStatus === "pago") {
+            redeemOrderCoupon(legs[0])
+            if (isActive) clearCart()
+            toast.success(
+              isActive ? "Pagamento aprovado! Pedido confirmado." : "Um pagamento pendente foi confirmado.",
+            )
+          } else {
+            toast.error(attempt.details ?? "Pagamento não aprovado.")
+          }
+        }
+      } finally {
+        running = false
+      }
+    }, 3000)
+    return () => clearInterval(interval)
+  }, [pendingAttemptIds, syncAttempt, clearCart])
+
+  /** Refreshes the cart against the catalog and live stock; any change sends the customer back to review it. */
+  const confirmCartUnchanged = () => {
+    revalidateCart(availableFor)
+    if (useCartStore.getState().changes.length === 0) return true
+    setCheckoutStep("cart")
+    toast.warning("Seu carrinho mudou. Revise as alterações antes de continuar.")
+    return false
+  }
+
+  const signIn = async (action: typeof login, credentials: AuthCredentials) => {
+    const success = await action(credentials)
+    if (success) setAuthRequested(false)
+    return success
+  }
+
+  const goToShipping = () => {
+    if (!authUser) {
+      setAuthRequested(true)
+      toast.info("Entre ou crie uma conta para informar a entrega.")
+      return
+    }
+    if (!confirmCartUnchanged()) return
+    // Suggest the address used on the previous order.
+    if (!shippingState.address.cep && authUser?.address) updateShippingAddress(authUser.address)
+    setCheckoutStep("shipping")
+    const hold = holdStock(cartItems)
+    if (!hold.ok) {
+      toast.error(hold.error)
+      setCheckoutStep("cart")
+    }
+  }
+
   if (!isHydrated) {
     return (
       <div className="min-h-screen bg-background">
@@ -1096,31 +2977,48 @@ export default function CheckoutExperience() {
                 <p className="text-sm font-semibold text-foreground">{authUser.name}</p>
                 <p className="text-xs text-muted-foreground">{authUser.email}</p>
               </div>
+              <Link href="/pedidos" className={cn(buttonVariants({ variant: "ghost", size: "sm" }), "ml-2")}>
+                <Package className="mr-2 h-4 w-4" aria-hidden="true" />
+                Meus pedidos
+              </Link>
+              {authUser.role === "admin" ? (
+                <Link href="/admin" className={buttonVariants({ variant: "ghost", size: "sm" })}>
+                  <LayoutDashboard className="mr-2 h-4 w-4" aria-hidden="true" />
+                  Administração
+                </Link>
+              ) : null}
               <Button
                 variant="outline"
                 size="sm"
                 className="ml-2"
-                onClick={() => {
-                  logout()
-                  resetCheckout()
-                  clearCart()
-                  toast.info("Você saiu da sessão.")
+                onClick={async () => {
+                  await logout()
+                  toast.info("Você saiu da sessão. Seu carrinho fica guardado para o próximo acesso.")
                 }}
               >
                 <LogOut className="mr-2 h-4 w-4" aria-hidden="true" />
                 Sair
               </Button>
             </div>
+          ) : !authRequested ? (
+            <Button variant="outline" onClick={() => setAuthRequested(true)}>
+              <LogIn className="mr-2 h-4 w-4" aria-hidden="true" />
+              Entrar
+            </Button>
           ) : null}
         </header>
 
-        {!authUser ? (
+        {!authUser && authRequested ? (
           <AuthScreen
             loading={authLoading}
             error={authError}
-            login={login}
-            register={register}
+            login={(credentials) => signIn(login, credentials)}
+            register={(credentials) => signIn(register, credentials)}
             clearError={clearAuthError}
+            onCancel={() => {
+              clearAuthError()
+              setAuthRequested(false)
+            }}
           />
         ) : (
           <section className="flex flex-col gap-8">
@@ -1130,66 +3028,169 @@ export default function CheckoutExperience() {
               attempts={attempts.length}
               onNavigate={(step) => {
                 if (step === checkoutStep) return
-                if (step === "payment" && cartItems.length === 0) {
+                if ((step === "shipping" || step === "payment") && cartItems.length === 0) {
                   toast.error("Adicione itens ao carrinho antes de continuar.")
                   return
                 }
-                if (step === "cart" && cartItems.length === 0) {
+                if (step === "cart" && cartItems.length === 0 && savedForLater.length === 0) {
                   setCheckoutStep("catalog")
                   return
                 }
+                if (step === "shipping") {
+                  goToShipping()
+                  return
+                }
+                if (step === "payment" && !isShippingReady) {
+                  toast.error("Informe o endereço e escolha o frete antes do pagamento.")
+                  goToShipping()
+                  return
+                }
+                if (step === "payment" && !confirmCartUnchanged()) return
                 setCheckoutStep(step)
               }}
             />
 
+            {mergeSummary ? <CartMergeNotice lines={mergeSummary} onDismiss={dismissMergeSummary} /> : null}
+
             {checkoutStep === "catalog" ? (
-              <CatalogStep
-                itemsCount={itemsCount}
-                onAddProduct={(productId) => {
-                  const product = products.find((item) => item.id === productId)
-                  if (!product) return
-                  addItemToCart(product)
-                  toast.success(`${product.name} adicionado ao carrinho`)
-                }}
-                onGoToCart={() => setCheckoutStep("cart")}
-              />
+              // The catalog reads its filters from the URL, which needs a Suspense boundary.
+              <Suspense fallback={<Skeleton className="h-[420px] w-full" />}>
+                <CatalogStep
+                  itemsCount={itemsCount}
+                  cartItems={cartItems}
+                  availableFor={availableFor}
+                  isGuest={!authUser}
+                  wishlist={wishlist}
+                  onToggleWishlist={(product) => {
+                    if (!authUser) {
+                      setAuthRequested(true)
+                      toast.info("Entre para guardar produtos na lista de desejos.")
+                      return
+                    }
+                    const added = toggleWishlist(authUser.id, { productId: product.id })
+                    toast.success(
+                      added ? `${product.name} salvo na lista de desejos` : `${product.name} removido da lista de desejos`,
+                    )
+                  }}
+                  onRemoveWishlist={(key) => authUser && removeFromWishlist(authUser.id, key)}
+                  onRequestLogin={() => setAuthRequested(true)}
+                  onAddVariant={(product, variant) => {
+                    const available = availableFor(variant)
+                    const inCart = cartItems.find((item) => item.variant.sku === variant.sku)?.quantity ?? 0
+                    const name = variantName(product, variant)
+                    if (inCart >= available) {
+                      toast.error(
+                        available === 0
+                          ? `${name} está esgotado.`
+                          : "Você já tem no carrinho todas as unidades disponíveis.",
+                      )
+                      return
+                    }
+                    addItemToCart(product, variant, available)
+                    toast.success(`${name} adicionado ao carrinho`)
+                  }}
+                  onGoToCart={() => setCheckoutStep("cart")}
+                />
+              </Suspense>
             ) : null}
 
             {checkoutStep === "cart" ? (
               <CartStep
                 items={cartItems}
-                total={cartTotalValue}
-                onUpdateQuantity={updateCartQuantity}
+                summary={orderSummary}
+                changes={cartChanges}
+                onAcknowledgeChanges={acknowledgeCartChanges}
+                savedForLater={savedForLater}
+                onSaveForLater={(sku) => {
+                  saveForLater(sku)
+                  toast.message("Item salvo para depois.")
+                }}
+                onMoveToCart={(sku) => {
+                  const current = findBySku(sku)
+                  const moved = current ? moveToCart(sku, availableFor(current.variant)) : 0
+                  if (moved === 0) toast.error("Não há unidades disponíveis deste item agora.")
+                  else toast.success("Item movido para o carrinho.")
+                }}
+                onRemoveSaved={removeSaved}
+                couponCode={couponCode}
+                couponError={couponResult && !couponResult.ok ? couponResult.error : null}
+                availableFor={availableFor}
+                onUpdateQuantity={(sku, quantity) => {
+                  const current = findBySku(sku)
+                  const limit = current ? Math.max(availableFor(current.variant), 1) : undefined
+                  updateCartQuantity(sku, quantity, limit)
+                }}
                 onRemove={removeCartItem}
+                onApplyCoupon={(code) => {
+                  const result = evaluateCoupon(code, {
+                    items: cartItems,
+                    accountId: authUser?.id,
+                    redeemedCodes,
+                  })
+                  if (!result.ok) return result.error
+                  applyCoupon(result.coupon.code)
+                  toast.success(`Cupom ${result.coupon.code} aplicado.`)
+                  return null
+                }}
+                onRemoveCoupon={removeCoupon}
                 onGoToCatalog={() => setCheckoutStep("catalog")}
-                onGoToPayment={() => setCheckoutStep("payment")}
+                onGoToShipping={goToShipping}
               />
             ) : null}
 
-            {checkoutStep === "payment" ? (
+            {checkoutStep === "shipping" ? (
+              <ShippingStep
+                items={cartItems}
+                summary={orderSummary}
+                shipping={shippingState}
+                quotes={freightQuotes}
+                onUpdateAddress={updateShippingAddress}
+                onSelectCarrier={selectCarrier}
+                reservedUntil={reservedUntil}
+                onBackToCart={() => setCheckoutStep("cart")}
+                onContinue={() => {
+                  const address = shippingAddressSchema.safeParse(shippingState.address)
+                  if (!address.success || !selectedFreight || !confirmCartUnchanged()) return
+                  saveAddress(address.data)
+                  setCheckoutStep("payment")
+                }}
+              />
+            ) : null}
+
+            {checkoutStep === "payment" && authUser ? (
               <PaymentStep
-                user={authUser!}
+                user={authUser}
                 items={cartItems}
-                total={cartTotalValue}
+                summary={paymentSummary}
                 payment={paymentState}
+                split={splitPayment}
                 processing={isProcessing}
+                processingElsewhere={isProcessingElsewhere}
                 onUpdatePayment={updatePaymentState}
                 onSelectMethod={setPaymentMethod}
-                onBackToCart={() => setCheckoutStep("cart")}
+                onToggleSplit={(enabled) => toggleSplitPayment(enabled, orderSummary.due)}
+                onUpdateSplit={updateSplitPayment}
+                reservedUntil={reservedUntil}
+                onBackToShipping={() => setCheckoutStep("shipping")}
                 onConfirm={async () => {
-                  const validationMessage = validatePayment(paymentState)
-                  if (validationMessage) {
-                    toast.warning(validationMessage)
+                  if (!confirmCartUnchanged()) return
+                  const attempt = await submitOrder(orderSummary, cartItems)
+
+                  if (!attempt) {
+                    toast.warning("Outra aba já está processando um pagamento. Aguarde a conclusão.")
                     return
                   }
 
-                  const attempt = await submitOrder(cartTotalValue)
-
-                  if (attempt.status === "pago") {
+                  // Split orders are settled by all of their legs, so read the order status.
+                  const { status, error } = useCheckoutStore.getState()
+                  if (status === "pago") {
+                    redeemOrderCoupon(attempt)
                     clearCart()
                     toast.success("Pagamento aprovado! Pedido confirmado.")
+                  } else if (status === "processando") {
+                    toast.info(attempt.details ?? "Pagamento aguardando confirmação.")
                   } else {
-                    toast.error(attempt.details ?? "Pagamento não aprovado.")
+                    toast.error(error ?? attempt.details ?? "Pagamento não aprovado.")
                   }
                 }}
               />
@@ -1200,6 +3201,7 @@ export default function CheckoutExperience() {
                 attempt={activeAttempt}
                 attempts={attempts}
                 status={checkoutStatus}
+                error={checkoutError}
                 processing={isProcessing}
                 onRetry={() => {
                   retryCheckout()
@@ -1210,6 +3212,30 @@ export default function CheckoutExperience() {
                   setCheckoutStep("catalog")
                   toast.message("Fluxo reiniciado. Escolha novos produtos.")
                 }}
+                onContinueShopping={() => {
+                  setCheckoutStep("catalog")
+                  toast.message("Avisaremos aqui quando o pagamento for confirmado.")
+                }}
+                onPixExpired={async (attemptId) => {
+                  await expireAttempt(attemptId)
+                  toast.error("O QR Code Pix expirou. Gere um novo para tentar novamente.")
+                }}
+                onCancelOrder={async (attemptId) => {
+                  await cancelOrder(attemptId)
+                  const { status, error } = useCheckoutStore.getState()
+                  if (status === "cancelado") {
+                    toast.message("Pedido cancelado. Nenhuma cobrança foi mantida.")
+                  } else {
+                    toast.error(error ?? "Não foi possível cancelar o pedido.")
+                  }
+                }}
+                onRefund={async (attemptId, selection) => {
+                  const refund = await refundOrder(attemptId, selection)
+                  const { error } = useCheckoutStore.getState()
+                  if (refund) toast.success(`Estorno de ${formatCurrency(refund.amount)} realizado.`)
+                  if (error) toast.error(error)
+                  return Boolean(refund)
+                }}
               />
             ) : null}
           </section>
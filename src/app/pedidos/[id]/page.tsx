@@ -0,0 +1,222 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { ChevronLeft, CreditCard, MapPin, RotateCcw, Truck } from "lucide-react"
+import { Toaster } from "sonner"
+
+import { SummaryLines } from "@/components/summary-lines"
+import { Badge } from "@/components/ui/badge"
+import { Button, buttonVariants } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAuthStore } from "@/hooks/use-auth"
+import { useCheckoutStore } from "@/hooks/use-checkout"
+import { useOrderStore } from "@/hooks/use-orders"
+import { useReorder } from "@/hooks/use-reorder"
+import { formatCurrency } from "@/lib/format"
+import { formatMoney } from "@/lib/money"
+import { fulfillmentStatusLabels, fulfillmentStatusVariants, orderNumber } from "@/lib/orders"
+import { paymentMethodLabels, paymentStatusLabels } from "@/lib/payment-status"
+import { formatAddress, formatDeliveryDays } from "@/lib/shipping"
+import { lineItemName } from "@/lib/variants"
+
+export default function OrderPage() {
+  const { id } = useParams<{ id: string }>()
+  const router = useRouter()
+  const [isHydrated, setIsHydrated] = useState(false)
+  const user = useAuthStore((state) => state.user)
+  const order = useOrderStore((state) => state.orders.find((item) => item.id === id) ?? null)
+  const attempts = useCheckoutStore((state) => state.attempts)
+  const resumeAttempt = useCheckoutStore((state) => state.resume)
+  const loadOrders = useOrderStore((state) => state.load)
+  const reorder = useReorder()
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setIsHydrated(true))
+    return () => cancelAnimationFrame(frame)
+  }, [])
+
+  // With the API, orders placed on other devices show up too.
+  const accountId = user?.id
+  useEffect(() => {
+    if (accountId) void loadOrders(accountId)
+  }, [accountId, loadOrders])
+
+  if (!isHydrated) {
+    return (
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-16">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-[420px] w-full" />
+      </main>
+    )
+  }
+
+  // Orders of other accounts read as missing.
+  if (!order || order.accountId !== user?.id) {
+    return (
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-16">
+        <Card>
+          <CardHeader>
+            <CardTitle>Pedido não encontrado</CardTitle>
+            <CardDescription>
+              {user ? "Este pedido não está na sua conta." : "Entre na conta usada na compra para ver o pedido."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/pedidos" className={buttonVariants({ variant: "outline" })}>
+              <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+              Voltar aos pedidos
+            </Link>
+          </CardContent>
+        </Card>
+      </main>
+    )
+  }
+
+  const payments = order.attemptIds.flatMap((attemptId) => attempts.filter((item) => item.id === attemptId))
+  const latestAttemptId = order.attemptIds[order.attemptIds.length - 1]
+
+  return (
+    <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-10">
+      <Toaster position="top-center" theme="light" richColors />
+      <div className="flex items-center justify-between">
+        <Link href="/pedidos" className={buttonVariants({ variant: "outline" })}>
+          <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+          Voltar aos pedidos
+        </Link>
+        <Button variant="outline" onClick={() => reorder(order)}>
+          <RotateCcw className="h-4 w-4" aria-hidden="true" />
+          Comprar novamente
+        </Button>
+      </div>
+
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold tracking-tight text-foreground">Pedido {orderNumber(order)}</h1>
+          <p className="text-sm text-muted-foreground">
+            Feito em{" "}
+            {order.createdAt.toLocaleString("pt-BR", { dateStyle: "long", timeStyle: "short" })} por{" "}
+            {order.customer.name}
+          </p>
+        </div>
+        <Badge variant={fulfillmentStatusVariants[order.fulfillment]} className="w-fit">
+          {fulfillmentStatusLabels[order.fulfillment]}
+        </Badge>
+      </header>
+
+      <div className="grid gap-6 lg:grid-cols-[2fr,1fr]">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Itens</CardTitle>
+              <CardDescription>Preços de quando o pedido foi feito.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="divide-y divide-border text-sm">
+                {order.lines.map((line) => {
+                  const priced = order.totals.lines.find((item) => item.sku === line.sku)
+                  return (
+                    <li key={line.sku} className="flex items-center justify-between gap-4 py-3">
+                      <div>
+                        <p className="font-medium text-foreground">{lineItemName(line)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {line.quantity} × {formatCurrency(line.unitPrice)} • SKU {line.sku}
+                        </p>
+                      </div>
+                      {priced ? (
+                        <span className="font-medium text-foreground">{formatMoney(priced.gross)}</span>
+                      ) : null}
+                    </li>
+                  )
+                })}
+              </ul>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Truck className="h-5 w-5" aria-hidden="true" />
+                Entrega
+              </CardTitle>
+              <CardDescription>
+                {order.shipping.quote.carrier} • {formatDeliveryDays(order.shipping.quote.deliveryDays)} após a
+                confirmação do pagamento
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="flex items-start gap-2 text-sm text-muted-foreground">
+                <MapPin className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+                {formatAddress(order.shipping.address)}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="h-5 w-5" aria-hidden="true" />
+                Pagamentos
+              </CardTitle>
+              <CardDescription>Situação atual: {paymentStatusLabels[order.paymentStatus]}.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {payments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">As tentativas de pagamento não estão neste navegador.</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {payments.map((attempt) => (
+                    <li
+                      key={attempt.id}
+                      className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-border px-4 py-3"
+                    >
+                      <span>
+                        <span className="font-medium text-foreground">{paymentMethodLabels[attempt.method]}</span>
+                        {attempt.leg ? ` • parte ${attempt.leg.index} de ${attempt.leg.count}` : ""}
+                        <span className="block text-xs text-muted-foreground">
+                          {attempt.createdAt.toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+                          {attempt.amount ? ` • ${formatCurrency(attempt.amount)}` : ""}
+                        </span>
+                      </span>
+                      <Badge variant="secondary" className="capitalize">
+                        {attempt.rolledBack ? "desfeito" : paymentStatusLabels[attempt.status]}
+                      </Badge>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {order.paymentStatus === "processando" && latestAttemptId ? (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    resumeAttempt(latestAttemptId)
+                    router.push("/")
+                  }}
+                >
+                  Acompanhar pagamento
+                </Button>
+              ) : null}
+            </CardContent>
+          </Card>
+        </div>
+
+        <aside>
+          <Card>
+            <CardHeader>
+              <CardTitle>Resumo</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <SummaryLines summary={order.totals} />
+              <div className="flex items-center justify-between border-t border-border pt-4 text-sm">
+                <span className="font-semibold text-foreground">Total</span>
+                <span className="text-lg font-bold text-foreground">{formatMoney(order.totals.total)}</span>
+              </div>
+            </CardContent>
+          </Card>
+        </aside>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { ChevronLeft, ChevronRight, Package, RotateCcw } from "lucide-react"
+import { Toaster } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button, buttonVariants } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAuthStore } from "@/hooks/use-auth"
+import { useOrderStore } from "@/hooks/use-orders"
+import { useReorder } from "@/hooks/use-reorder"
+import { formatMoney } from "@/lib/money"
+import {
+  defaultOrderFilters,
+  filterOrders,
+  fulfillmentStatusLabels,
+  fulfillmentStatusVariants,
+  orderNumber,
+  type OrderFilters,
+} from "@/lib/orders"
+import { paymentStatusLabels } from "@/lib/payment-status"
+import { lineItemName } from "@/lib/variants"
+
+export default function OrdersPage() {
+  const [isHydrated, setIsHydrated] = useState(false)
+  const [filters, setFilters] = useState<OrderFilters>(defaultOrderFilters)
+  const user = useAuthStore((state) => state.user)
+  const allOrders = useOrderStore((state) => state.orders)
+  const loadOrders = useOrderStore((state) => state.load)
+  const reorder = useReorder()
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setIsHydrated(true))
+    return () => cancelAnimationFrame(frame)
+  }, [])
+
+  // With the API, orders placed on other devices show up too.
+  const accountId = user?.id
+  useEffect(() => {
+    if (accountId) void loadOrders(accountId)
+  }, [accountId, loadOrders])
+
+  const accountOrders = useMemo(
+    () => (user ? allOrders.filter((order) => order.accountId === user.id) : []),
+    [allOrders, user],
+  )
+  const orders = useMemo(() => filterOrders(accountOrders, filters), [accountOrders, filters])
+  const isFiltered = filters !== defaultOrderFilters
+
+  if (!isHydrated) {
+    return (
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-16">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-[420px] w-full" />
+      </main>
+    )
+  }
+
+  return (
+    <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-10">
+      <Toaster position="top-center" theme="light" richColors />
+      <div className="flex items-center justify-between">
+        <Link href="/" className={buttonVariants({ variant: "outline" })}>
+          <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+          Voltar ao catálogo
+        </Link>
+      </div>
+
+      <header className="space-y-1">
+        <h1 className="text-3xl font-bold tracking-tight text-foreground">Meus pedidos</h1>
+        <p className="text-sm text-muted-foreground">Acompanhe entregas, pagamentos e compre de novo em um clique.</p>
+      </header>
+
+      {!user ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Entre na sua conta</CardTitle>
+            <CardDescription>Os pedidos ficam guardados na conta usada na compra.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/" className={buttonVariants()}>
+              Ir para a loja e entrar
+            </Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <form
+            className="grid gap-4 rounded-lg border border-border p-4 sm:grid-cols-[1fr,auto,auto,auto] sm:items-end"
+            onSubmit={(event) => event.preventDefault()}
+          >
+            <div className="grid gap-2">
+              <Label htmlFor="orderStatus">Situação</Label>
+              <select
+                id="orderStatus"
+                value={filters.fulfillment}
+                onChange={(event) =>
+                  setFilters({ ...filters, fulfillment: event.target.value as OrderFilters["fulfillment"] })
+                }
+                className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+              >
+                <option value="todos">Todas</option>
+                {Object.entries(fulfillmentStatusLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="orderFrom">De</Label>
+              <Input
+                id="orderFrom"
+                type="date"
+                value={filters.from ?? ""}
+                max={filters.to}
+                onChange={(event) => setFilters({ ...filters, from: event.target.value || undefined })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="orderTo">Até</Label>
+              <Input
+                id="orderTo"
+                type="date"
+                value={filters.to ?? ""}
+                min={filters.from}
+                onChange={(event) => setFilters({ ...filters, to: event.target.value || undefined })}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              disabled={!isFiltered}
+              onClick={() => setFilters(defaultOrderFilters)}
+            >
+              Limpar filtros
+            </Button>
+          </form>
+
+          {orders.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center gap-3 py-12 text-center">
+                <Package className="h-10 w-10 text-muted-foreground" aria-hidden="true" />
+                <p className="text-sm text-muted-foreground">
+                  {accountOrders.length === 0
+                    ? "Você ainda não fez nenhum pedido."
+                    : "Nenhum pedido encontrado com esses filtros."}
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <ul className="space-y-4">
+              {orders.map((order) => (
+                <li key={order.id}>
+                  <Card>
+                    <CardHeader className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                      <div className="space-y-1">
+                        <CardTitle className="text-lg">Pedido {orderNumber(order)}</CardTitle>
+                        <CardDescription>
+                          {order.createdAt.toLocaleDateString("pt-BR")} • Pagamento{" "}
+                          {paymentStatusLabels[order.paymentStatus]}
+                        </CardDescription>
+                      </div>
+                      <Badge variant={fulfillmentStatusVariants[order.fulfillment]} className="w-fit">
+                        {fulfillmentStatusLabels[order.fulfillment]}
+                      </Badge>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <p className="text-sm text-muted-foreground">
+                        {order.lines.map((line) => `${line.quantity}x ${lineItemName(line)}`).join(", ")}
+                      </p>
+                      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                        <p className="text-sm">
+                          Total <strong className="text-foreground">{formatMoney(order.totals.total)}</strong>
+                        </p>
+                        <div className="flex flex-col gap-2 sm:flex-row">
+                          <Button variant="outline" onClick={() => reorder(order)}>
+                            <RotateCcw className="h-4 w-4" aria-hidden="true" />
+                            Comprar novamente
+                          </Button>
+                          <Link href={`/pedidos/${order.id}`} className={buttonVariants()}>
+                            Ver detalhes
+                            <ChevronRight className="h-4 w-4" aria-hidden="true" />
+                          </Link>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </main>
+  )
+}
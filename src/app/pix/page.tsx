@@ -0,0 +1,88 @@
+'use client'
+
+import { Suspense } from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { ChevronLeft, Copy } from "lucide-react"
+import { QRCodeSVG } from "qrcode.react"
+import { toast, Toaster } from "sonner"
+
+import { Button, buttonVariants } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+
+/** QR Code of a Pix charge, opened from the e-mail; the code travels in the link. */
+function PixCode() {
+  const payload = useSearchParams().get("codigo") ?? ""
+
+  if (!payload) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Código Pix não encontrado</CardTitle>
+          <CardDescription>Abra o link do e-mail do pedido novamente ou gere um novo Pix no checkout.</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  const copyPayload = async () => {
+    try {
+      await navigator.clipboard.writeText(payload)
+      toast.success("Código Pix copiado.")
+    } catch {
+      toast.error("Não foi possível copiar. Selecione o código manualmente.")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pague com Pix</CardTitle>
+        <CardDescription>
+          Abra o app do seu banco, escolha pagar com Pix e escaneie o QR Code. O pedido é atualizado sozinho.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="mx-auto w-fit rounded-md border border-border bg-white p-3">
+          <QRCodeSVG value={payload} size={224} level="M" />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="pix-payload">Pix copia e cola</Label>
+          <div className="flex gap-2">
+            <Input
+              id="pix-payload"
+              readOnly
+              value={payload}
+              onFocus={(event) => event.target.select()}
+              className="font-mono text-xs"
+            />
+            <Button type="button" variant="outline" onClick={copyPayload}>
+              <Copy className="mr-2 h-4 w-4" aria-hidden="true" />
+              Copiar
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function PixPage() {
+  return (
+    <main className="mx-auto flex w-full max-w-xl flex-col gap-6 px-6 py-10">
+      <Toaster position="top-center" theme="light" richColors />
+      <div>
+        <Link href="/pedidos" className={buttonVariants({ variant: "outline" })}>
+          <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+          Meus pedidos
+        </Link>
+      </div>
+      <Suspense fallback={<Skeleton className="h-[420px] w-full" />}>
+        <PixCode />
+      </Suspense>
+    </main>
+  )
+}
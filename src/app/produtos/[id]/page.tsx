@@ -0,0 +1,239 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { ChevronLeft, Heart, ShoppingCart } from "lucide-react"
+import { Toaster, toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button, buttonVariants } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAuthStore } from "@/hooks/use-auth"
+import { useCartStore } from "@/hooks/use-cart"
+import { useCatalogStore } from "@/hooks/use-catalog"
+import { useCheckoutStore } from "@/hooks/use-checkout"
+import { useAvailableStock } from "@/hooks/use-inventory"
+import { useWishlist, useWishlistStore } from "@/hooks/use-wishlist"
+import { track } from "@/lib/analytics"
+import { categoryLabels } from "@/lib/catalog"
+import { formatCurrency } from "@/lib/format"
+import type { Product, ProductVariant } from "@/lib/mock-data"
+import { cn } from "@/lib/utils"
+import { defaultVariant, hasOptions, matchVariant, priceRange, variantName } from "@/lib/variants"
+import { wishlistKey } from "@/lib/wishlist"
+
+function VariantPicker({
+  product,
+  selected,
+  availableFor,
+  onSelect,
+}: {
+  product: Product
+  selected: ProductVariant
+  availableFor: (variant: ProductVariant) => number
+  onSelect: (variant: ProductVariant) => void
+}) {
+  /**
+   * Keeps the other picks when that combination exists; otherwise jumps to
+   * a variant with the clicked value, preferring one in stock.
+   */
+  const variantFor = (optionId: string, value: string) => {
+    const exact = matchVariant(product, { ...selected.options, [optionId]: value })
+    if (exact && availableFor(exact) > 0) return exact
+    const withValue = product.variants.filter((variant) => variant.options[optionId] === value)
+    return withValue.find((variant) => availableFor(variant) > 0) ?? exact ?? withValue[0] ?? null
+  }
+
+  return (
+    <div className="space-y-4">
+      {product.options.map((option) => (
+        <fieldset key={option.id} className="space-y-2">
+          <legend className="text-sm font-medium text-foreground">{option.label}</legend>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map((value) => {
+              const variant = variantFor(option.id, value)
+              const isActive = selected.options[option.id] === value
+              const soldOut = variant ? availableFor(variant) === 0 : true
+              return (
+                <Button
+                  key={value}
+                  type="button"
+                  variant={isActive ? "default" : "outline"}
+                  size="sm"
+                  aria-pressed={isActive}
+                  disabled={!variant}
+                  onClick={() => variant && onSelect(variant)}
+                  className={cn(soldOut && !isActive && "text-muted-foreground line-through")}
+                >
+                  {value}
+                </Button>
+              )
+            })}
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  )
+}
+
+export default function ProductPage() {
+  const { id } = useParams<{ id: string }>()
+  const router = useRouter()
+  const product = useCatalogStore((state) => state.products.find((item) => item.id === id) ?? null)
+  const [isHydrated, setIsHydrated] = useState(false)
+  const [selectedSku, setSelectedSku] = useState<string | null>(null)
+  const cartItems = useCartStore((state) => state.items)
+  const addItem = useCartStore((state) => state.addItem)
+  const checkoutKey = useCheckoutStore((state) => state.idempotencyKey)
+  const setCheckoutStep = useCheckoutStore((state) => state.setStep)
+  const availableFor = useAvailableStock(checkoutKey)
+  const user = useAuthStore((state) => state.user)
+  const wishlist = useWishlist(user?.id ?? null)
+  const toggleWishlist = useWishlistStore((state) => state.toggle)
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setIsHydrated(true))
+    return () => cancelAnimationFrame(frame)
+  }, [])
+
+  const productId = product?.id
+  useEffect(() => {
+    if (productId) track({ type: "product_viewed", productId })
+  }, [productId])
+
+  if (!isHydrated) {
+    return (
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-16">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-[420px] w-full" />
+      </main>
+    )
+  }
+
+  if (!product) {
+    return (
+      <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-16">
+        <Card>
+          <CardHeader>
+            <CardTitle>Produto não encontrado</CardTitle>
+            <CardDescription>Este produto não está mais no catálogo.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/" className={buttonVariants({ variant: "outline" })}>
+              <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+              Voltar ao catálogo
+            </Link>
+          </CardContent>
+        </Card>
+      </main>
+    )
+  }
+
+  const variant =
+    product.variants.find((item) => item.sku === selectedSku) ??
+    product.variants.find((item) => availableFor(item) > 0) ??
+    defaultVariant(product)
+  const available = availableFor(variant)
+  const inCart = cartItems.find((item) => item.variant.sku === variant.sku)?.quantity ?? 0
+  const range = priceRange(product)
+
+  const handleAdd = () => {
+    const name = variantName(product, variant)
+    if (inCart >= available) {
+      toast.error(
+        available === 0 ? `${name} está esgotado.` : "Você já tem no carrinho todas as unidades disponíveis.",
+      )
+      return
+    }
+    addItem(product, variant, available)
+    toast.success(`${name} adicionado ao carrinho`)
+  }
+
+  // Single-version products are saved by product, as from the catalog.
+  const wishlistEntry = { productId: product.id, sku: hasOptions(product) ? variant.sku : undefined }
+  const isWished = wishlist.some((entry) => wishlistKey(entry) === wishlistKey(wishlistEntry))
+
+  const handleWishlist = () => {
+    if (!user) {
+      toast.info("Entre na sua conta para usar a lista de desejos.")
+      return
+    }
+    const added = toggleWishlist(user.id, wishlistEntry)
+    const name = variantName(product, variant)
+    toast.success(added ? `${name} salvo na lista de desejos` : `${name} removido da lista de desejos`)
+  }
+
+  return (
+    <main className="mx-auto flex w-full max-w-4xl flex-col gap-6 px-6 py-10">
+      <Toaster position="top-center" theme="light" richColors />
+      <div className="flex items-center justify-between">
+        <Link href="/" className={buttonVariants({ variant: "outline" })}>
+          <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+          Voltar ao catálogo
+        </Link>
+        {cartItems.length > 0 ? (
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setCheckoutStep("cart")
+              router.push("/")
+            }}
+          >
+            <ShoppingCart className="h-4 w-4" aria-hidden="true" />
+            Ver carrinho ({cartItems.reduce((sum, item) => sum + item.quantity, 0)})
+          </Button>
+        ) : null}
+      </div>
+
+      <Card>
+        <CardHeader className="space-y-2">
+          <Badge variant="outline" className="w-fit">
+            {categoryLabels[product.category]}
+          </Badge>
+          <CardTitle className="text-2xl">{product.name}</CardTitle>
+          <CardDescription>{product.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {product.options.length > 0 ? (
+            <VariantPicker
+              product={product}
+              selected={variant}
+              availableFor={availableFor}
+              onSelect={(item) => setSelectedSku(item.sku)}
+            />
+          ) : null}
+
+          <div className="flex flex-col gap-4 rounded-lg border border-border p-4 sm:flex-row sm:items-end sm:justify-between">
+            <div className="space-y-1">
+              <p className="text-2xl font-semibold text-foreground">{formatCurrency(variant.price)}</p>
+              {range.min !== range.max ? (
+                <p className="text-xs text-muted-foreground">
+                  Preços de {formatCurrency(range.min)} a {formatCurrency(range.max)} conforme as opções
+                </p>
+              ) : null}
+              <p className="text-xs text-muted-foreground">SKU {variant.sku}</p>
+              <p className={cn("text-xs", available === 0 ? "text-destructive" : "text-muted-foreground")}>
+                {available === 0
+                  ? "Sem unidades disponíveis no momento"
+                  : `Disponível: ${available} unidade${available > 1 ? "s" : ""}`}
+                {inCart > 0 ? ` • ${inCart} no carrinho` : ""}
+              </p>
+            </div>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Button variant="outline" size="lg" onClick={handleWishlist} aria-pressed={isWished}>
+                <Heart className={cn("h-4 w-4", isWished && "fill-current text-rose-500")} aria-hidden="true" />
+                {isWished ? "Na lista de desejos" : "Lista de desejos"}
+              </Button>
+              <Button size="lg" onClick={handleAdd} disabled={inCart >= available}>
+                <ShoppingCart className="h-4 w-4" aria-hidden="true" />
+                {available === 0 ? "Esgotado" : inCart >= available ? "Limite no carrinho" : "Adicionar ao carrinho"}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
@@ -0,0 +1,81 @@
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { categoryLabels } from "@/lib/catalog"
+import type { ProductCategory } from "@/lib/mock-data"
+import type { FieldErrors } from "@/lib/schemas"
+
+export interface ProductFieldValues {
+  name: string
+  description: string
+  category: ProductCategory
+  image: string
+}
+
+export const fieldClassName =
+  "rounded-md border border-input bg-transparent px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-[3px] focus-visible:ring-ring/50"
+
+/** Name, description, category and image of a product, shared by the back-office forms. */
+export function ProductFields({
+  idPrefix,
+  values,
+  errors,
+  onChange,
+}: {
+  idPrefix: string
+  values: ProductFieldValues
+  errors: FieldErrors
+  onChange: (values: ProductFieldValues) => void
+}) {
+  return (
+    <>
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}Name`}>Nome</Label>
+        <Input
+          id={`${idPrefix}Name`}
+          value={values.name}
+          aria-invalid={Boolean(errors.name)}
+          onChange={(event) => onChange({ ...values, name: event.target.value })}
+        />
+        {errors.name ? <p className="text-xs text-destructive">{errors.name}</p> : null}
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor={`${idPrefix}Category`}>Categoria</Label>
+        <select
+          id={`${idPrefix}Category`}
+          value={values.category}
+          onChange={(event) => onChange({ ...values, category: event.target.value as ProductCategory })}
+          className={`h-9 ${fieldClassName}`}
+        >
+          {Object.entries(categoryLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="grid gap-2 sm:col-span-2">
+        <Label htmlFor={`${idPrefix}Description`}>Descrição</Label>
+        <textarea
+          id={`${idPrefix}Description`}
+          rows={3}
+          value={values.description}
+          aria-invalid={Boolean(errors.description)}
+          onChange={(event) => onChange({ ...values, description: event.target.value })}
+          className={`py-2 ${fieldClassName}`}
+        />
+        {errors.description ? <p className="text-xs text-destructive">{errors.description}</p> : null}
+      </div>
+      <div className="grid gap-2 sm:col-span-2">
+        <Label htmlFor={`${idPrefix}Image`}>Imagem</Label>
+        <Input
+          id={`${idPrefix}Image`}
+          value={values.image}
+          placeholder="/products/foto.jpg"
+          aria-invalid={Boolean(errors.image)}
+          onChange={(event) => onChange({ ...values, image: event.target.value })}
+        />
+        {errors.image ? <p className="text-xs text-destructive">{errors.image}</p> : null}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,52 @@
+import { addMoney, formatMoney } from "@/lib/money"
+import { pricingConfig, type OrderTotals } from "@/lib/pricing"
+
+/** Price breakdown of an order, shared by the checkout steps and the order pages. */
+export function SummaryLines({ summary }: { summary: OrderTotals }) {
+  const discount = addMoney(summary.lineDiscount, summary.orderDiscount)
+
+  return (
+    <dl className="space-y-1 text-sm text-muted-foreground">
+      <div className="flex items-center justify-between">
+        <dt>Subtotal</dt>
+        <dd className="font-medium text-foreground">{formatMoney(summary.subtotal)}</dd>
+      </div>
+      {summary.coupon && discount > 0 ? (
+        <div className="flex items-center justify-between text-emerald-700">
+          <dt>Desconto ({summary.coupon.code})</dt>
+          <dd className="font-medium">-{formatMoney(discount)}</dd>
+        </div>
+      ) : null}
+      {summary.coupon?.freeShipping ? (
+        <div className="flex items-center justify-between text-emerald-700">
+          <dt>
+            Frete{summary.freight ? ` ${summary.freight.carrier}` : ""} ({summary.coupon.code})
+          </dt>
+          <dd className="font-medium">Grátis</dd>
+        </div>
+      ) : summary.freight ? (
+        <div className="flex items-center justify-between">
+          <dt>Frete {summary.freight.carrier}</dt>
+          <dd className="font-medium text-foreground">{formatMoney(summary.shipping)}</dd>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between">
+          <dt>Frete</dt>
+          <dd>Calculado na entrega</dd>
+        </div>
+      )}
+      {summary.pixDiscount > 0 ? (
+        <div className="flex items-center justify-between text-emerald-700">
+          <dt>Desconto Pix ({pricingConfig.pixDiscountPercent}%)</dt>
+          <dd className="font-medium">-{formatMoney(summary.pixDiscount)}</dd>
+        </div>
+      ) : null}
+      {summary.interest > 0 ? (
+        <div className="flex items-center justify-between">
+          <dt>Juros do cartão</dt>
+          <dd className="font-medium text-foreground">{formatMoney(summary.interest)}</dd>
+        </div>
+      ) : null}
+    </dl>
+  )
+}
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from "react"
+
+import { apiRequest } from "@/lib/api-client"
+
+type Loaded<T> = { path: string; data: T | null; error: string | null }
+
+/**
+ * Reads a back-office route handler. `data` is null while the path loads;
+ * `replace` swaps in the copy a write returned.
+ */
+export const useAdminData = <T>(path: string) => {
+  const [loaded, setLoaded] = useState<Loaded<T> | null>(null)
+
+  useEffect(() => {
+    let active = true
+    apiRequest<T>(path)
+      .then((data) => {
+        if (active) setLoaded({ path, data, error: null })
+      })
+      .catch((error: unknown) => {
+        if (active) setLoaded({ path, data: null, error: error instanceof Error ? error.message : null })
+      })
+    return () => {
+      active = false
+    }
+  }, [path])
+
+  const replace = useCallback((data: T) => setLoaded({ path, data, error: null }), [path])
+  const current = loaded?.path === path ? loaded : null
+
+  return { data: current?.data ?? null, error: current?.error ?? null, replace }
+}
@@ -1,32 +1,55 @@
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
 
-import { mockUsers, type User } from "@/lib/mock-data"
-import type { Account, AuthCredentials } from "@/lib/types"
+import { flushCartSync } from "@/hooks/use-cart"
+import { apiRequest, usesApi } from "@/lib/api-client"
+import { mockUsers, type ShippingAddress, type User } from "@/lib/mock-data"
+import {
+  authCredentialsSchema,
+  firstErrorMessage,
+  getFieldErrors,
+  registerCredentialsSchema,
+} from "@/lib/schemas"
+import type { Account, AuthCredentials, LocalAccount } from "@/lib/types"
 
 const defaultPassword = "senha123"
 
-const seedAccounts: Record<string, Account> = mockUsers.reduce(
+const seedAccounts: Record<string, LocalAccount> = mockUsers.reduce(
   (acc, user) => ({
     ...acc,
     [user.email]: { ...user, password: defaultPassword },
   }),
-  {} as Record<string, Account>,
+  {} as Record<string, LocalAccount>,
 )
 
 type AuthState = {
   user: Account | null
-  accounts: Record<string, Account>
+  /** Accounts of the local mode only; with the API they live on the server. */
+  accounts: Record<string, LocalAccount>
   loading: boolean
   error: string | null
   login: (credentials: AuthCredentials) => Promise<boolean>
   register: (credentials: AuthCredentials) => Promise<boolean>
-  logout: () => void
+  logout: () => Promise<void>
+  saveAddress: (address: ShippingAddress) => void
+  /** Signs out a persisted user whose server session is gone. */
+  restoreSession: () => Promise<void>
   clearError: () => void
 }
 
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 
+/** The user kept in the session, without the password of a local account. */
+const toAccount = ({ id, name, email, document, phone, address, role }: Account): Account => ({
+  id,
+  name,
+  email,
+  document,
+  phone,
+  address,
+  role,
+})
+
 export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
@@ -34,12 +57,34 @@ export const useAuthStore = create<AuthState>()(
       accounts: seedAccounts,
       loading: false,
       error: null,
-      async login({ email, password }) {
+      async login(credentials) {
+        const validation = authCredentialsSchema.safeParse(credentials)
+        if (!validation.success) {
+          set({ error: firstErrorMessage(getFieldErrors(authCredentialsSchema, credentials)) })
+          return false
+        }
+
+        const { email, password } = validation.data
         set({ loading: true, error: null })
+
+        if (usesApi()) {
+          try {
+            const { user } = await apiRequest<{ user: Account }>("/api/auth/login", {
+              method: "POST",
+              body: JSON.stringify({ email, password }),
+            })
+            set({ user, loading: false })
+            return true
+          } catch (error) {
+            set({ loading: false, error: error instanceof Error ? error.message : null })
+            return false
+          }
+        }
+
         await sleep(850)
         const { accounts } = get()
 
-        const account = accounts[email.toLowerCase()]
+        const account = accounts[email]
 
         if (!account || account.password !== password) {
           set({
@@ -49,14 +94,35 @@ export const useAuthStore = create<AuthState>()(
           return false
         }
 
-        set({ user: account, loading: false })
+        set({ user: toAccount(account), loading: false })
         return true
       },
-      async register({ email, name, password }) {
+      async register(credentials) {
+        const validation = registerCredentialsSchema.safeParse(credentials)
+        if (!validation.success) {
+          set({ error: firstErrorMessage(getFieldErrors(registerCredentialsSchema, credentials)) })
+          return false
+        }
+
+        const { email: normalizedEmail, name, password } = validation.data
         set({ loading: true, error: null })
+
+        if (usesApi()) {
+          try {
+            const { user } = await apiRequest<{ user: Account }>("/api/auth/register", {
+              method: "POST",
+              body: JSON.stringify({ email: normalizedEmail, name, password }),
+            })
+            set({ user, loading: false })
+            return true
+          } catch (error) {
+            set({ loading: false, error: error instanceof Error ? error.message : null })
+            return false
+          }
+        }
+
         await sleep(1000)
 
-        const normalizedEmail = email.toLowerCase()
         const { accounts } = get()
 
         if (accounts[normalizedEmail]) {
@@ -67,25 +133,52 @@ export const useAuthStore = create<AuthState>()(
           return false
         }
 
-        const newAccount: Account = {
+        const newAccount: LocalAccount = {
           id: `user-${Date.now()}`,
-          name: name ?? normalizedEmail.split("@")[0],
+          name,
           email: normalizedEmail,
           document: "000.000.000-00",
           phone: "+55 11 90000-0000",
-          password: password ?? defaultPassword,
+          password,
         }
 
         set({
           accounts: { ...accounts, [normalizedEmail]: newAccount },
-          user: newAccount,
+          user: toAccount(newAccount),
           loading: false,
         })
         return true
       },
-      logout() {
+      async logout() {
+        if (usesApi()) {
+          // The last cart changes are saved while the session is still valid.
+          await flushCartSync()
+          await apiRequest("/api/auth/logout", { method: "POST" }).catch(() => null)
+        }
         set({ user: null })
       },
+      saveAddress(address) {
+        const { user, accounts } = get()
+        if (!user) return
+        const updated = { ...user, address }
+        if (usesApi()) {
+          set({ user: updated })
+          // Only a suggestion for the next order; a failed save is not worth interrupting checkout.
+          void apiRequest("/api/auth/me", { method: "PATCH", body: JSON.stringify({ address }) }).catch(() => null)
+          return
+        }
+        const account = accounts[user.email]
+        set({ user: updated, accounts: account ? { ...accounts, [user.email]: { ...account, address } } : accounts })
+      },
+      async restoreSession() {
+        if (!usesApi() || !get().user) return
+        try {
+          const { user } = await apiRequest<{ user: Account }>("/api/auth/me")
+          set({ user })
+        } catch {
+          set({ user: null })
+        }
+      },
       clearError() {
         if (get().error) {
           set({ error: null })
@@ -94,14 +187,28 @@ export const useAuthStore = create<AuthState>()(
     }),
     {
       name: "checkout-auth",
-      partialize: (state) => ({
-        user: state.user,
-        accounts: state.accounts,
-      }),
+      version: 1,
+      // Passwords used to be kept on the signed-in user too.
+      migrate: (persisted) => {
+        const state = persisted as Pick<AuthState, "user" | "accounts">
+        return {
+          ...state,
+          user: state.user ? toAccount(state.user) : null,
+          accounts: usesApi() ? seedAccounts : state.accounts,
+        } as AuthState
+      },
+      partialize: (state) =>
+        usesApi()
+          ? { user: state.user }
+          : {
+              user: state.user,
+              accounts: state.accounts,
+            },
       onRehydrateStorage: () => (state) => {
         if (state) {
           state.loading = false
           state.error = null
+          void state.restoreSession()
         }
       },
     },
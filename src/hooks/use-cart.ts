@@ -1,76 +1,325 @@
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
 
+import { ensureCatalog } from "@/hooks/use-catalog"
+import { track } from "@/lib/analytics"
+import { apiRequest, usesApi } from "@/lib/api-client"
+import { mergeCarts, type CartMergeLine } from "@/lib/cart-merge"
+import { mergeCartChanges, revalidateCart, type CartChange } from "@/lib/cart-revalidation"
+import { normalizeCouponCode } from "@/lib/coupons"
+import { toMoney } from "@/lib/money"
 import type { CartItem } from "@/lib/types"
-import type { Product } from "@/lib/mock-data"
+import type { Product, ProductVariant } from "@/lib/mock-data"
+import { defaultVariant, findBySku, findProduct, findVariant } from "@/lib/variants"
 
 type CartState = {
   items: CartItem[]
-  addItem: (product: Product) => void
-  updateQuantity: (productId: string, quantity: number) => void
-  removeItem: (productId: string) => void
+  /** Code typed by the customer; re-evaluated whenever the cart changes. */
+  couponCode: string | null
+  /** `limit` is the live availability; defaults to the variant stock. */
+  addItem: (product: Product, variant: ProductVariant, limit?: number) => void
+  updateQuantity: (sku: string, quantity: number, limit?: number) => void
+  removeItem: (sku: string) => void
   clear: () => void
+  applyCoupon: (code: string) => void
+  removeCoupon: () => void
   setItems: (items: CartItem[]) => void
+  /** Adds lines on top of the cart, summing quantities up to `availableFor`. Returns the units added. */
+  addItems: (items: CartItem[], availableFor?: (variant: ProductVariant) => number) => number
+  /** Differences from the catalog the customer has not acknowledged yet. */
+  changes: CartChange[]
+  /**
+   * Refreshes lines against the current catalog and `availableFor` (catalog
+   * stock by default). Returns the changes found in this pass.
+   */
+  revalidate: (availableFor?: (variant: ProductVariant) => number) => CartChange[]
+  acknowledgeChanges: () => void
+  /** Lines parked out of the cart; they keep the quantity but not the price they had. */
+  savedForLater: CartItem[]
+  saveForLater: (sku: string) => void
+  /**
+   * Moves a parked line back into the cart at the current catalog price,
+   * up to `limit` units. Returns the quantity moved, 0 when none could be.
+   */
+  moveToCart: (sku: string, limit?: number) => number
+  removeSaved: (sku: string) => void
+  /** Account that owns the active cart; null for a guest cart. */
+  accountId: string | null
+  /** Carts of signed-out accounts, restored on their next login. */
+  savedCarts: Record<string, SavedCart>
+  /** Guest lines merged by the last login, until the customer dismisses the summary. */
+  mergeSummary: CartMergeLine[] | null
+  /**
+   * Puts the active cart away for its account and makes the next account's
+   * cart active. A guest cart is merged into the account cart on login;
+   * signing out starts an empty guest cart. Returns the merged guest lines.
+   * With the API the account cart comes from the server, and the copy kept
+   * in the browser is used only when the server cannot be reached.
+   */
+  switchAccount: (
+    accountId: string | null,
+    availableFor?: (variant: ProductVariant) => number,
+  ) => Promise<CartMergeLine[]>
+  dismissMergeSummary: () => void
 }
 
+type SavedCart = Pick<CartState, "items" | "couponCode" | "savedForLater">
+
+/** Cart line as exchanged with `/api/cart`: only the SKU, product data comes from the catalog. */
+type RemoteCartLine = { sku: string; quantity: number; updatedAt: number }
+
+type RemoteCart = { items: RemoteCartLine[]; couponCode: string | null; savedForLater: RemoteCartLine[] }
+
+const toRemoteLine = ({ variant, quantity, updatedAt }: CartItem): RemoteCartLine => ({
+  sku: variant.sku,
+  quantity,
+  updatedAt,
+})
+
+/** Reads the lines against the server's catalog; see `ensureCatalog`. */
+const fromRemoteLines = (lines: RemoteCartLine[]) =>
+  lines.flatMap((line): CartItem[] => {
+    const listed = findBySku(line.sku)
+    return listed ? [{ ...listed, quantity: line.quantity, updatedAt: line.updatedAt }] : []
+  })
+
+/** The account cart saved on the server, or null when it cannot be read. */
+const fetchCart = async (): Promise<SavedCart | null> => {
+  try {
+    const cart = await apiRequest<RemoteCart>("/api/cart")
+    return {
+      items: fromRemoteLines(cart.items),
+      couponCode: cart.couponCode,
+      savedForLater: fromRemoteLines(cart.savedForLater),
+    }
+  } catch {
+    return null
+  }
+}
+
+/** Cart line as saved by earlier versions: a product copy, without a variant before v2 or a timestamp before v3. */
+type PersistedCartItem = { product: { id: string }; variant?: { sku: string }; quantity: number; updatedAt?: number }
+
 export const useCartStore = create<CartState>()(
   persist(
     (set, get) => ({
       items: [],
-      addItem: (product) => {
+      couponCode: null,
+      changes: [],
+      savedForLater: [],
+      accountId: null,
+      savedCarts: {},
+      mergeSummary: null,
+      addItem: (product, variant, limit = variant.stock) => {
         const existing = get().items
-        const itemIndex = existing.findIndex((item) => item.product.id === product.id)
+        const itemIndex = existing.findIndex((item) => item.variant.sku === variant.sku)
 
         if (itemIndex >= 0) {
           const updated = [...existing]
-          updated[itemIndex] = {
-            ...updated[itemIndex],
-            quantity: Math.min(product.stock, updated[itemIndex].quantity + 1),
+          const quantity = Math.min(limit, updated[itemIndex].quantity + 1)
+          if (quantity > updated[itemIndex].quantity) {
+            track({ type: "added_to_cart", productId: product.id, sku: variant.sku, price: toMoney(variant.price) })
           }
+          updated[itemIndex] = { ...updated[itemIndex], quantity, updatedAt: Date.now() }
           set({ items: updated })
           return
         }
 
+        if (limit < 1) return
+        track({ type: "added_to_cart", productId: product.id, sku: variant.sku, price: toMoney(variant.price) })
         set({
           items: [
             ...existing,
             {
               product,
+              variant,
               quantity: 1,
+              updatedAt: Date.now(),
             },
           ],
         })
       },
-      updateQuantity: (productId, quantity) => {
+      updateQuantity: (sku, quantity, limit) => {
         if (quantity <= 0) {
-          set({ items: get().items.filter((item) => item.product.id !== productId) })
+          set({ items: get().items.filter((item) => item.variant.sku !== sku) })
           return
         }
 
         set({
           items: get().items.map((item) =>
-            item.product.id === productId
-              ? { ...item, quantity: Math.min(item.product.stock, quantity) }
+            item.variant.sku === sku
+              ? { ...item, quantity: Math.min(limit ?? item.variant.stock, quantity), updatedAt: Date.now() }
               : item,
           ),
         })
       },
-      removeItem: (productId) => {
+      removeItem: (sku) => {
         set({
-          items: get().items.filter((item) => item.product.id !== productId),
+          items: get().items.filter((item) => item.variant.sku !== sku),
         })
       },
-      clear: () => set({ items: [] }),
+      clear: () => set({ items: [], couponCode: null, changes: [] }),
+      applyCoupon: (code) => set({ couponCode: normalizeCouponCode(code) }),
+      removeCoupon: () => set({ couponCode: null }),
       setItems: (items) => set({ items }),
+      addItems: (items, availableFor) => {
+        const before = cartQuantity(get().items)
+        const merged = mergeCarts(get().items, items, availableFor, "sum")
+        set({ items: merged.items })
+        return cartQuantity(merged.items) - before
+      },
+      revalidate: (availableFor) => {
+        const { items, changes } = revalidateCart(get().items, availableFor)
+        set((state) => ({ items, changes: mergeCartChanges(state.changes, changes) }))
+        return changes
+      },
+      acknowledgeChanges: () => set({ changes: [] }),
+      saveForLater: (sku) => {
+        const { items, savedForLater } = get()
+        const line = items.find((item) => item.variant.sku === sku)
+        if (!line) return
+        set({
+          items: items.filter((item) => item.variant.sku !== sku),
+          savedForLater: [
+            { ...line, updatedAt: Date.now() },
+            ...savedForLater.filter((item) => item.variant.sku !== sku),
+          ],
+        })
+      },
+      moveToCart: (sku, limit) => {
+        const { items, savedForLater } = get()
+        const line = savedForLater.find((item) => item.variant.sku === sku)
+        const current = findBySku(sku)
+        if (!line || !current) return 0
+        const inCart = items.find((item) => item.variant.sku === sku)?.quantity ?? 0
+        const quantity = Math.min(line.quantity, (limit ?? current.variant.stock) - inCart)
+        if (quantity < 1) return 0
+        set({
+          items: [
+            ...items.filter((item) => item.variant.sku !== sku),
+            { ...current, quantity: inCart + quantity, updatedAt: Date.now() },
+          ],
+          // Units that did not fit stay parked.
+          savedForLater: savedForLater.flatMap((item) =>
+            item.variant.sku !== sku
+              ? [item]
+              : item.quantity > quantity
+                ? [{ ...item, quantity: item.quantity - quantity }]
+                : [],
+          ),
+        })
+        return quantity
+      },
+      removeSaved: (sku) =>
+        set({ savedForLater: get().savedForLater.filter((item) => item.variant.sku !== sku) }),
+      switchAccount: async (accountId, availableFor) => {
+        const current = get().accountId
+        if (current === accountId) return []
+        const catalogReady = await ensureCatalog()
+        const remote = accountId && usesApi() && catalogReady ? await fetchCart() : null
+        // Another switch finished while the server cart was loading.
+        if (get().accountId !== current) return []
+
+        const { items, couponCode, savedForLater, savedCarts } = get()
+        const carts = current ? { ...savedCarts, [current]: { items, couponCode, savedForLater } } : savedCarts
+        const reset = { changes: [], mergeSummary: null }
+        if (!accountId) {
+          set({ ...reset, accountId, items: [], couponCode: null, savedForLater: [], savedCarts: carts })
+          return []
+        }
+
+        const saved = remote ?? carts[accountId]
+        const remaining = { ...carts }
+        delete remaining[accountId]
+        // Only a guest cart comes along; another account's cart stays with it.
+        const guest = current ? { items: [], couponCode: null, savedForLater: [] } : { items, couponCode, savedForLater }
+        const merged = mergeCarts(saved?.items ?? [], guest.items, availableFor)
+        const accountSaved = saved?.savedForLater ?? []
+        const accountSkus = new Set(accountSaved.map((item) => item.variant.sku))
+        set({
+          ...reset,
+          accountId,
+          items: merged.items,
+          couponCode: guest.couponCode ?? saved?.couponCode ?? null,
+          savedForLater: [
+            ...guest.savedForLater.filter((line) => !accountSkus.has(line.variant.sku)),
+            ...accountSaved,
+          ],
+          savedCarts: remaining,
+          mergeSummary: merged.lines.length > 0 ? merged.lines : null,
+        })
+        // The saved cart may predate catalog changes.
+        if (catalogReady) get().revalidate(availableFor)
+        return merged.lines
+      },
+      dismissMergeSummary: () => set({ mergeSummary: null }),
     }),
     {
       name: "checkout-cart",
+      version: 3,
+      // Carts saved before variants get the current catalog entries, using the default variant.
+      migrate: (persisted, version) => {
+        const state = persisted as { items: PersistedCartItem[]; couponCode?: string | null }
+        return {
+          ...state,
+          items: state.items.flatMap((item) => {
+            if (version >= 2) return [{ ...item, updatedAt: item.updatedAt ?? 0 }]
+            const product = findProduct(item.product.id)
+            if (!product) return []
+            const variant = item.variant ? findVariant(product, item.variant.sku) : defaultVariant(product)
+            return variant ? [{ product, variant, quantity: item.quantity, updatedAt: 0 }] : []
+          }),
+        } as CartState
+      },
+      // Saved lines keep the prices and stock of when they were added. They are
+      // checked once the server's catalog is in, not against the bundled one.
+      onRehydrateStorage: () => (state) => {
+        if (!state) return
+        void ensureCatalog().then((ready) => {
+          if (ready) useCartStore.getState().revalidate()
+        })
+      },
     },
   ),
 )
 
-export const cartTotal = (items: CartItem[]) =>
-  items.reduce((acc, { product, quantity }) => acc + product.price * quantity, 0)
-
 export const cartQuantity = (items: CartItem[]) =>
   items.reduce((acc, { quantity }) => acc + quantity, 0)
+
+/** Wait after the last cart change before saving the account cart on the server. */
+const cartSyncDelayMs = 500
+
+let pendingSync: ReturnType<typeof setTimeout> | null = null
+
+const pushCart = async () => {
+  pendingSync = null
+  const { items, couponCode, savedForLater } = useCartStore.getState()
+  const cart: RemoteCart = {
+    items: items.map(toRemoteLine),
+    couponCode,
+    savedForLater: savedForLater.map(toRemoteLine),
+  }
+  // A failed save is retried with the next change; the browser keeps its own copy meanwhile.
+  await apiRequest("/api/cart", { method: "PUT", body: JSON.stringify(cart) }).catch(() => null)
+}
+
+/** Saves a pending cart change right away, e.g. before the session ends. */
+export const flushCartSync = async () => {
+  if (!pendingSync) return
+  clearTimeout(pendingSync)
+  await pushCart()
+}
+
+if (typeof window !== "undefined" && usesApi()) {
+  useCartStore.subscribe((state, previous) => {
+    if (!state.accountId) return
+    const changed =
+      state.accountId !== previous.accountId ||
+      state.items !== previous.items ||
+      state.couponCode !== previous.couponCode ||
+      state.savedForLater !== previous.savedForLater
+    if (!changed) return
+    if (pendingSync) clearTimeout(pendingSync)
+    pendingSync = setTimeout(() => void pushCart(), cartSyncDelayMs)
+  })
+}
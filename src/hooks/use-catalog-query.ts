@@ -0,0 +1,25 @@
+import { useCallback, useMemo } from "react"
+import { usePathname, useSearchParams } from "next/navigation"
+
+import { parseCatalogQuery, serializeCatalogQuery, type CatalogQuery } from "@/lib/catalog"
+
+/**
+ * Catalog filters kept in the query string, so searches survive reloads and
+ * can be shared. Updates replace the history entry without a navigation;
+ * changing any filter goes back to the first page.
+ */
+export const useCatalogQuery = () => {
+  const searchParams = useSearchParams()
+  const pathname = usePathname()
+  const query = useMemo(() => parseCatalogQuery(new URLSearchParams(searchParams.toString())), [searchParams])
+
+  const setQuery = useCallback(
+    (changes: Partial<CatalogQuery>) => {
+      const search = serializeCatalogQuery({ ...query, page: 1, ...changes })
+      window.history.replaceState(null, "", search ? `${pathname}?${search}` : pathname)
+    },
+    [query, pathname],
+  )
+
+  return [query, setQuery] as const
+}
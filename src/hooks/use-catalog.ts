@@ -0,0 +1,52 @@
+import { create } from "zustand"
+
+import { apiRequest, usesApi } from "@/lib/api-client"
+import { products as bundledProducts, type Product } from "@/lib/mock-data"
+import { setListedProducts } from "@/lib/variants"
+
+type CatalogState = {
+  /** The bundled demo catalog until the server's copy arrives. */
+  products: Product[]
+  /** Whether `products` is the server's copy; always true in the local mode, where the bundled catalog is the catalog. */
+  loaded: boolean
+  /** Reads products, prices and stock from the server; a no-op in the local mode. */
+  load: () => Promise<void>
+}
+
+/** The request in flight, shared by concurrent loads. */
+let pendingLoad: Promise<void> | null = null
+
+export const useCatalogStore = create<CatalogState>()((set) => ({
+  products: bundledProducts,
+  loaded: !usesApi(),
+  load: () => {
+    if (!usesApi()) return Promise.resolve()
+    pendingLoad ??= apiRequest<{ products: Product[] }>("/api/products")
+      .then(({ products }) => {
+        setListedProducts(products)
+        set({ products, loaded: true })
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        pendingLoad = null
+      })
+    return pendingLoad
+  },
+}))
+
+/**
+ * Waits for the server's catalog, loading it if needed. False when it cannot
+ * be read; checks against the bundled catalog would then report back-office
+ * products as discontinued and admin prices as changed.
+ */
+export const ensureCatalog = async () => {
+  const { loaded, load } = useCatalogStore.getState()
+  if (!loaded) await load()
+  return useCatalogStore.getState().loaded
+}
+
+// The back office changes products and stock while the store is open.
+if (typeof window !== "undefined" && usesApi()) {
+  void useCatalogStore.getState().load()
+  window.addEventListener("focus", () => void useCatalogStore.getState().load())
+}
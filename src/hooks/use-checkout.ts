@@ -1,33 +1,114 @@
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
 
-import type { PaymentAttempt, PaymentMethod } from "@/lib/mock-data"
-import type { CheckoutFormValues, CheckoutStep } from "@/lib/types"
-
-type PaymentStatus = PaymentAttempt["status"]
+import { useAuthStore } from "@/hooks/use-auth"
+import { useInventoryStore } from "@/hooks/use-inventory"
+import { useOrderStore } from "@/hooks/use-orders"
+import { track } from "@/lib/analytics"
+import { createId } from "@/lib/ids"
+import type { PaymentAttempt, PaymentMethod, RefundRecord, ShippingAddress } from "@/lib/mock-data"
+import { inventoryConfig, type ReservationResult } from "@/lib/inventory"
+import { sumMoney, toMoney, toReais, type Money } from "@/lib/money"
+import { fulfillmentFor, type Order } from "@/lib/orders"
+import { getPaymentGateway, type GatewayRefund, type PaymentStatus } from "@/lib/payment-gateway"
+import { assertTransition, canTransition, isRefundableStatus } from "@/lib/payment-status"
+import { priceOrder, type OrderTotals, type PricedPayment } from "@/lib/pricing"
+import {
+  allocateRefund,
+  refundAmountFor,
+  validateRefundSelection,
+  type RefundSelection,
+} from "@/lib/refunds"
+import {
+  checkoutFormSchema,
+  shippingAddressSchema,
+  splitAmountSchema,
+  type CheckoutPayment,
+} from "@/lib/schemas"
+import {
+  buildPaymentLegs,
+  combineLegStatuses,
+  defaultSplitAmount,
+  isFailedStatus,
+  orderLegs,
+} from "@/lib/split-payment"
+import { acquireLock, processingLockName, releaseLock } from "@/lib/tab-lock"
+import { variantLabel } from "@/lib/variants"
+import type {
+  CartItem,
+  CheckoutFormValues,
+  CheckoutStep,
+  ShippingDraft,
+  SplitPaymentDraft,
+} from "@/lib/types"
 
 type CheckoutState = {
   step: CheckoutStep
   payment: CheckoutFormValues
+  shipping: ShippingDraft
+  split: SplitPaymentDraft | null
   status: PaymentStatus
   processing: boolean
   attempts: PaymentAttempt[]
   activeAttemptId: string | null
   error: string | null
+  /**
+   * Created when the shipping step opens; identifies one checkout submission
+   * and its stock reservation.
+   */
+  idempotencyKey: string | null
+  /** Order being paid; kept across retries so they land on the same order. */
+  orderId: string | null
+  /** Account that owns the state above; null while browsing as a guest. */
+  accountId: string | null
+  /** Checkout state of signed-out accounts, restored on their next login. */
+  sessions: Record<string, CheckoutSession>
+  /**
+   * Puts the current account's checkout away and brings back the next one's.
+   * A guest's step carries over to an account without saved state.
+   */
+  switchAccount: (accountId: string | null) => void
   setStep: (step: CheckoutStep) => void
   setPaymentMethod: (method: PaymentMethod) => void
   updatePayment: (values: Partial<CheckoutFormValues>) => void
+  updateShippingAddress: (values: Partial<ShippingAddress>) => void
+  selectCarrier: (carrierId: string) => void
+  /** Reserves the cart for this checkout, refreshing the hold when it already exists. */
+  holdStock: (items: CartItem[]) => ReservationResult
+  toggleSplit: (enabled: boolean, due: Money) => void
+  updateSplit: (values: { amount?: Money; payment?: Partial<CheckoutFormValues> }) => void
   reset: () => void
-  submitOrder: (total: number) => Promise<PaymentAttempt>
+  /** Charges the cart; the order is priced again from the items, coupon, freight and payment in the store. */
+  submitOrder: (summary: OrderTotals, items: CartItem[]) => Promise<PaymentAttempt | null>
   resume: (attemptId: string) => void
   retry: () => void
+  syncAttempt: (attemptId: string) => Promise<PaymentAttempt | null>
+  expireAttempt: (attemptId: string) => Promise<void>
+  cancelOrder: (attemptId: string) => Promise<void>
+  refundOrder: (attemptId: string, selection: RefundSelection[]) => Promise<RefundRecord | null>
 }
 
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
-
 const initialState: Omit<
   CheckoutState,
-  "setStep" | "setPaymentMethod" | "updatePayment" | "reset" | "submitOrder" | "resume"
+  | "accountId"
+  | "sessions"
+  | "switchAccount"
+  | "setStep"
+  | "setPaymentMethod"
+  | "updatePayment"
+  | "updateShippingAddress"
+  | "selectCarrier"
+  | "holdStock"
+  | "toggleSplit"
+  | "updateSplit"
+  | "reset"
+  | "submitOrder"
+  | "resume"
+  | "retry"
+  | "syncAttempt"
+  | "expireAttempt"
+  | "cancelOrder"
+  | "refundOrder"
 > = {
   step: "catalog",
   payment: {
@@ -37,21 +118,47 @@ const initialState: Omit<
     cardNumber: "",
     cardExpiration: "",
     cardCvv: "",
+    installments: 1,
     boletoDueDate: "",
     boletoInstructions: "",
   },
+  shipping: {
+    address: {
+      cep: "",
+      street: "",
+      number: "",
+      complement: "",
+      district: "",
+      city: "",
+      state: "",
+    },
+    carrierId: null,
+  },
+  split: null,
   status: "inicial",
   processing: false,
   attempts: [],
   activeAttemptId: null,
   error: null,
+  idempotencyKey: null,
+  orderId: null,
 }
 
-const paymentSuccessRates: Record<PaymentMethod, number> = {
-  pix: 0.85,
-  credit: 0.72,
-  boleto: 0.6,
-}
+type CheckoutSession = typeof initialState
+
+const sessionOf = (state: CheckoutState): CheckoutSession => ({
+  step: state.step,
+  payment: state.payment,
+  shipping: state.shipping,
+  split: state.split,
+  status: state.status,
+  processing: false,
+  attempts: state.attempts,
+  activeAttemptId: state.activeAttemptId,
+  error: state.error,
+  idempotencyKey: state.idempotencyKey,
+  orderId: state.orderId,
+})
 
 const paymentFailureMessages: Record<PaymentMethod, string> = {
   pix: "Pagamento Pix expirou. Gere um novo QR Code para tentar novamente.",
@@ -59,117 +166,748 @@ const paymentFailureMessages: Record<PaymentMethod, string> = {
   boleto: "Boleto não registrado a tempo. Escolha outro método ou tente novamente.",
 }
 
-const getRandomStatus = (method: PaymentMethod): PaymentStatus => {
-  const successRate = paymentSuccessRates[method] ?? 0.5
-  const random = Math.random()
+const gatewayErrorMessage = "Não foi possível comunicar com o gateway de pagamento. Tente novamente."
+
+const pendingMessages: Record<PaymentMethod, string> = {
+  pix: "Aguardando pagamento. Escaneie o QR Code ou use o código copia e cola.",
+  credit: "Transação em análise pelo emissor.",
+  boleto: "Aguardando compensação do boleto.",
+}
+
+const settledDetails = (method: PaymentMethod, status: PaymentStatus) => {
+  if (status === "pago") return "Pagamento confirmado! Pedido em preparação."
+  if (status === "processando") return pendingMessages[method]
+  return paymentFailureMessages[method]
+}
+
+const processingLockTtlMs = 30_000
+
+const processingElsewhereMessage =
+  "Outra aba já está processando um pagamento. Aguarde a conclusão antes de tentar novamente."
+
+const createIdempotencyKey = () => createId("checkout")
+
+/**
+ * Keeps the current key while it may still return a charge (no attempt yet,
+ * or one that is pending or paid); a failed or expired attempt gets a fresh
+ * key so the customer can pay again.
+ */
+const paymentKeyFor = (state: Pick<CheckoutState, "attempts" | "idempotencyKey">) => {
+  if (!state.idempotencyKey) return createIdempotencyKey()
+  const failed = state.attempts.some(
+    (item) => item.idempotencyKey === state.idempotencyKey && isClosedStatus(item.status),
+  )
+  return failed ? createIdempotencyKey() : state.idempotencyKey
+}
+
+/** Submissions in flight in this tab, by idempotency key. */
+const pendingSubmissions = new Map<string, Promise<PaymentAttempt | null>>()
+
+type VoidReason = "rollback" | "cancel"
+
+const voidDetails: Record<VoidReason, Record<"estornado" | "cancelado", string>> = {
+  rollback: {
+    estornado: "Pagamento estornado porque outra parte do pagamento falhou.",
+    cancelado: "Cobrança cancelada porque outra parte do pagamento falhou.",
+  },
+  cancel: {
+    estornado: "Pagamento estornado no cancelamento do pedido.",
+    cancelado: "Pedido cancelado antes da confirmação do pagamento.",
+  },
+}
+
+/** A pending leg is voided; a captured one is refunded in full. */
+const voidedStatus = (status: PaymentStatus) => (status === "processando" ? "cancelado" : "estornado")
+
+const isClosedStatus = (status: PaymentStatus) => isFailedStatus(status) || status === "cancelado"
+
+/** The failure that decided an order, ignoring legs rolled back because of it. */
+const orderFailureDetails = (legs: PaymentAttempt[]) =>
+  legs.find((leg) => isFailedStatus(leg.status) && !leg.rolledBack)?.details ?? null
+
+/** Paid orders take their units out of stock; closed ones give their hold back. */
+const syncStock = (legs: PaymentAttempt[]) => {
+  const order = legs[0]
+  if (!order?.idempotencyKey) return
+  const status = combineLegStatuses(legs.map((leg) => leg.status))
+  const inventory = useInventoryStore.getState()
+  if (status === "pago") {
+    inventory.commit(
+      order.idempotencyKey,
+      (order.items ?? []).map((item) => ({ sku: item.sku, quantity: item.quantity })),
+    )
+  } else if (isClosedStatus(status)) {
+    inventory.release(order.idempotencyKey)
+  }
+}
+
+/** Reports how each leg of a submission settled. */
+const trackOutcome = (legs: PaymentAttempt[]) => {
+  for (const leg of legs) {
+    if (leg.orderId) track({ type: "payment_outcome", orderId: leg.orderId, method: leg.method, status: leg.status })
+  }
+}
 
-  if (random <= successRate) return "pago"
-  if (random <= successRate + 0.1) return "expirado"
-  return "falhado"
+/** Keeps stock and the order in step with a payment update on its legs. */
+const syncOrder = (legs: PaymentAttempt[]) => {
+  syncStock(legs)
+  const order = useOrderStore.getState().orders.find((item) => item.id === legs[0]?.orderId)
+  const wasPending = order?.paymentStatus === "processando"
+  useOrderStore.getState().syncPayment(legs)
+  if (wasPending && combineLegStatuses(legs.map((leg) => leg.status)) !== "processando") trackOutcome(legs)
 }
 
+const reviveDate = (value: Date | string) => (value instanceof Date ? value : new Date(value))
+
+/** Brings an attempt read from storage back to its runtime shape. */
+const reviveAttempt = (attempt: PaymentAttempt): PaymentAttempt => ({
+  ...attempt,
+  createdAt: reviveDate(attempt.createdAt),
+  updatedAt: reviveDate(attempt.updatedAt),
+  pix: attempt.pix ? { ...attempt.pix, expiresAt: reviveDate(attempt.pix.expiresAt) } : undefined,
+  // Orders saved before variants keyed their lines by product id.
+  items: attempt.items?.map((item) => ({ ...item, sku: item.sku ?? item.productId, variant: item.variant ?? "" })),
+  refunds: attempt.refunds?.map((refund) => ({
+    ...refund,
+    createdAt: reviveDate(refund.createdAt),
+    items: refund.items.map((line) => ({
+      sku: line.sku ?? (line as { productId?: string }).productId ?? "",
+      quantity: line.quantity,
+    })),
+  })),
+})
+
+const checkoutStorageKey = "checkout-flow"
+
+/**
+ * Attempts saved by any tab of the same account, read straight from storage:
+ * the in-memory state may not have caught up with a charge another tab just
+ * made under the same idempotency key.
+ */
+const storedAttempts = (accountId: string | null): PaymentAttempt[] => {
+  if (typeof window === "undefined") return []
+  try {
+    const stored = JSON.parse(localStorage.getItem(checkoutStorageKey) ?? "null") as {
+      state?: Partial<CheckoutState>
+      version?: number
+    } | null
+    if (stored?.version !== 1 || (stored.state?.accountId ?? null) !== accountId) return []
+    return (stored.state?.attempts ?? []).map(reviveAttempt)
+  } catch {
+    return []
+  }
+}
+
+/** Converts the amounts a version 0 session kept in reais. */
+const toCents = (session: CheckoutSession): Pick<CheckoutSession, "attempts" | "split"> => ({
+  split: session.split ? { ...session.split, amount: toMoney(session.split.amount) } : null,
+  attempts: session.attempts.map((attempt) => ({
+    ...attempt,
+    installments: attempt.installments && {
+      ...attempt.installments,
+      installmentValue: toMoney(attempt.installments.installmentValue),
+      total: toMoney(attempt.installments.total),
+      interest: toMoney(attempt.installments.interest),
+    },
+    shipping: attempt.shipping && { ...attempt.shipping, price: toMoney(attempt.shipping.price) },
+  })),
+})
+
 export const useCheckoutStore = create<CheckoutState>()(
   persist(
-    (set, get) => ({
-      ...initialState,
-      setStep: (step) => set({ step }),
-      setPaymentMethod: (method) =>
-        set({
-          payment: { ...get().payment, paymentMethod: method },
-          error: null,
-        }),
-      updatePayment: (values) =>
-        set({
-          payment: { ...get().payment, ...values },
-          error: null,
-        }),
-      reset: () => set({ ...initialState }),
-      retry: () =>
-        set({
-          status: "inicial",
-          processing: false,
-          step: "payment",
-          error: null,
-        }),
-      resume: (attemptId) => {
-        const { attempts } = get()
-        const attempt = attempts.find((item) => item.id === attemptId)
-        if (!attempt) return
-        set({
-          activeAttemptId: attemptId,
-          status: attempt.status,
-          step: attempt.status === "pago" ? "status" : "payment",
-        })
-      },
-      async submitOrder(total) {
-        set({ processing: true, status: "processando", error: null })
-        await sleep(1400)
+    (set, get) => {
+      /** Authorizes and captures a single payment leg. Gateway errors become a failed attempt. */
+      const chargeLeg = async (
+        payment: CheckoutPayment,
+        priced: PricedPayment,
+        gatewayKey: string,
+        orderId: string,
+      ): Promise<PaymentAttempt> => {
+        const method = payment.paymentMethod
+        const installments = priced.installments ?? undefined
+        // The gateway and the refund records work in reais.
+        const amount = toReais(priced.charged)
+        const gateway = getPaymentGateway()
+        const createdAt = new Date()
+        let outcome: PaymentStatus
+        let transactionId: string | undefined
+        let pix: PaymentAttempt["pix"]
+        let boleto: PaymentAttempt["boleto"]
+        let details: string
+
+        try {
+          const authorization = await gateway.authorize({
+            orderId,
+            method,
+            amount,
+            installments: installments?.count,
+            idempotencyKey: gatewayKey,
+            boleto:
+              payment.paymentMethod === "boleto"
+                ? {
+                    dueDate: payment.boletoDueDate,
+                    instructions: payment.boletoInstructions,
+                  }
+                : undefined,
+          })
+          transactionId = authorization.transactionId
+          const transaction =
+            authorization.status === "processando"
+              ? await gateway.capture(authorization.transactionId)
+              : authorization
+          outcome = transaction.status
+          pix = transaction.pix
+          boleto = transaction.boleto
+          details = transaction.details ?? settledDetails(method, outcome)
+        } catch (error) {
+          outcome = "falhado"
+          details = error instanceof Error && error.message ? error.message : gatewayErrorMessage
+        }
+
+        return {
+          id: createId("attempt"),
+          method,
+          status: outcome,
+          createdAt,
+          updatedAt: new Date(),
+          details,
+          amount,
+          installments,
+          transactionId,
+          gateway: gateway.name,
+          pix,
+          boleto,
+        }
+      }
+
+      /** Cancels pending legs and refunds captured ones through the gateway. */
+      const voidLegs = (legs: PaymentAttempt[], reason: VoidReason) =>
+        Promise.all(
+          legs.map(async (leg): Promise<PaymentAttempt> => {
+            const status = voidedStatus(leg.status)
+            if (!canTransition(leg.status, status)) return leg
+            if (leg.transactionId) {
+              try {
+                await getPaymentGateway().cancel(leg.transactionId)
+              } catch {
+                // The leg is void on our side either way; reconciliation happens offline.
+              }
+            }
+            return {
+              ...leg,
+              status,
+              refundedAmount: status === "estornado" ? leg.amount : leg.refundedAmount,
+              rolledBack: reason === "rollback" || undefined,
+              updatedAt: new Date(),
+              details: voidDetails[reason][status],
+            }
+          }),
+        )
+
+      const rollbackLegs = (legs: PaymentAttempt[]) => voidLegs(legs, "rollback")
+
+      /**
+       * Re-evaluates a split order after one of its legs changed: a failed leg
+       * rolls the others back, and the order status follows the legs.
+       */
+      const settleSplit = async (splitId: string) => {
+        const legs = get().attempts.filter((item) => item.splitId === splitId)
+        const settled = legs.some((leg) => isFailedStatus(leg.status)) ? await rollbackLegs(legs) : legs
+        const status = combineLegStatuses(settled.map((leg) => leg.status))
 
-        if (total <= 0) {
+        set((state) => ({
+          attempts: state.attempts.map((item) => settled.find((leg) => leg.id === item.id) ?? item),
+          ...(settled.some((leg) => leg.id === state.activeAttemptId)
+            ? { status, error: isFailedStatus(status) ? orderFailureDetails(settled) : null }
+            : {}),
+        }))
+      }
+
+      const chargeOrder = async (summary: OrderTotals, items: CartItem[], idempotencyKey: string) => {
+        const { coupon, freight } = summary
+        set({ processing: true, status: "processando", error: null, idempotencyKey })
+
+        const reject = (details: string, step: CheckoutStep) => {
           const errorAttempt: PaymentAttempt = {
-            id: `attempt-${Date.now()}`,
+            id: createId("attempt"),
             method: get().payment.paymentMethod,
             status: "falhado",
             createdAt: new Date(),
             updatedAt: new Date(),
-            details: "Carrinho vazio. Adicione itens antes de finalizar.",
+            details,
           }
           set((state) => ({
             attempts: [...state.attempts, errorAttempt],
             processing: false,
             status: "falhado",
             activeAttemptId: errorAttempt.id,
-            step: "cart",
-            error: errorAttempt.details,
+            step,
+            error: details,
           }))
           return errorAttempt
         }
 
-        const method = get().payment.paymentMethod
-        const outcome = getRandomStatus(method)
-        const attempt: PaymentAttempt = {
-          id: `attempt-${Date.now()}`,
-          method,
-          status: outcome,
+        if (items.length === 0) {
+          return reject("Carrinho vazio. Adicione itens antes de finalizar.", "cart")
+        }
+
+        const customer = useAuthStore.getState().user
+        if (!customer) {
+          return reject("Entre na sua conta para finalizar o pedido.", "cart")
+        }
+
+        const { payment, split, shipping } = get()
+        const address = shippingAddressSchema.safeParse(shipping.address)
+        if (!address.success) {
+          return reject(address.error.issues[0]?.message ?? "Endereço de entrega inválido.", "shipping")
+        }
+        if (!freight) {
+          return reject("Escolha uma opção de frete para continuar.", "shipping")
+        }
+
+        const totals = priceOrder({ items, coupon, freight, payment, split })
+        if (split) {
+          const amountCheck = splitAmountSchema(totals.due).safeParse(split.amount)
+          if (!amountCheck.success) {
+            return reject(amountCheck.error.issues[0]?.message ?? "Valor da divisão inválido.", "payment")
+          }
+        }
+
+        const legs: { priced: PricedPayment; payment: CheckoutPayment }[] = []
+        for (const [index, leg] of buildPaymentLegs(totals.due, payment, split).entries()) {
+          const validation = checkoutFormSchema.safeParse(leg.payment)
+          if (!validation.success) {
+            return reject(
+              validation.error.issues[0]?.message ?? "Dados de pagamento inválidos.",
+              "payment",
+            )
+          }
+          legs.push({ priced: totals.payments[index], payment: validation.data })
+        }
+
+        const hold = useInventoryStore.getState().reserve(idempotencyKey, items)
+        if (!hold.ok) return reject(hold.error, "cart")
+
+        const orderId = get().orderId ?? createId("order")
+        const lines = items.map((item) => ({
+          productId: item.product.id,
+          sku: item.variant.sku,
+          name: item.product.name,
+          variant: variantLabel(item.product, item.variant),
+          unitPrice: item.variant.price,
+          quantity: item.quantity,
+        }))
+        const orderShipping = { address: address.data, quote: freight, price: totals.shipping }
+        const order: Order = {
+          id: orderId,
+          accountId: customer.id,
+          customer: { name: customer.name, email: customer.email, document: customer.document },
+          lines,
+          totals,
+          shipping: orderShipping,
+          attemptIds: [],
+          paymentStatus: "processando",
+          fulfillment: "aguardando_pagamento",
           createdAt: new Date(),
           updatedAt: new Date(),
-          details:
-            outcome === "pago"
-              ? "Pagamento confirmado! Pedido em preparação."
-              : paymentFailureMessages[method],
+        }
+        // The server prices the order before any leg is charged for it.
+        const refused = await useOrderStore.getState().open(order)
+        if (refused) {
+          useInventoryStore.getState().release(idempotencyKey)
+          return reject(refused, "cart")
+        }
+
+        // Legs are charged in order and the remaining ones are skipped once one fails.
+        const splitId = legs.length > 1 ? createId("split") : undefined
+        for (const leg of legs) {
+          track({
+            type: "payment_submitted",
+            orderId,
+            method: leg.priced.method,
+            split: Boolean(splitId),
+            total: leg.priced.charged,
+          })
+        }
+        const charged: PaymentAttempt[] = []
+        for (const [index, leg] of legs.entries()) {
+          const attempt = await chargeLeg(
+            leg.payment,
+            leg.priced,
+            splitId ? `${idempotencyKey}-${index + 1}` : idempotencyKey,
+            orderId,
+          )
+          charged.push({
+            ...attempt,
+            idempotencyKey,
+            orderId,
+            splitId,
+            leg: splitId ? { index: index + 1, count: legs.length } : undefined,
+          })
+          if (isFailedStatus(attempt.status)) break
         }
 
-        await sleep(800)
+        charged[0].items = lines
+        charged[0].coupon = coupon ?? undefined
+        charged[0].shipping = orderShipping
+        charged[0].totals = totals
+        const attempts =
+          splitId && charged.some((leg) => isFailedStatus(leg.status))
+            ? await rollbackLegs(charged)
+            : charged
+        const outcome = combineLegStatuses(attempts.map((leg) => leg.status))
+        if (outcome === "processando") {
+          useInventoryStore.getState().reserve(idempotencyKey, items, inventoryConfig.pendingPaymentTtlMs)
+        }
+        syncStock(attempts)
+        if (outcome !== "processando") trackOutcome(attempts)
+        useOrderStore.getState().place(
+          {
+            ...order,
+            attemptIds: attempts.map((leg) => leg.id),
+            paymentStatus: outcome,
+            fulfillment: fulfillmentFor("aguardando_pagamento", outcome),
+            updatedAt: new Date(),
+          },
+          attempts,
+        )
 
         set((state) => ({
-          attempts: [...state.attempts, attempt],
+          attempts: [...state.attempts, ...attempts],
           status: outcome,
           processing: false,
-          activeAttemptId: attempt.id,
+          orderId,
+          activeAttemptId: attempts[0].id,
           step: "status",
-          error: outcome === "pago" ? null : paymentFailureMessages[method],
+          error: isFailedStatus(outcome) ? orderFailureDetails(attempts) : null,
         }))
 
-        return attempt
-      },
-    }),
+        return attempts[0]
+      }
+
+      return {
+        ...initialState,
+        accountId: null,
+        sessions: {},
+        switchAccount: (accountId) => {
+          const state = get()
+          if (state.accountId === accountId) return
+          const sessions = state.accountId ? { ...state.sessions, [state.accountId]: sessionOf(state) } : state.sessions
+          const saved = accountId ? sessions[accountId] : undefined
+          const remaining = { ...sessions }
+          if (accountId) delete remaining[accountId]
+          const guestStep = state.accountId ? initialState.step : state.step
+          get().reset()
+          set({ ...(saved ?? { step: guestStep }), accountId, sessions: remaining })
+        },
+        setStep: (step) =>
+          set((state) => ({
+            step,
+            idempotencyKey:
+              step === "shipping" || step === "payment" ? paymentKeyFor(state) : state.idempotencyKey,
+          })),
+        setPaymentMethod: (method) => {
+          if (method !== get().payment.paymentMethod) track({ type: "payment_method_selected", method })
+          set({
+            payment: { ...get().payment, paymentMethod: method },
+            error: null,
+          })
+        },
+        updatePayment: (values) =>
+          set({
+            payment: { ...get().payment, ...values },
+            error: null,
+          }),
+        updateShippingAddress: (values) =>
+          set((state) => ({
+            shipping: { ...state.shipping, address: { ...state.shipping.address, ...values } },
+            error: null,
+          })),
+        selectCarrier: (carrierId) =>
+          set((state) => ({
+            shipping: { ...state.shipping, carrierId },
+            error: null,
+          })),
+        holdStock: (items) => {
+          const idempotencyKey = get().idempotencyKey ?? createIdempotencyKey()
+          set({ idempotencyKey })
+          return useInventoryStore.getState().reserve(idempotencyKey, items)
+        },
+        toggleSplit: (enabled, due) =>
+          set({
+            split: enabled
+              ? {
+                  amount: defaultSplitAmount(due),
+                  payment: { ...initialState.payment, paymentMethod: "credit" },
+                }
+              : null,
+            error: null,
+          }),
+        updateSplit: (values) => {
+          const { split } = get()
+          if (!split) return
+          set({
+            split: {
+              amount: values.amount ?? split.amount,
+              payment: { ...split.payment, ...values.payment },
+            },
+            error: null,
+          })
+        },
+        reset: () => {
+          // An abandoned checkout gives its reservation back right away.
+          const { idempotencyKey, attempts } = get()
+          if (idempotencyKey && !attempts.some((item) => item.idempotencyKey === idempotencyKey)) {
+            useInventoryStore.getState().release(idempotencyKey)
+          }
+          set({ ...initialState })
+        },
+        retry: () =>
+          set({
+            status: "inicial",
+            processing: false,
+            step: "payment",
+            error: null,
+            idempotencyKey: createIdempotencyKey(),
+          }),
+        resume: (attemptId) => {
+          const { attempts } = get()
+          const attempt = attempts.find((item) => item.id === attemptId)
+          if (!attempt) return
+          const legs = orderLegs(attempts, attempt)
+          const status = combineLegStatuses(legs.map((leg) => leg.status))
+          set((state) => ({
+            activeAttemptId: legs[0].id,
+            status,
+            step: status === "pago" ? "status" : "payment",
+            idempotencyKey: status === "pago" ? state.idempotencyKey : paymentKeyFor(state),
+          }))
+        },
+        submitOrder(summary, items) {
+          const known = new Set(get().attempts.map((item) => item.id))
+          const fromOtherTabs = storedAttempts(get().accountId).filter((item) => !known.has(item.id))
+          if (fromOtherTabs.length > 0) set((state) => ({ attempts: [...state.attempts, ...fromOtherTabs] }))
+
+          const idempotencyKey = get().idempotencyKey ?? createIdempotencyKey()
+          const original = get().attempts.filter((item) => item.idempotencyKey === idempotencyKey)
+          if (original.length > 0) {
+            const status = combineLegStatuses(original.map((leg) => leg.status))
+            set({
+              activeAttemptId: original[0].id,
+              status,
+              step: "status",
+              error: isFailedStatus(status) ? orderFailureDetails(original) : null,
+            })
+            return Promise.resolve(original[0])
+          }
+
+          const pending = pendingSubmissions.get(idempotencyKey)
+          if (pending) return pending
+
+          if (!acquireLock(processingLockName, processingLockTtlMs)) {
+            set({ error: processingElsewhereMessage })
+            return Promise.resolve(null)
+          }
+
+          const submission = chargeOrder(summary, items, idempotencyKey).finally(() => {
+            pendingSubmissions.delete(idempotencyKey)
+            releaseLock(processingLockName)
+          })
+          pendingSubmissions.set(idempotencyKey, submission)
+          return submission
+        },
+        async syncAttempt(attemptId) {
+          const attempt = get().attempts.find((item) => item.id === attemptId)
+          if (!attempt?.transactionId || attempt.status !== "processando") return attempt ?? null
+
+          let status: PaymentStatus
+          let details: string | undefined
+          try {
+            const transaction = await getPaymentGateway().getStatus(attempt.transactionId)
+            status = transaction.status
+            details = transaction.details
+          } catch {
+            // The gateway may not know the transaction anymore (e.g. after a reload).
+            return attempt
+          }
+
+          // Ignore stale or out-of-order updates the state machine does not allow.
+          if (!canTransition(attempt.status, status)) return attempt
+          const updated: PaymentAttempt = {
+            ...attempt,
+            status,
+            updatedAt: new Date(),
+            details: details ?? settledDetails(attempt.method, status),
+          }
+          set((state) => ({
+            attempts: state.attempts.map((item) => (item.id === attemptId ? updated : item)),
+            ...(state.activeAttemptId === attemptId && !updated.splitId
+              ? { status, error: status === "pago" ? null : updated.details }
+              : {}),
+          }))
+          if (updated.splitId) await settleSplit(updated.splitId)
+          syncOrder(orderLegs(get().attempts, updated))
+          return get().attempts.find((item) => item.id === attemptId) ?? updated
+        },
+        async expireAttempt(attemptId) {
+          const attempt = get().attempts.find((item) => item.id === attemptId)
+          if (!attempt || attempt.status !== "processando") return
+
+          if (attempt.transactionId) {
+            try {
+              await getPaymentGateway().expire(attempt.transactionId)
+            } catch {
+              // The charge is void once its deadline passes, even if the gateway could not be told.
+            }
+          }
+
+          const details = paymentFailureMessages[attempt.method]
+          set((state) => ({
+            attempts: state.attempts.map((item) =>
+              item.id === attemptId
+                ? { ...item, status: "expirado", updatedAt: new Date(), details }
+                : item,
+            ),
+            ...(state.activeAttemptId === attemptId && !attempt.splitId
+              ? { status: "expirado", error: details }
+              : {}),
+          }))
+          if (attempt.splitId) await settleSplit(attempt.splitId)
+          syncOrder(orderLegs(get().attempts, attempt))
+        },
+        async cancelOrder(attemptId) {
+          const attempt = get().attempts.find((item) => item.id === attemptId)
+          if (!attempt) return
+          const legs = orderLegs(get().attempts, attempt)
+          if (combineLegStatuses(legs.map((leg) => leg.status)) !== "processando") {
+            set({ error: "Somente pedidos aguardando pagamento podem ser cancelados." })
+            return
+          }
+
+          set({ processing: true, error: null })
+          const cancelled = await voidLegs(legs, "cancel")
+          set((state) => ({
+            attempts: state.attempts.map((item) => cancelled.find((leg) => leg.id === item.id) ?? item),
+            processing: false,
+            ...(cancelled.some((leg) => leg.id === state.activeAttemptId)
+              ? { status: combineLegStatuses(cancelled.map((leg) => leg.status)) }
+              : {}),
+          }))
+          syncOrder(cancelled)
+        },
+        async refundOrder(attemptId, selection) {
+          const attempt = get().attempts.find((item) => item.id === attemptId)
+          if (!attempt) return null
+          const legs = orderLegs(get().attempts, attempt)
+          const order = legs[0]
+          const items = selection.filter((item) => item.quantity > 0)
+
+          const invalid = !isRefundableStatus(combineLegStatuses(legs.map((leg) => leg.status)))
+            ? "Somente pedidos pagos podem ser estornados."
+            : validateRefundSelection(order, items)
+          if (invalid) {
+            set({ error: invalid })
+            return null
+          }
+
+          set({ processing: true, error: null })
+          const refunds = new Map<string, GatewayRefund>()
+          let failure: string | null = null
+          for (const allocation of allocateRefund(legs, refundAmountFor(legs, order, items))) {
+            try {
+              if (!allocation.leg.transactionId) throw new Error(gatewayErrorMessage)
+              const refund = await getPaymentGateway().refund(allocation.leg.transactionId, toReais(allocation.amount))
+              assertTransition(allocation.leg.status, refund.status)
+              refunds.set(allocation.leg.id, refund)
+            } catch (error) {
+              failure = error instanceof Error && error.message ? error.message : gatewayErrorMessage
+              break
+            }
+          }
+
+          if (refunds.size === 0) {
+            set({ processing: false, error: failure })
+            return null
+          }
+
+          const allocations = legs.flatMap((leg) => {
+            const refund = refunds.get(leg.id)
+            return refund ? [{ attemptId: leg.id, refundId: refund.refundId, amount: refund.amount }] : []
+          })
+          const record: RefundRecord = {
+            id: createId("refund"),
+            amount: toReais(sumMoney(allocations.map((allocation) => toMoney(allocation.amount)))),
+            // A refund interrupted halfway is recorded by amount only.
+            items: failure ? [] : items,
+            createdAt: new Date(),
+            allocations,
+          }
+          const updatedLegs = legs.map((leg): PaymentAttempt => {
+            const refund = refunds.get(leg.id)
+            return {
+              ...leg,
+              ...(refund
+                ? { status: refund.status, refundedAmount: refund.refundedAmount, updatedAt: new Date() }
+                : {}),
+              ...(leg.id === order.id ? { refunds: [...(order.refunds ?? []), record] } : {}),
+            }
+          })
+
+          set((state) => ({
+            attempts: state.attempts.map((item) => updatedLegs.find((leg) => leg.id === item.id) ?? item),
+            processing: false,
+            error: failure,
+            ...(updatedLegs.some((leg) => leg.id === state.activeAttemptId)
+              ? { status: combineLegStatuses(updatedLegs.map((leg) => leg.status)) }
+              : {}),
+          }))
+          useOrderStore.getState().syncPayment(updatedLegs)
+          return record
+        },
+      }
+    },
     {
-      name: "checkout-flow",
+      name: checkoutStorageKey,
+      version: 1,
+      // Version 0 stored installment plans, freight and split amounts in reais.
+      migrate: (persisted, version) => {
+        const state = persisted as CheckoutSession & { sessions?: Record<string, CheckoutSession> }
+        if (version >= 1) return state as unknown as CheckoutState
+        return {
+          ...state,
+          ...toCents(state),
+          sessions: Object.fromEntries(
+            Object.entries(state.sessions ?? {}).map(([accountId, session]) => [
+              accountId,
+              { ...session, ...toCents(session) },
+            ]),
+          ),
+        } as unknown as CheckoutState
+      },
       onRehydrateStorage: () => (state) => {
         if (!state) return
         state.processing = false
-        state.attempts = state.attempts.map((attempt) => ({
-          ...attempt,
-          createdAt:
-            attempt.createdAt instanceof Date ? attempt.createdAt : new Date(attempt.createdAt),
-          updatedAt:
-            attempt.updatedAt instanceof Date ? attempt.updatedAt : new Date(attempt.updatedAt),
-        }))
+        state.attempts = state.attempts.map(reviveAttempt)
+        state.sessions = Object.fromEntries(
+          Object.entries(state.sessions ?? {}).map(([accountId, session]) => [
+            accountId,
+            { ...session, attempts: session.attempts.map(reviveAttempt) },
+          ]),
+        )
       },
     },
   ),
 )
 
+// A payment made in another tab shows up here, and its attempts are not overwritten by this tab's next save.
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (event) => {
+    if (event.key === checkoutStorageKey && pendingSubmissions.size === 0) {
+      void useCheckoutStore.persist.rehydrate()
+    }
+  })
+}
+
 export const currentAttempt = () => {
   const state = useCheckoutStore.getState()
   return state.attempts.find((attempt) => attempt.id === state.activeAttemptId) ?? null
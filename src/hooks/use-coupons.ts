@@ -0,0 +1,25 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+type CouponState = {
+  /** Coupon codes used on paid orders, by account id. */
+  redemptions: Record<string, string[]>
+  redeem: (accountId: string, code: string) => void
+}
+
+export const useCouponStore = create<CouponState>()(
+  persist(
+    (set, get) => ({
+      redemptions: {},
+      redeem: (accountId, code) => {
+        const { redemptions } = get()
+        const used = redemptions[accountId] ?? []
+        if (used.includes(code)) return
+        set({ redemptions: { ...redemptions, [accountId]: [...used, code] } })
+      },
+    }),
+    {
+      name: "checkout-coupons",
+    },
+  ),
+)
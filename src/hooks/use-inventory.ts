@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from "react"
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+import { usesApi } from "@/lib/api-client"
+import {
+  availableStock,
+  isReservationActive,
+  reserveStock,
+  type InventoryLedger,
+  type ReservationResult,
+  type StockLine,
+} from "@/lib/inventory"
+import type { ProductVariant } from "@/lib/mock-data"
+import type { CartItem } from "@/lib/types"
+
+type InventoryState = InventoryLedger & {
+  reserve: (key: string, items: CartItem[], ttlMs?: number) => ReservationResult
+  /** Records a paid checkout once, taking its units out of stock and dropping its hold. */
+  commit: (key: string, items: StockLine[]) => void
+  release: (key: string) => void
+}
+
+const inventoryStorageKey = "checkout-inventory"
+
+export const useInventoryStore = create<InventoryState>()(
+  persist(
+    (set, get) => ({
+      sold: {},
+      reservations: [],
+      committed: [],
+      reserve: (key, items, ttlMs) => {
+        const result = reserveStock(get(), key, items, ttlMs)
+        if (result.ok) {
+          set((state) => ({
+            reservations: [
+              ...state.reservations.filter((item) => item.key !== key && isReservationActive(item)),
+              result.reservation,
+            ],
+          }))
+        }
+        return result
+      },
+      commit: (key, items) => {
+        const { committed } = get()
+        if (committed.includes(key)) return
+        set((state) => ({
+          // With the API the server takes paid units out of the catalog stock itself.
+          sold: usesApi()
+            ? state.sold
+            : items.reduce((acc, item) => ({ ...acc, [item.sku]: (acc[item.sku] ?? 0) + item.quantity }), state.sold),
+          reservations: state.reservations.filter((item) => item.key !== key),
+          committed: [...committed, key],
+        }))
+      },
+      release: (key) =>
+        set((state) => ({ reservations: state.reservations.filter((item) => item.key !== key) })),
+    }),
+    {
+      name: inventoryStorageKey,
+    },
+  ),
+)
+
+// Other tabs sell and reserve from the same stock.
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", (event) => {
+    if (event.key === inventoryStorageKey) void useInventoryStore.persist.rehydrate()
+  })
+}
+
+/**
+ * Live availability for the current checkout, ignoring its own hold and
+ * refreshed as other holds expire.
+ */
+export const useAvailableStock = (ownKey: string | null) => {
+  const sold = useInventoryStore((state) => state.sold)
+  const reservations = useInventoryStore((state) => state.reservations)
+  const committed = useInventoryStore((state) => state.committed)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 5000)
+    return () => clearInterval(interval)
+  }, [])
+
+  return useCallback(
+    (variant: ProductVariant) => availableStock({ sold, reservations, committed }, variant, ownKey, now),
+    [sold, reservations, committed, ownKey, now],
+  )
+}
@@ -0,0 +1,142 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+import { useCatalogStore } from "@/hooks/use-catalog"
+import { apiRequest, usesApi } from "@/lib/api-client"
+import type { PaymentAttempt } from "@/lib/mock-data"
+import { attemptRecord, fulfillmentFor, orderPaymentStatus, paymentDocuments, type Order } from "@/lib/orders"
+
+type OrderState = {
+  /** Orders of every account, in placement order. */
+  orders: Order[]
+  /**
+   * Saves a submission on the server before any charge; the server prices it
+   * again and registers charges only for its legs. Resolves with the reason
+   * it was turned away, or null; always null in the local mode.
+   */
+  open: (order: Order) => Promise<string | null>
+  /**
+   * Records a charged submission. Retrying an unpaid order replaces its
+   * snapshot and links the new attempts after the earlier ones. The server
+   * also keeps the `legs` and e-mails their Pix and boletos to the customer.
+   */
+  place: (order: Order, legs?: PaymentAttempt[]) => void
+  /** Follows a payment update on the legs of an order's latest submission. */
+  syncPayment: (legs: PaymentAttempt[]) => void
+  /** Replaces the account's orders with the ones saved on the server; a no-op in the local mode. */
+  load: (accountId: string) => Promise<void>
+  /** Puts the server's copy of an order in place of the local one. */
+  replace: (order: Order) => void
+}
+
+const reviveDate = (value: Date | string) => (value instanceof Date ? value : new Date(value))
+
+/** Orders arrive from the route handlers with ISO dates. */
+const reviveOrder = (order: Order): Order => ({
+  ...order,
+  createdAt: reviveDate(order.createdAt),
+  updatedAt: reviveDate(order.updatedAt),
+})
+
+/** A paid order took its units out of the server's stock. */
+const afterSave = (order: Order) => {
+  if (order.paymentStatus === "pago") void useCatalogStore.getState().load()
+  return reviveOrder(order)
+}
+
+export const useOrderStore = create<OrderState>()(
+  persist(
+    (set, get) => ({
+      orders: [],
+      open: async ({ id, lines, totals, shipping }) => {
+        if (!usesApi()) return null
+        try {
+          const saved = await apiRequest<Order>("/api/orders", {
+            method: "POST",
+            body: JSON.stringify({ id, lines, totals, shipping }),
+          })
+          get().replace(reviveOrder(saved))
+          return null
+        } catch (error) {
+          // Prices or stock may have changed since the catalog was read.
+          void useCatalogStore.getState().load()
+          return error instanceof Error ? error.message : "Não foi possível registrar o pedido."
+        }
+      },
+      place: (order, legs = []) => {
+        const existing = get().orders.find((item) => item.id === order.id)
+        const placed: Order = existing
+          ? {
+              ...order,
+              createdAt: existing.createdAt,
+              attemptIds: [...existing.attemptIds, ...order.attemptIds],
+            }
+          : order
+        set((state) => ({
+          orders: existing
+            ? state.orders.map((item) => (item.id === order.id ? placed : item))
+            : [...state.orders, placed],
+        }))
+        if (!usesApi()) return
+        // The server links the attempts and reads the payment status from its own charges;
+        // its copy replaces the local one.
+        void apiRequest<Order>(`/api/orders/${order.id}`, {
+          method: "PATCH",
+          body: JSON.stringify({
+            attemptIds: order.attemptIds,
+            attempts: legs.map(attemptRecord),
+            documents: paymentDocuments(legs),
+          }),
+        })
+          .then((saved) => get().replace(afterSave(saved)))
+          .catch(() => null)
+      },
+      syncPayment: (legs) => {
+        const orderId = legs[0]?.orderId
+        const order = get().orders.find((item) => item.id === orderId)
+        const paymentStatus = orderPaymentStatus(legs)
+        if (orderId && usesApi() && paymentStatus !== order?.paymentStatus) {
+          // The server settles the order again from its own charges, also orders not loaded in this browser.
+          void apiRequest<Order>(`/api/orders/${orderId}`, {
+            method: "PATCH",
+            body: JSON.stringify({ attempts: legs.map(attemptRecord) }),
+          })
+            .then((saved) => get().replace(afterSave(saved)))
+            .catch(() => null)
+        }
+        // Legs of an earlier, superseded submission no longer decide the order.
+        const latestId = order?.attemptIds[order.attemptIds.length - 1]
+        if (!order || !legs.some((leg) => leg.id === latestId)) return
+        if (paymentStatus === order.paymentStatus) return
+        const updated: Order = {
+          ...order,
+          paymentStatus,
+          fulfillment: fulfillmentFor(order.fulfillment, paymentStatus),
+          updatedAt: new Date(),
+        }
+        set((state) => ({ orders: state.orders.map((item) => (item.id === order.id ? updated : item)) }))
+      },
+      load: async (accountId) => {
+        if (!usesApi()) return
+        const { orders } = await apiRequest<{ orders: Order[] }>("/api/orders").catch(() => ({ orders: null }))
+        if (!orders) return
+        set((state) => ({
+          orders: [...state.orders.filter((order) => order.accountId !== accountId), ...orders.map(reviveOrder)],
+        }))
+      },
+      replace: (order) =>
+        set((state) => ({
+          orders: state.orders.some((item) => item.id === order.id)
+            ? state.orders.map((item) => (item.id === order.id ? order : item))
+            : [...state.orders, order],
+        })),
+    }),
+    {
+      name: "checkout-orders",
+      onRehydrateStorage: () => (state) => {
+        if (!state) return
+        state.orders = state.orders.map(reviveOrder)
+      },
+    },
+  ),
+)
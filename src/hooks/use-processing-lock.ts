@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from "react"
+
+import { isLockedByAnotherTab, processingLockName, subscribeToLock } from "@/lib/tab-lock"
+
+/** True while another tab of this browser is submitting a payment. */
+export const useProcessingElsewhere = () =>
+  useSyncExternalStore(
+    (callback) => subscribeToLock(processingLockName, callback),
+    () => isLockedByAnotherTab(processingLockName),
+    () => false,
+  )
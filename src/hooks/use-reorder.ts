@@ -0,0 +1,39 @@
+import { useRouter } from "next/navigation"
+import { toast } from "sonner"
+
+import { useCartStore } from "@/hooks/use-cart"
+import { useCheckoutStore } from "@/hooks/use-checkout"
+import { useAvailableStock } from "@/hooks/use-inventory"
+import { reorderItems, type Order } from "@/lib/orders"
+
+/**
+ * "Comprar novamente": puts the lines of an order back in the cart at
+ * today's prices, within the stock still available, and opens the cart.
+ */
+export const useReorder = () => {
+  const router = useRouter()
+  const checkoutKey = useCheckoutStore((state) => state.idempotencyKey)
+  const setCheckoutStep = useCheckoutStore((state) => state.setStep)
+  const addItems = useCartStore((state) => state.addItems)
+  const availableFor = useAvailableStock(checkoutKey)
+
+  return (order: Order) => {
+    const { items, unavailable } = reorderItems(order)
+    const added = addItems(items, availableFor)
+    if (unavailable.length > 0) {
+      toast.warning(`Fora do catálogo: ${unavailable.join(", ")}.`)
+    }
+    if (added === 0) {
+      toast.error("Nenhum item deste pedido está disponível no momento.")
+      return
+    }
+    const requested = items.reduce((sum, item) => sum + item.quantity, 0)
+    toast.success(
+      added < requested
+        ? `${added} de ${requested} unidades adicionadas; o restante está sem estoque.`
+        : "Itens do pedido adicionados ao carrinho.",
+    )
+    setCheckoutStep("cart")
+    router.push("/")
+  }
+}
@@ -0,0 +1,51 @@
+import { create } from "zustand"
+import { persist } from "zustand/middleware"
+
+import type { WishlistEntry } from "@/lib/types"
+import { wishlistKey } from "@/lib/wishlist"
+
+type WishlistState = {
+  /** Entries by account id, newest first. */
+  lists: Record<string, WishlistEntry[]>
+  /** Adds the entry or removes it when already saved; returns whether it is now on the list. */
+  toggle: (accountId: string, entry: Pick<WishlistEntry, "productId" | "sku">) => boolean
+  remove: (accountId: string, key: string) => void
+}
+
+const emptyList: WishlistEntry[] = []
+
+export const useWishlistStore = create<WishlistState>()(
+  persist(
+    (set, get) => ({
+      lists: {},
+      toggle: (accountId, entry) => {
+        const list = get().lists[accountId] ?? []
+        const key = wishlistKey(entry)
+        const saved = list.some((item) => wishlistKey(item) === key)
+        set((state) => ({
+          lists: {
+            ...state.lists,
+            [accountId]: saved
+              ? list.filter((item) => wishlistKey(item) !== key)
+              : [{ productId: entry.productId, sku: entry.sku, addedAt: Date.now() }, ...list],
+          },
+        }))
+        return !saved
+      },
+      remove: (accountId, key) =>
+        set((state) => ({
+          lists: {
+            ...state.lists,
+            [accountId]: (state.lists[accountId] ?? []).filter((item) => wishlistKey(item) !== key),
+          },
+        })),
+    }),
+    {
+      name: "checkout-wishlist",
+    },
+  ),
+)
+
+/** Wishlist of the account, or an empty list for guests. */
+export const useWishlist = (accountId: string | null) =>
+  useWishlistStore((state) => (accountId ? (state.lists[accountId] ?? emptyList) : emptyList))
@@ -0,0 +1,6 @@
+/** Runs once when the server starts; a production server without an admin password does not come up. */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+  const { getAdminPassword, missingAdminPasswordMessage } = await import("@/lib/account-registry")
+  if (!getAdminPassword()) throw new Error(missingAdminPasswordMessage)
+}
@@ -0,0 +1,171 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "node:crypto"
+
+import { readDatabase, updateDatabase, type StoredAccount, type StoredSession } from "./database"
+import { createId } from "./ids"
+import { mockUsers, type ShippingAddress } from "./mock-data"
+import type { Account } from "./types"
+
+export const sessionConfig = {
+  cookieName: "colmeia_session",
+  ttlMs: 30 * 24 * 60 * 60 * 1000,
+  /** Password of the seeded demo accounts. */
+  seedPassword: "senha123",
+}
+
+/** Back-office account created on a fresh database. */
+export const adminConfig = {
+  name: "Equipe Colmeia",
+  email: process.env.ADMIN_EMAIL ?? "admin@colmeia.com.br",
+}
+
+/**
+ * Password of the back-office account. Development falls back to a
+ * well-known value so the demo works without configuration; production has
+ * none, and the server refuses to start without `ADMIN_PASSWORD`.
+ */
+export const getAdminPassword = () =>
+  process.env.ADMIN_PASSWORD ?? (process.env.NODE_ENV === "production" ? null : "admin123")
+
+export const missingAdminPasswordMessage = "Defina ADMIN_PASSWORD para criar a conta de administração em produção."
+
+export type RegisterResult = { ok: true; account: StoredAccount } | { ok: false; reason: "email_taken" }
+
+export const hashPassword = (password: string) => {
+  const salt = randomBytes(16).toString("hex")
+  return `${salt}:${scryptSync(password, salt, 64).toString("hex")}`
+}
+
+const verifyPassword = (password: string, passwordHash: string) => {
+  const [salt, hash] = passwordHash.split(":")
+  if (!salt || !hash) return false
+  const expected = Buffer.from(hash, "hex")
+  const actual = scryptSync(password, salt, expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+/** The demo customers exist on a fresh database, like in the local mode, next to the admin. */
+const seedAccounts = () => {
+  const { accounts } = readDatabase()
+  const missing = mockUsers.filter((user) => !accounts[user.email])
+  const missingAdmin = !accounts[adminConfig.email]
+  if (missing.length === 0 && !missingAdmin) return
+  const adminPassword = getAdminPassword()
+  if (missingAdmin && !adminPassword) throw new Error(missingAdminPasswordMessage)
+  updateDatabase((database) => {
+    for (const user of missing) {
+      database.accounts[user.email] = {
+        ...user,
+        role: "cliente",
+        passwordHash: hashPassword(sessionConfig.seedPassword),
+        createdAt: new Date().toISOString(),
+      }
+    }
+    if (missingAdmin && adminPassword) {
+      database.accounts[adminConfig.email] = {
+        id: "user-admin",
+        name: adminConfig.name,
+        email: adminConfig.email,
+        document: "000.000.000-00",
+        phone: "+55 11 90000-0000",
+        role: "admin",
+        passwordHash: hashPassword(adminPassword),
+        createdAt: new Date().toISOString(),
+      }
+    }
+  })
+}
+
+/** What the client gets back: the account without its password hash. */
+export const publicAccount = ({ id, name, email, document, phone, address, role }: StoredAccount): Account => ({
+  id,
+  name,
+  email,
+  document,
+  phone,
+  address,
+  role: role ?? "cliente",
+})
+
+export const isAdmin = (account: StoredAccount) => account.role === "admin"
+
+/** The account for the e-mail and password, or null when either is wrong. */
+export const authenticate = (email: string, password: string) => {
+  seedAccounts()
+  const account = readDatabase().accounts[email]
+  return account && verifyPassword(password, account.passwordHash) ? account : null
+}
+
+export const registerAccount = (input: { name: string; email: string; password: string }): RegisterResult => {
+  seedAccounts()
+  if (readDatabase().accounts[input.email]) return { ok: false, reason: "email_taken" }
+
+  const account: StoredAccount = {
+    id: createId("user"),
+    name: input.name,
+    email: input.email,
+    document: "000.000.000-00",
+    phone: "+55 11 90000-0000",
+    role: "cliente",
+    passwordHash: hashPassword(input.password),
+    createdAt: new Date().toISOString(),
+  }
+  updateDatabase((database) => {
+    database.accounts[account.email] = account
+  })
+  return { ok: true, account }
+}
+
+export const createSession = (account: StoredAccount) => {
+  const session: StoredSession = {
+    token: randomBytes(32).toString("hex"),
+    accountId: account.id,
+    expiresAt: new Date(Date.now() + sessionConfig.ttlMs).toISOString(),
+  }
+  updateDatabase((database) => {
+    database.sessions[session.token] = session
+  })
+  return session
+}
+
+/** The httpOnly cookie that carries a session to the route handlers. */
+export const sessionCookie = (session: StoredSession) => ({
+  name: sessionConfig.cookieName,
+  value: session.token,
+  httpOnly: true,
+  sameSite: "lax" as const,
+  path: "/",
+  expires: new Date(session.expiresAt),
+})
+
+export const deleteSession = (token: string) => {
+  if (!readDatabase().sessions[token]) return
+  updateDatabase((database) => {
+    delete database.sessions[token]
+  })
+}
+
+export const sessionToken = (request: Request) =>
+  (request.headers.get("cookie") ?? "")
+    .split(";")
+    .map((part) => part.trim().split("="))
+    .find(([name]) => name === sessionConfig.cookieName)?.[1] ?? null
+
+/** The account signed in on the request's session cookie; expired sessions are dropped. */
+export const accountFromRequest = (request: Request): StoredAccount | null => {
+  const token = sessionToken(request)
+  const session = token ? readDatabase().sessions[token] : undefined
+  if (!session) return null
+  if (new Date(session.expiresAt).getTime() <= Date.now()) {
+    deleteSession(session.token)
+    return null
+  }
+  return Object.values(readDatabase().accounts).find((account) => account.id === session.accountId) ?? null
+}
+
+export const saveAccountAddress = (account: StoredAccount, address: ShippingAddress) => {
+  const updated = { ...account, address }
+  updateDatabase((database) => {
+    database.accounts[account.email] = updated
+  })
+  return updated
+}
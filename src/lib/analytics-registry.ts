@@ -0,0 +1,187 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs"
+import { dirname, join, resolve } from "node:path"
+
+import { z } from "zod"
+
+import type { TrackedEvent } from "./analytics"
+import { databaseConfig, readDatabase, updateDatabase } from "./database"
+import { toMoney, type Money } from "./money"
+
+export const analyticsStoreConfig = {
+  /** One event per line, only ever appended to; kept apart from the database, which is rewritten on every change. */
+  file: resolve(process.env.COLMEIA_ANALYTICS_FILE ?? join(dirname(databaseConfig.file), "analytics.jsonl")),
+  /** Events one client may send per window; batches past it are turned away. */
+  maxEventsPerWindow: 600,
+  windowMs: 60_000,
+  /**
+   * Proxies in front of the server that append the client address to
+   * `X-Forwarded-For`; the address is read that many entries from the right,
+   * where the client cannot write. With none, the header is ignored and every
+   * client shares one window.
+   */
+  trustedProxyHops: Math.max(0, Math.trunc(Number(process.env.TRUSTED_PROXY_HOPS ?? 0)) || 0),
+  /** Clients with a window in memory; the oldest window is dropped past it. */
+  maxClients: 10_000,
+  /** Recent event ids remembered to skip retried batches; older ids are forgotten. */
+  maxKnownIds: 50_000,
+}
+
+const paymentMethodSchema = z.enum(["pix", "credit", "boleto"])
+
+const paymentStatusSchema = z.enum([
+  "inicial",
+  "processando",
+  "pago",
+  "falhado",
+  "expirado",
+  "cancelado",
+  "estornado",
+  "parcialmente_estornado",
+])
+
+const moneySchema = z
+  .number()
+  .int()
+  .nonnegative()
+  .transform((value) => value as Money)
+
+const envelope = {
+  id: z.string().min(1).max(80),
+  sessionId: z.string().min(1).max(80),
+  occurredAt: z.coerce.date().transform((value) => value.toISOString()),
+}
+
+const trackedEventSchema = z.discriminatedUnion("type", [
+  z.object({ ...envelope, type: z.literal("product_viewed"), productId: z.string().min(1) }),
+  z.object({
+    ...envelope,
+    type: z.literal("added_to_cart"),
+    productId: z.string().min(1),
+    sku: z.string().min(1),
+    price: moneySchema,
+  }),
+  z.object({
+    ...envelope,
+    type: z.literal("step_entered"),
+    step: z.enum(["catalog", "cart", "shipping", "payment", "status"]),
+  }),
+  z.object({ ...envelope, type: z.literal("payment_method_selected"), method: paymentMethodSchema }),
+  z.object({
+    ...envelope,
+    type: z.literal("payment_submitted"),
+    orderId: z.string().min(1),
+    method: paymentMethodSchema,
+    split: z.boolean(),
+    total: moneySchema,
+  }),
+  z.object({
+    ...envelope,
+    type: z.literal("payment_outcome"),
+    orderId: z.string().min(1),
+    method: paymentMethodSchema,
+    status: paymentStatusSchema,
+  }),
+])
+
+export const analyticsBatchSchema = z.object({
+  events: z.array(trackedEventSchema).min(1).max(100),
+})
+
+/** Recent ids already stored and events sent per client in the current window; kept on `globalThis` like the database. */
+const globalAnalytics = globalThis as typeof globalThis & {
+  __colmeiaAnalytics?: { known: Set<string>; windows: Map<string, { startedAt: number; events: number }> }
+}
+
+const readEvents = (): TrackedEvent[] => {
+  if (!existsSync(analyticsStoreConfig.file)) return []
+  // A line cut short by a crash is skipped.
+  return readFileSync(analyticsStoreConfig.file, "utf8")
+    .split("\n")
+    .flatMap((line) => {
+      try {
+        return line ? [JSON.parse(line) as TrackedEvent] : []
+      } catch {
+        return []
+      }
+    })
+}
+
+const appendEvents = (events: TrackedEvent[]) => {
+  mkdirSync(dirname(analyticsStoreConfig.file), { recursive: true })
+  appendFileSync(analyticsStoreConfig.file, events.map((event) => `${JSON.stringify(event)}\n`).join(""))
+}
+
+/** Events kept in the database before they had a file of their own; cart prices were then in reais. */
+type LegacyAnalytics = { analyticsEvents?: TrackedEvent[] }
+
+const moveLegacyEvents = () => {
+  const legacy = (readDatabase() as LegacyAnalytics).analyticsEvents
+  if (!legacy) return
+  appendEvents(
+    legacy.map((event) => (event.type === "added_to_cart" ? { ...event, price: toMoney(event.price) } : event)),
+  )
+  updateDatabase((database) => {
+    delete (database as LegacyAnalytics).analyticsEvents
+  })
+}
+
+const analyticsState = () => {
+  if (!globalAnalytics.__colmeiaAnalytics) {
+    moveLegacyEvents()
+    globalAnalytics.__colmeiaAnalytics = {
+      known: new Set(
+        readEvents()
+          .slice(-analyticsStoreConfig.maxKnownIds)
+          .map((event) => event.id),
+      ),
+      windows: new Map(),
+    }
+  }
+  return globalAnalytics.__colmeiaAnalytics
+}
+
+/** The address the rate limit is kept for, as the trusted proxies report it. */
+export const analyticsClient = (headers: Headers) => {
+  const { trustedProxyHops } = analyticsStoreConfig
+  if (trustedProxyHops === 0) return "direct"
+  const forwarded = (headers.get("x-forwarded-for") ?? "").split(",").map((entry) => entry.trim())
+  return forwarded.at(-trustedProxyHops) || "direct"
+}
+
+/** Counts `count` events against the client's window; false once it is over the limit. */
+export const allowEvents = (client: string, count: number) => {
+  const { windows } = analyticsState()
+  const now = Date.now()
+  for (const [key, entry] of windows) {
+    if (now - entry.startedAt >= analyticsStoreConfig.windowMs) windows.delete(key)
+  }
+  const entry = windows.get(client) ?? { startedAt: now, events: 0 }
+  if (entry.events + count > analyticsStoreConfig.maxEventsPerWindow) return false
+  windows.set(client, { ...entry, events: entry.events + count })
+  // Maps iterate in insertion order, so the first key is the oldest window.
+  if (windows.size > analyticsStoreConfig.maxClients) windows.delete(windows.keys().next().value!)
+  return true
+}
+
+/** Stores a batch; events already stored are skipped, so a retried batch counts once. */
+export const recordEvents = (events: TrackedEvent[]) => {
+  const { known } = analyticsState()
+  const fresh = events.filter((event) => !known.has(event.id))
+  if (fresh.length === 0) return 0
+  appendEvents(fresh)
+  for (const event of fresh) known.add(event.id)
+  for (const id of known) {
+    if (known.size <= analyticsStoreConfig.maxKnownIds) break
+    known.delete(id)
+  }
+  return fresh.length
+}
+
+/** Events since `since`, or all of them. */
+export const listEvents = (since?: Date): TrackedEvent[] => {
+  analyticsState()
+  const events = readEvents()
+  if (!since) return events
+  const from = since.toISOString()
+  return events.filter((event) => event.occurredAt >= from)
+}
@@ -0,0 +1,211 @@
+import { createId } from "./ids"
+import type { PaymentMethod } from "./mock-data"
+import type { Money } from "./money"
+import type { PaymentStatus } from "./payment-gateway"
+import type { CheckoutStep } from "./types"
+
+/** What the storefront reports about a shopper's way through the checkout. */
+export type AnalyticsEvent =
+  | { type: "product_viewed"; productId: string }
+  | { type: "added_to_cart"; productId: string; sku: string; price: Money }
+  | { type: "step_entered"; step: CheckoutStep }
+  | { type: "payment_method_selected"; method: PaymentMethod }
+  | { type: "payment_submitted"; orderId: string; method: PaymentMethod; split: boolean; total: Money }
+  /** Settled result of a submission; Pix and boletos report it once confirmed or expired. */
+  | { type: "payment_outcome"; orderId: string; method: PaymentMethod; status: PaymentStatus }
+
+export type AnalyticsEventType = AnalyticsEvent["type"]
+
+/** An event as sinks receive it. `sessionId` is per browser tab. */
+export type TrackedEvent = AnalyticsEvent & { id: string; sessionId: string; occurredAt: string }
+
+/** Anything that can take tracked events somewhere. */
+export interface AnalyticsSink {
+  readonly name: string
+  send: (events: TrackedEvent[]) => Promise<void>
+}
+
+export type AnalyticsSinkName = "console" | "endpoint"
+
+export interface BatchingOptions {
+  maxBatchSize: number
+  /** Longest an event waits in the queue before it is sent. */
+  flushIntervalMs: number
+  /** Sends per batch, the first included, before it is dropped. */
+  maxAttempts: number
+  /** Wait before the first retry; doubles on each one after. */
+  retryDelayMs: number
+}
+
+export interface AnalyticsConfig {
+  sinks: AnalyticsSinkName[]
+  endpoint: string
+  batching: BatchingOptions
+}
+
+const sinkNames: AnalyticsSinkName[] = ["console", "endpoint"]
+
+export const analyticsConfig: AnalyticsConfig = {
+  sinks: (process.env.NEXT_PUBLIC_ANALYTICS_SINKS ?? "endpoint")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name): name is AnalyticsSinkName => sinkNames.includes(name as AnalyticsSinkName)),
+  endpoint: "/api/analytics",
+  batching: { maxBatchSize: 20, flushIntervalMs: 5000, maxAttempts: 5, retryDelayMs: 2000 },
+}
+
+/** Development sink: one console line per event. */
+export const createConsoleSink = (): AnalyticsSink => ({
+  name: "console",
+  async send(events) {
+    for (const event of events) console.info(`[analytics] ${event.type}`, event)
+  },
+})
+
+/**
+ * Posts events to the route handler that stores them. `keepalive` lets the
+ * last batch leave while the page unloads.
+ */
+export const createEndpointSink = (endpoint: string): AnalyticsSink => ({
+  name: "endpoint",
+  async send(events) {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ events }),
+      credentials: "same-origin",
+      keepalive: true,
+    })
+    if (!response.ok) throw new Error(`O envio de eventos falhou com status ${response.status}.`)
+  },
+})
+
+export type BatchingSink = AnalyticsSink & {
+  /** Sends whatever is queued now, e.g. when the page is hidden. */
+  flush: () => Promise<void>
+}
+
+/**
+ * Queues events and hands them to `inner` in batches, when the batch is full
+ * or the interval passes. A failed batch goes back to the front of the queue
+ * and is retried with exponential backoff until `maxAttempts`, then dropped:
+ * analytics never get in the way of a purchase.
+ */
+export const createBatchingSink = (inner: AnalyticsSink, options: BatchingOptions): BatchingSink => {
+  let queue: TrackedEvent[] = []
+  let failures = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let sending: Promise<void> | null = null
+
+  const schedule = (delayMs: number) => {
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = null
+      void flush()
+    }, delayMs)
+  }
+
+  const sendBatch = async () => {
+    const batch = queue.slice(0, options.maxBatchSize)
+    try {
+      await inner.send(batch)
+      queue = queue.slice(batch.length)
+      failures = 0
+    } catch (error) {
+      failures += 1
+      if (failures >= options.maxAttempts) {
+        console.warn(`Eventos de analytics descartados após ${failures} tentativas:`, error)
+        queue = queue.slice(batch.length)
+        failures = 0
+      } else {
+        schedule(options.retryDelayMs * 2 ** (failures - 1))
+        return false
+      }
+    }
+    return true
+  }
+
+  const flush = async (): Promise<void> => {
+    if (sending) return sending
+    sending = (async () => {
+      while (queue.length > 0) {
+        if (!(await sendBatch())) break
+      }
+    })().finally(() => {
+      sending = null
+    })
+    return sending
+  }
+
+  return {
+    name: `batching(${inner.name})`,
+    async send(events) {
+      queue.push(...events)
+      if (failures > 0) return
+      if (queue.length >= options.maxBatchSize) void flush()
+      else if (!timer) schedule(options.flushIntervalMs)
+    },
+    flush,
+  }
+}
+
+export const createAnalyticsSinks = (config: AnalyticsConfig): AnalyticsSink[] =>
+  config.sinks.map((name) => {
+    switch (name) {
+      case "console":
+        return createConsoleSink()
+      case "endpoint":
+      default:
+        return createBatchingSink(createEndpointSink(config.endpoint), config.batching)
+    }
+  })
+
+let activeSinks: AnalyticsSink[] | null = null
+
+export const getAnalyticsSinks = (): AnalyticsSink[] => {
+  if (!activeSinks) {
+    activeSinks = createAnalyticsSinks(analyticsConfig)
+    if (typeof document !== "undefined") {
+      // Queued events leave before the tab goes away.
+      document.addEventListener("visibilitychange", () => {
+        if (document.visibilityState === "hidden") void flushAnalytics()
+      })
+    }
+  }
+  return activeSinks
+}
+
+export const setAnalyticsSinks = (sinks: AnalyticsSink[]) => {
+  activeSinks = sinks
+}
+
+export const flushAnalytics = async () => {
+  await Promise.all(
+    getAnalyticsSinks().map((sink) => ("flush" in sink ? (sink as BatchingSink).flush() : Promise.resolve())),
+  )
+}
+
+const sessionStorageKey = "colmeia-analytics-session"
+
+/** One id per browser tab, kept across reloads. */
+const analyticsSessionId = () => {
+  const stored = sessionStorage.getItem(sessionStorageKey)
+  if (stored) return stored
+  const sessionId = createId("session")
+  sessionStorage.setItem(sessionStorageKey, sessionId)
+  return sessionId
+}
+
+/** Reports an event to every sink. Browser only; failures are swallowed. */
+export const track = (event: AnalyticsEvent) => {
+  if (typeof window === "undefined") return
+  const tracked: TrackedEvent = {
+    ...event,
+    id: createId("event"),
+    sessionId: analyticsSessionId(),
+    occurredAt: new Date().toISOString(),
+  }
+  for (const sink of getAnalyticsSinks()) {
+    void sink.send([tracked]).catch(() => null)
+  }
+}
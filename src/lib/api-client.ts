@@ -0,0 +1,28 @@
+export type DataSource = "api" | "local"
+
+/**
+ * Where the stores keep accounts, carts and orders: `api` talks to the route
+ * handlers under `/api`, `local` simulates everything in the browser.
+ */
+export const dataSourceConfig: { source: DataSource } = {
+  source: process.env.NEXT_PUBLIC_DATA_SOURCE === "local" ? "local" : "api",
+}
+
+export const usesApi = () => dataSourceConfig.source === "api"
+
+/** JSON request to a route handler; failures reject with the message the handler sent back. */
+export const apiRequest = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(path, {
+    ...init,
+    credentials: "same-origin",
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  }).catch(() => null)
+  if (!response) {
+    throw new Error("Não foi possível conectar ao servidor. Verifique sua conexão.")
+  }
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as { error?: string } | null
+    throw new Error(body?.error ?? "Não foi possível concluir a operação. Tente novamente.")
+  }
+  return (response.status === 204 ? null : response.json()) as Promise<T>
+}
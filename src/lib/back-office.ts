@@ -0,0 +1,133 @@
+import { normalizeSearchText } from "./catalog"
+import type { PaymentMethod } from "./mock-data"
+import { sumMoney, toMoney, type Money } from "./money"
+import type { StoredOrder } from "./order-registry"
+import { orderNumber, type FulfillmentStatus, type OrderAttemptRecord } from "./orders"
+import type { PaymentStatus } from "./payment-gateway"
+
+/** Why a variant's stock changed. */
+export type StockAdjustmentReason = "cadastro" | "entrada" | "venda" | "devolucao" | "perda" | "inventario"
+
+export const stockAdjustmentReasonLabels: Record<StockAdjustmentReason, string> = {
+  cadastro: "Cadastro do produto",
+  entrada: "Entrada de mercadoria",
+  venda: "Venda",
+  devolucao: "Devolução",
+  perda: "Perda ou avaria",
+  inventario: "Correção de inventário",
+}
+
+/** Reasons an admin picks by hand; sales and the initial stock are recorded by the server. */
+export const manualStockReasons: StockAdjustmentReason[] = ["entrada", "devolucao", "perda", "inventario"]
+
+/** One entry of the stock log. */
+export interface StockAdjustment {
+  id: string
+  productId: string
+  sku: string
+  /** Units added (positive) or taken out (negative). */
+  delta: number
+  stockAfter: number
+  reason: StockAdjustmentReason
+  note?: string
+  /** Paid order that took the units, for sales. */
+  orderId?: string
+  /** Admin who made a manual adjustment. */
+  accountId?: string
+  createdAt: string
+}
+
+export interface AdminOrderFilters {
+  /** Order number, customer name or e-mail. */
+  search: string
+  payment: PaymentStatus | "todos"
+  fulfillment: FulfillmentStatus | "todos"
+}
+
+export const defaultAdminOrderFilters: AdminOrderFilters = { search: "", payment: "todos", fulfillment: "todos" }
+
+/** Reads the order filters from the query string of `GET /api/admin/orders`. */
+export const parseAdminOrderFilters = (params: URLSearchParams): AdminOrderFilters => ({
+  search: params.get("busca") ?? "",
+  payment: (params.get("pagamento") as AdminOrderFilters["payment"] | null) ?? "todos",
+  fulfillment: (params.get("entrega") as AdminOrderFilters["fulfillment"] | null) ?? "todos",
+})
+
+export const serializeAdminOrderFilters = (filters: AdminOrderFilters) => {
+  const params = new URLSearchParams()
+  if (filters.search.trim()) params.set("busca", filters.search.trim())
+  if (filters.payment !== "todos") params.set("pagamento", filters.payment)
+  if (filters.fulfillment !== "todos") params.set("entrega", filters.fulfillment)
+  return params.toString()
+}
+
+/** Orders of every account matching the filters, newest first. */
+export const searchAdminOrders = (orders: StoredOrder[], filters: AdminOrderFilters) => {
+  const terms = normalizeSearchText(filters.search.replace("#", "")).split(/\s+/).filter(Boolean)
+  return orders
+    .filter((order) => filters.payment === "todos" || order.paymentStatus === filters.payment)
+    .filter((order) => filters.fulfillment === "todos" || order.fulfillment === filters.fulfillment)
+    .filter((order) => {
+      const text = normalizeSearchText(
+        [orderNumber(order), order.id, order.customer.name, order.customer.email].join(" "),
+      )
+      return terms.every((term) => text.includes(term))
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export interface MethodApproval {
+  method: PaymentMethod | "todos"
+  attempts: number
+  /** Charges the gateway accepted, even if later refunded or rolled back. */
+  approved: number
+  declined: number
+  expired: number
+  /** Pix and boletos still waiting for the customer. */
+  pending: number
+  /** Charges voided by the store before they settled. */
+  cancelled: number
+  /** Approved over settled attempts (approved, declined or expired); null before any settled. */
+  approvalRate: number | null
+  approvedAmount: Money
+}
+
+export const approvedStatuses: PaymentStatus[] = ["pago", "estornado", "parcialmente_estornado"]
+
+const approvalOf = (method: MethodApproval["method"], attempts: OrderAttemptRecord[]): MethodApproval => {
+  const count = (statuses: PaymentStatus[]) => attempts.filter((attempt) => statuses.includes(attempt.status)).length
+  const approved = count(approvedStatuses)
+  const declined = count(["falhado"])
+  const expired = count(["expirado"])
+  const settled = approved + declined + expired
+  return {
+    method,
+    attempts: attempts.length,
+    approved,
+    declined,
+    expired,
+    pending: count(["inicial", "processando"]),
+    cancelled: count(["cancelado"]),
+    approvalRate: settled > 0 ? approved / settled : null,
+    approvedAmount: sumMoney(
+      attempts
+        .filter((attempt) => approvedStatuses.includes(attempt.status))
+        .map((attempt) => toMoney(attempt.amount ?? 0)),
+    ),
+  }
+}
+
+/** Approval per payment method, followed by the total over every method. */
+export const approvalRates = (attempts: OrderAttemptRecord[]): MethodApproval[] => {
+  const methods: PaymentMethod[] = ["pix", "credit", "boleto"]
+  return [
+    ...methods.map((method) => approvalOf(method, attempts.filter((attempt) => attempt.method === method))),
+    approvalOf("todos", attempts),
+  ]
+}
+
+export const formatRate = (rate: number | null) =>
+  rate === null ? "—" : `${(rate * 100).toFixed(1).replace(".", ",")}%`
+
+/** Number typed in a back-office field, with either decimal separator; blank reads as NaN so the schema flags it. */
+export const parseFormNumber = (value: string) => (value.trim() === "" ? Number.NaN : Number(value.replace(",", ".")))
@@ -0,0 +1,190 @@
+export interface BoletoIssuer {
+  bankCode: string
+  bankDigit: string
+  bankName: string
+  agency: string
+  account: string
+  wallet: string
+  beneficiary: string
+  beneficiaryDocument: string
+}
+
+export interface BoletoSlip {
+  barcode: string
+  digitableLine: string
+  nossoNumero: string
+  dueDate: string
+  amount: number
+  instructions?: string
+}
+
+export interface BoletoRequest {
+  amount: number
+  dueDate: string
+  reference: string
+  instructions?: string
+}
+
+export const boletoIssuer: BoletoIssuer = {
+  bankCode: "237",
+  bankDigit: "2",
+  bankName: "Banco Bradesco S.A.",
+  agency: "1234",
+  account: "0056789",
+  wallet: "09",
+  beneficiary: "Colmeia Checkout LTDA",
+  beneficiaryDocument: "12.345.678/0001-90",
+}
+
+const currencyCode = "9"
+const factorBaseDate = Date.UTC(1997, 9, 7)
+const dayInMs = 24 * 60 * 60 * 1000
+
+const onlyDigits = (value: string) => value.replace(/\D/g, "")
+
+/**
+ * Módulo 10: weights 2 and 1 alternate from the rightmost digit and the
+ * digits of each product are summed.
+ */
+export const mod10 = (digits: string) => {
+  const sum = digits
+    .split("")
+    .reverse()
+    .reduce((acc, digit, index) => {
+      const product = Number(digit) * (index % 2 === 0 ? 2 : 1)
+      return acc + (product > 9 ? product - 9 : product)
+    }, 0)
+  return (10 - (sum % 10)) % 10
+}
+
+/**
+ * Módulo 11 for the barcode general check digit: weights cycle from 2 to 9
+ * starting at the rightmost digit; results 0, 10 and 11 become 1.
+ */
+export const mod11 = (digits: string) => {
+  const sum = digits
+    .split("")
+    .reverse()
+    .reduce((acc, digit, index) => acc + Number(digit) * ((index % 8) + 2), 0)
+  const dv = 11 - (sum % 11)
+  return dv === 0 || dv === 10 || dv === 11 ? 1 : dv
+}
+
+const parseDueDate = (dueDate: string) => {
+  const [year, month, day] = dueDate.split("-").map(Number)
+  if (!year || !month || !day) {
+    throw new Error(`Data de vencimento inválida: ${dueDate}`)
+  }
+  return Date.UTC(year, month - 1, day)
+}
+
+/**
+ * Days between 07/10/1997 and the due date. The factor restarts at 1000
+ * after reaching 9999 (22/02/2025), as defined by FEBRABAN.
+ */
+export const dueDateFactor = (dueDate: string) => {
+  const days = Math.round((parseDueDate(dueDate) - factorBaseDate) / dayInMs)
+  if (days < 1000) {
+    throw new Error(`Data de vencimento fora do intervalo aceito: ${dueDate}`)
+  }
+  return days > 9999 ? ((days - 1000) % 9000) + 1000 : days
+}
+
+const buildNossoNumero = (reference: string) =>
+  (onlyDigits(reference) || "0").slice(-11).padStart(11, "0")
+
+/**
+ * Campo livre in the Bradesco layout: agency (4), wallet (2), nosso número
+ * (11), account (7) and a trailing zero.
+ */
+const buildFreeField = (issuer: BoletoIssuer, nossoNumero: string) =>
+  `${issuer.agency.padStart(4, "0")}${issuer.wallet.padStart(2, "0")}${nossoNumero}${issuer.account.padStart(7, "0")}0`
+
+export const buildBarcode = (
+  issuer: BoletoIssuer,
+  { amount, dueDate, nossoNumero }: { amount: number; dueDate: string; nossoNumero: string },
+) => {
+  const factor = dueDateFactor(dueDate).toString()
+  const value = Math.round(amount * 100).toString().padStart(10, "0")
+  if (value.length > 10) {
+    throw new Error("Valor acima do limite suportado pelo boleto.")
+  }
+  const withoutDv = `${issuer.bankCode}${currencyCode}${factor}${value}${buildFreeField(issuer, nossoNumero)}`
+  const dv = mod11(withoutDv)
+  return `${withoutDv.slice(0, 4)}${dv}${withoutDv.slice(4)}`
+}
+
+/**
+ * Converts the 44-digit barcode into the 47-digit linha digitável, formatted
+ * as `AAAAA.AAAAA BBBBB.BBBBBB CCCCC.CCCCCC D EEEEEEEEEEEEEE`.
+ */
+export const toDigitableLine = (barcode: string) => {
+  const freeField = barcode.slice(19)
+  const withDv = (digits: string) => `${digits}${mod10(digits)}`
+
+  const field1 = withDv(`${barcode.slice(0, 4)}${freeField.slice(0, 5)}`)
+  const field2 = withDv(freeField.slice(5, 15))
+  const field3 = withDv(freeField.slice(15, 25))
+  const field4 = barcode.charAt(4)
+  const field5 = barcode.slice(5, 19)
+
+  return [
+    `${field1.slice(0, 5)}.${field1.slice(5)}`,
+    `${field2.slice(0, 5)}.${field2.slice(5)}`,
+    `${field3.slice(0, 5)}.${field3.slice(5)}`,
+    field4,
+    field5,
+  ].join(" ")
+}
+
+export const createBoleto = (
+  { amount, dueDate, reference, instructions }: BoletoRequest,
+  issuer: BoletoIssuer = boletoIssuer,
+): BoletoSlip => {
+  const nossoNumero = buildNossoNumero(reference)
+  const barcode = buildBarcode(issuer, { amount, dueDate, nossoNumero })
+  return {
+    barcode,
+    digitableLine: toDigitableLine(barcode),
+    nossoNumero,
+    dueDate,
+    amount,
+    instructions: instructions?.trim() || undefined,
+  }
+}
+
+const interleavedPatterns = [
+  "nnwwn",
+  "wnnnw",
+  "nwnnw",
+  "wwnnn",
+  "nnwnw",
+  "wnwnn",
+  "nwwnn",
+  "nnnww",
+  "wnnwn",
+  "nwnwn",
+]
+
+/**
+ * Encodes the barcode digits as Interleaved 2 of 5 (the symbology printed on
+ * boletos). Returns alternating bar/space widths starting with a bar.
+ */
+export const encodeInterleaved2of5 = (digits: string, narrow = 1, wide = 3) => {
+  if (digits.length % 2 !== 0) {
+    throw new Error("Interleaved 2 of 5 requer uma quantidade par de dígitos.")
+  }
+  const width = (symbol: string) => (symbol === "w" ? wide : narrow)
+  const modules = [narrow, narrow, narrow, narrow]
+
+  for (let index = 0; index < digits.length; index += 2) {
+    const bars = interleavedPatterns[Number(digits[index])]
+    const spaces = interleavedPatterns[Number(digits[index + 1])]
+    for (let position = 0; position < 5; position += 1) {
+      modules.push(width(bars[position]), width(spaces[position]))
+    }
+  }
+
+  modules.push(wide, narrow, narrow)
+  return modules
+}
@@ -0,0 +1,172 @@
+export type CardBrand = "visa" | "mastercard" | "elo" | "hipercard" | "amex" | "diners"
+
+export interface CardBrandRule {
+  label: string
+  shortLabel: string
+  lengths: number[]
+  cvvLength: number
+  groups: number[]
+  color: string
+}
+
+export const cardBrandRules: Record<CardBrand, CardBrandRule> = {
+  visa: {
+    label: "Visa",
+    shortLabel: "VISA",
+    lengths: [13, 16, 19],
+    cvvLength: 3,
+    groups: [4, 4, 4, 4, 3],
+    color: "#1a1f71",
+  },
+  mastercard: {
+    label: "Mastercard",
+    shortLabel: "MC",
+    lengths: [16],
+    cvvLength: 3,
+    groups: [4, 4, 4, 4],
+    color: "#eb001b",
+  },
+  elo: {
+    label: "Elo",
+    shortLabel: "ELO",
+    lengths: [16],
+    cvvLength: 3,
+    groups: [4, 4, 4, 4],
+    color: "#000000",
+  },
+  hipercard: {
+    label: "Hipercard",
+    shortLabel: "HIPER",
+    lengths: [13, 16, 19],
+    cvvLength: 3,
+    groups: [4, 4, 4, 4, 3],
+    color: "#b3131b",
+  },
+  amex: {
+    label: "American Express",
+    shortLabel: "AMEX",
+    lengths: [15],
+    cvvLength: 4,
+    groups: [4, 6, 5],
+    color: "#2e77bc",
+  },
+  diners: {
+    label: "Diners Club",
+    shortLabel: "DINERS",
+    lengths: [14, 16],
+    cvvLength: 3,
+    groups: [4, 6, 4],
+    color: "#0079be",
+  },
+}
+
+const defaultGroups = [4, 4, 4, 4, 3]
+const maxCardLength = 19
+
+type BinRange = [start: string, end?: string]
+
+/**
+ * BIN prefixes per brand. Order matters: Elo and Hipercard ranges overlap
+ * Visa, Mastercard and Diners prefixes, so they are checked first.
+ */
+const binRanges: [CardBrand, BinRange[]][] = [
+  [
+    "elo",
+    [
+      ["401178", "401179"],
+      ["431274"],
+      ["438935"],
+      ["451416"],
+      ["457393"],
+      ["457631", "457632"],
+      ["504175"],
+      ["506699", "506778"],
+      ["509000", "509999"],
+      ["627780"],
+      ["636297"],
+      ["636368"],
+      ["650031", "650033"],
+      ["650035", "650051"],
+      ["650405", "650439"],
+      ["650485", "650538"],
+      ["650541", "650598"],
+      ["650700", "650718"],
+      ["650720", "650727"],
+      ["650901", "650978"],
+      ["651652", "651679"],
+      ["655000", "655019"],
+      ["655021", "655058"],
+    ],
+  ],
+  [
+    "hipercard",
+    [["384100"], ["384140"], ["384160"], ["606282"], ["637095"], ["637568"], ["637599"], ["637609"], ["637612"]],
+  ],
+  ["amex", [["34"], ["37"]]],
+  ["diners", [["300", "305"], ["36"], ["38", "39"]]],
+  ["mastercard", [["51", "55"], ["2221", "2720"]]],
+  ["visa", [["4"]]],
+]
+
+export const onlyCardDigits = (value: string) => value.replace(/\D/g, "")
+
+const matchesRange = (digits: string, [start, end = start]: BinRange) => {
+  if (digits.length < start.length) return false
+  const prefix = Number(digits.slice(0, start.length))
+  return prefix >= Number(start) && prefix <= Number(end)
+}
+
+export const detectCardBrand = (value: string): CardBrand | null => {
+  const digits = onlyCardDigits(value)
+  if (!digits) return null
+  const match = binRanges.find(([, ranges]) => ranges.some((range) => matchesRange(digits, range)))
+  return match ? match[0] : null
+}
+
+export const luhnCheck = (value: string) => {
+  const digits = onlyCardDigits(value)
+  if (digits.length < 12) return false
+  const sum = digits
+    .split("")
+    .reverse()
+    .reduce((acc, digit, index) => {
+      const doubled = index % 2 === 1 ? Number(digit) * 2 : Number(digit)
+      return acc + (doubled > 9 ? doubled - 9 : doubled)
+    }, 0)
+  return sum % 10 === 0
+}
+
+/**
+ * Digit groups for the mask. A number longer than the brand's groups cover
+ * (a 16-digit Diners, for instance) falls back to groups of four.
+ */
+export const cardNumberGroups = (value: string) => {
+  const brand = detectCardBrand(value)
+  if (!brand) return defaultGroups
+  const { groups } = cardBrandRules[brand]
+  const covered = groups.reduce((sum, size) => sum + size, 0)
+  return onlyCardDigits(value).length > covered ? defaultGroups : groups
+}
+
+export const cardNumberMaxLength = (value: string) => {
+  const brand = detectCardBrand(value)
+  return brand ? Math.max(...cardBrandRules[brand].lengths) : maxCardLength
+}
+
+export const cardCvvLength = (value: string) => {
+  const brand = detectCardBrand(value)
+  return brand ? cardBrandRules[brand].cvvLength : 3
+}
+
+/**
+ * Accepts `MM/AA`. A card stays valid until the last day of its expiration
+ * month.
+ */
+export const isExpirationValid = (value: string, now = new Date()) => {
+  const match = /^(\d{2})\/(\d{2})$/.exec(value)
+  if (!match) return false
+  const month = Number(match[1])
+  const year = 2000 + Number(match[2])
+  if (month < 1 || month > 12) return false
+  return year > now.getFullYear() || (year === now.getFullYear() && month >= now.getMonth() + 1)
+}
@@ -0,0 +1,78 @@
+import type { ProductVariant } from "./mock-data"
+import type { CartItem } from "./types"
+import { variantName } from "./variants"
+
+/**
+ * How a guest line combines with the same SKU already in the account cart:
+ * add both quantities, or keep whichever line was changed last.
+ */
+export type CartMergeStrategy = "sum" | "newest"
+
+export const cartMergeConfig: { strategy: CartMergeStrategy } = {
+  strategy: "sum",
+}
+
+/** Outcome for one guest line, shown to the customer after login. */
+export interface CartMergeLine {
+  sku: string
+  name: string
+  guestQuantity: number
+  /** Units of the SKU the account cart already had; 0 when the line is new. */
+  accountQuantity: number
+  quantity: number
+  /** True when stock capped the merged quantity. */
+  limited: boolean
+}
+
+export interface CartMergeResult {
+  items: CartItem[]
+  lines: CartMergeLine[]
+}
+
+/**
+ * Merges the guest cart into the account cart. Account lines keep their
+ * order and guest-only lines are appended; every quantity is clamped to
+ * `availableFor` and lines with nothing left are dropped.
+ */
+export const mergeCarts = (
+  account: CartItem[],
+  guest: CartItem[],
+  availableFor: (variant: ProductVariant) => number = (variant) => variant.stock,
+  strategy: CartMergeStrategy = cartMergeConfig.strategy,
+): CartMergeResult => {
+  const guestBySku = new Map(guest.map((item) => [item.variant.sku, item]))
+  const accountSkus = new Set(account.map((item) => item.variant.sku))
+  const lines: CartMergeLine[] = []
+
+  const combine = (saved: CartItem | undefined, incoming: CartItem | undefined): CartItem[] => {
+    const base = incoming ?? saved!
+    const requested =
+      saved && incoming
+        ? strategy === "sum"
+          ? saved.quantity + incoming.quantity
+          : incoming.updatedAt >= saved.updatedAt
+            ? incoming.quantity
+            : saved.quantity
+        : base.quantity
+    const quantity = Math.min(requested, availableFor(base.variant))
+    if (incoming) {
+      lines.push({
+        sku: base.variant.sku,
+        name: variantName(base.product, base.variant),
+        guestQuantity: incoming.quantity,
+        accountQuantity: saved?.quantity ?? 0,
+        quantity,
+        limited: quantity < requested,
+      })
+    }
+    if (quantity <= 0) return []
+    const updatedAt = Math.max(saved?.updatedAt ?? 0, incoming?.updatedAt ?? 0)
+    return [{ ...base, quantity, updatedAt }]
+  }
+
+  const items = [
+    ...account.flatMap((item) => combine(item, guestBySku.get(item.variant.sku))),
+    ...guest.filter((item) => !accountSkus.has(item.variant.sku)).flatMap((item) => combine(undefined, item)),
+  ]
+  return { items, lines }
+}
@@ -0,0 +1,36 @@
+import { z } from "zod"
+
+import { readDatabase, updateDatabase, type StoredCart } from "./database"
+import { findListedSku } from "./product-registry"
+
+const cartLineSchema = z.object({
+  sku: z.string().min(1),
+  quantity: z.number().int().positive(),
+  updatedAt: z.number().int().nonnegative(),
+})
+
+/** Body of `PUT /api/cart`: the whole account cart, by SKU. */
+export const cartSchema = z.object({
+  items: z.array(cartLineSchema),
+  couponCode: z.string().trim().min(1).nullable(),
+  savedForLater: z.array(cartLineSchema),
+})
+
+const emptyCart = (): StoredCart => ({ items: [], couponCode: null, savedForLater: [], updatedAt: new Date(0).toISOString() })
+
+export const getCart = (accountId: string) => readDatabase().carts[accountId] ?? emptyCart()
+
+/** Replaces the account cart. Lines whose SKU left the catalog are dropped. */
+export const saveCart = (accountId: string, input: z.infer<typeof cartSchema>): StoredCart => {
+  const listed = (lines: StoredCart["items"]) => lines.filter((line) => findListedSku(line.sku) !== null)
+  const cart: StoredCart = {
+    items: listed(input.items),
+    couponCode: input.couponCode,
+    savedForLater: listed(input.savedForLater),
+    updatedAt: new Date().toISOString(),
+  }
+  updateDatabase((database) => {
+    database.carts[accountId] = cart
+  })
+  return cart
+}
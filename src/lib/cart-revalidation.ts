@@ -0,0 +1,67 @@
+import type { ProductVariant } from "./mock-data"
+import type { CartItem } from "./types"
+import { findBySku, variantName } from "./variants"
+
+/** What changed on a saved cart line since it was added. */
+export type CartChange =
+  | { type: "price"; sku: string; name: string; previousPrice: number; price: number }
+  | { type: "stock"; sku: string; name: string; previousQuantity: number; quantity: number }
+  | { type: "discontinued"; sku: string; name: string }
+
+export interface CartRevalidation {
+  /** Lines refreshed from the catalog; discontinued and sold-out ones are dropped. */
+  items: CartItem[]
+  changes: CartChange[]
+}
+
+/**
+ * Compares saved cart lines with the current catalog. Prices are updated,
+ * quantities clamped to `availableFor` (the catalog stock by default) and
+ * lines whose SKU left the catalog or ran out are removed.
+ */
+export const revalidateCart = (
+  items: CartItem[],
+  availableFor: (variant: ProductVariant) => number = (variant) => variant.stock,
+): CartRevalidation => {
+  const changes: CartChange[] = []
+  const current = items.flatMap((item) => {
+    const name = variantName(item.product, item.variant)
+    const listed = findBySku(item.variant.sku)
+    if (!listed) {
+      changes.push({ type: "discontinued", sku: item.variant.sku, name })
+      return []
+    }
+
+    const { product, variant } = listed
+    if (variant.price !== item.variant.price) {
+      changes.push({ type: "price", sku: variant.sku, name, previousPrice: item.variant.price, price: variant.price })
+    }
+    const quantity = Math.min(item.quantity, availableFor(variant))
+    if (quantity < item.quantity) {
+      changes.push({ type: "stock", sku: variant.sku, name, previousQuantity: item.quantity, quantity })
+    }
+    return quantity > 0 ? [{ ...item, product, variant, quantity }] : []
+  })
+
+  return { items: current, changes }
+}
+
+/**
+ * Folds new changes into the ones still waiting for acknowledgement, so a
+ * price that moved twice shows the original price against the latest one.
+ */
+export const mergeCartChanges = (pending: CartChange[], next: CartChange[]) =>
+  next
+    .reduce((acc, change) => {
+      const index = acc.findIndex((item) => item.sku === change.sku && item.type === change.type)
+      if (index < 0) return [...acc, change]
+      const previous = acc[index]
+      const merged: CartChange =
+        previous.type === "price" && change.type === "price"
+          ? { ...change, previousPrice: previous.previousPrice }
+          : previous.type === "stock" && change.type === "stock"
+            ? { ...change, previousQuantity: previous.previousQuantity }
+            : change
+      return acc.map((item, position) => (position === index ? merged : item))
+    }, pending)
+    .filter((change) => change.type !== "price" || change.price !== change.previousPrice)
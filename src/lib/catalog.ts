@@ -0,0 +1,149 @@
+import type { Product, ProductCategory } from "./mock-data"
+import { priceRange } from "./variants"
+
+export const categoryLabels: Record<ProductCategory, string> = {
+  bebidas: "Bebidas",
+  alimentos: "Alimentos",
+  acessorios: "Acessórios",
+}
+
+export type CatalogSort = "relevance" | "popularity" | "price-asc" | "price-desc" | "name"
+
+export const catalogSortLabels: Record<CatalogSort, string> = {
+  relevance: "Relevância",
+  popularity: "Mais vendidos",
+  "price-asc": "Menor preço",
+  "price-desc": "Maior preço",
+  name: "Nome (A-Z)",
+}
+
+export const catalogConfig = {
+  pageSize: 12,
+}
+
+export interface CatalogQuery {
+  search: string
+  categories: ProductCategory[]
+  minPrice: number | null
+  maxPrice: number | null
+  sort: CatalogSort
+  page: number
+}
+
+export const defaultCatalogQuery: CatalogQuery = {
+  search: "",
+  categories: [],
+  minPrice: null,
+  maxPrice: null,
+  sort: "relevance",
+  page: 1,
+}
+
+export interface CatalogPage {
+  items: Product[]
+  total: number
+  page: number
+  pageCount: number
+}
+
+/** Lowercase without accents, so "cafe" finds "Café" and "acessorio" finds "acessório". */
+export const normalizeSearchText = (value: string) =>
+  value.normalize("NFD").replace(/\p{Diacritic}/gu, "").toLowerCase().trim()
+
+const parsePrice = (value: string | null) => {
+  if (!value) return null
+  const price = Number(value.replace(",", "."))
+  return Number.isFinite(price) && price >= 0 ? price : null
+}
+
+/** Reads the catalog filters from the URL; unknown or malformed values fall back to the defaults. */
+export const parseCatalogQuery = (params: URLSearchParams): CatalogQuery => {
+  const sort = params.get("ordem")
+  const page = Number(params.get("pagina"))
+  return {
+    search: params.get("busca") ?? "",
+    categories: (params.get("categorias") ?? "")
+      .split(",")
+      .filter((category): category is ProductCategory => Object.hasOwn(categoryLabels, category)),
+    minPrice: parsePrice(params.get("min")),
+    maxPrice: parsePrice(params.get("max")),
+    // Own keys only: `in` would also accept inherited ones such as `__proto__`.
+    sort: sort && Object.hasOwn(catalogSortLabels, sort) ? (sort as CatalogSort) : defaultCatalogQuery.sort,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  }
+}
+
+/** Query string for the filters, leaving defaults out to keep shared links short. */
+export const serializeCatalogQuery = (query: CatalogQuery) => {
+  const params = new URLSearchParams()
+  if (query.search) params.set("busca", query.search)
+  if (query.categories.length > 0) params.set("categorias", query.categories.join(","))
+  if (query.minPrice !== null) params.set("min", String(query.minPrice))
+  if (query.maxPrice !== null) params.set("max", String(query.maxPrice))
+  if (query.sort !== defaultCatalogQuery.sort) params.set("ordem", query.sort)
+  if (query.page > 1) params.set("pagina", String(query.page))
+  return params.toString()
+}
+
+/**
+ * Every search term must appear in the name, description, category or an
+ * option value; name hits rank higher.
+ */
+const relevance = (product: Product, terms: string[]) => {
+  const name = normalizeSearchText(product.name)
+  const optionValues = product.options.flatMap((option) => option.values)
+  const rest = normalizeSearchText(
+    [product.description, categoryLabels[product.category], ...optionValues].join(" "),
+  )
+  let score = 0
+  for (const term of terms) {
+    if (name.includes(term)) score += 2
+    else if (rest.includes(term)) score += 1
+    else return 0
+  }
+  return score
+}
+
+const comparators: Record<Exclude<CatalogSort, "relevance">, (a: Product, b: Product) => number> = {
+  popularity: (a, b) => b.popularity - a.popularity,
+  "price-asc": (a, b) => priceRange(a).min - priceRange(b).min,
+  "price-desc": (a, b) => priceRange(b).min - priceRange(a).min,
+  name: (a, b) => a.name.localeCompare(b.name, "pt-BR"),
+}
+
+/**
+ * Filters, sorts and paginates the catalog. Products match the price range
+ * when any variant does and sort by their lowest price. Relevance falls back
+ * to popularity when there is no search text; out-of-range pages are clamped.
+ */
+export const searchCatalog = (catalog: Product[], query: CatalogQuery): CatalogPage => {
+  const terms = normalizeSearchText(query.search).split(/\s+/).filter(Boolean)
+  const scored = catalog
+    .filter(
+      (product) =>
+        (query.categories.length === 0 || query.categories.includes(product.category)) &&
+        product.variants.some(
+          ({ price }) =>
+            (query.minPrice === null || price >= query.minPrice) &&
+            (query.maxPrice === null || price <= query.maxPrice),
+        ),
+    )
+    .map((product) => ({ product, score: terms.length > 0 ? relevance(product, terms) : 1 }))
+    .filter(({ score }) => score > 0)
+
+  scored.sort((a, b) =>
+    query.sort === "relevance"
+      ? b.score - a.score || comparators.popularity(a.product, b.product)
+      : comparators[query.sort](a.product, b.product),
+  )
+
+  const pageCount = Math.max(1, Math.ceil(scored.length / catalogConfig.pageSize))
+  const page = Math.min(query.page, pageCount)
+  const start = (page - 1) * catalogConfig.pageSize
+  return {
+    items: scored.slice(start, start + catalogConfig.pageSize).map(({ product }) => product),
+    total: scored.length,
+    page,
+    pageCount,
+  }
+}
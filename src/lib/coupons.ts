@@ -0,0 +1,73 @@
+import { approvedStatuses } from "./back-office"
+import { formatIsoDate, toIsoDate } from "./format"
+import { coupons, type AppliedCoupon, type Coupon } from "./mock-data"
+import { formatMoney, toMoney } from "./money"
+import type { Order } from "./orders"
+import { cartSubtotal } from "./pricing"
+import type { CartItem } from "./types"
+
+export interface CouponContext {
+  items: CartItem[]
+  accountId?: string
+  /** Codes this account already used on paid orders. */
+  redeemedCodes?: string[]
+  today?: string
+}
+
+export type CouponResult = { ok: true; coupon: AppliedCoupon } | { ok: false; error: string }
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase()
+
+/** Codes used on paid orders, e.g. an account's; refunds do not give a coupon back. */
+export const redeemedCouponCodes = (orders: Pick<Order, "paymentStatus" | "totals">[]) =>
+  orders.flatMap(({ paymentStatus, totals }) =>
+    totals.coupon && approvedStatuses.includes(paymentStatus) ? [totals.coupon.code] : [],
+  )
+
+export const findCoupon = (code: string): Coupon | null =>
+  coupons.find((coupon) => coupon.code === normalizeCouponCode(code)) ?? null
+
+/**
+ * Checks a coupon against the cart; the discount itself is computed by
+ * `priceOrder`. Category coupons need at least one item of that category;
+ * the minimum order is always checked against the whole cart.
+ */
+export const evaluateCoupon = (code: string, context: CouponContext): CouponResult => {
+  const coupon = findCoupon(code)
+  if (!coupon) return { ok: false, error: "Cupom não encontrado." }
+
+  const today = context.today ?? toIsoDate(new Date())
+  if (coupon.validFrom && today < coupon.validFrom) {
+    return { ok: false, error: `Cupom válido a partir de ${formatIsoDate(coupon.validFrom)}.` }
+  }
+  if (coupon.validUntil && today > coupon.validUntil) {
+    return { ok: false, error: `Cupom expirado em ${formatIsoDate(coupon.validUntil)}.` }
+  }
+  if (coupon.oncePerAccount && context.redeemedCodes?.includes(coupon.code)) {
+    return { ok: false, error: "Este cupom já foi utilizado nesta conta." }
+  }
+
+  const minOrder = coupon.minOrder ? toMoney(coupon.minOrder) : null
+  if (minOrder && cartSubtotal(context.items) < minOrder) {
+    return {
+      ok: false,
+      error: `Cupom válido para pedidos a partir de ${formatMoney(minOrder)}.`,
+    }
+  }
+
+  if (coupon.category && !context.items.some(({ product }) => product.category === coupon.category)) {
+    return { ok: false, error: `Cupom válido apenas para produtos de ${coupon.category}.` }
+  }
+
+  return {
+    ok: true,
+    coupon: {
+      code: coupon.code,
+      kind: coupon.kind,
+      description: coupon.description,
+      value: coupon.value,
+      category: coupon.category,
+      freeShipping: coupon.kind === "free_shipping",
+    },
+  }
+}
@@ -0,0 +1,114 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs"
+import { dirname, resolve } from "node:path"
+
+import type { StockAdjustment } from "./back-office"
+import { products, type Product, type ShippingAddress } from "./mock-data"
+import type { RegisteredTransaction } from "./payment-registry"
+import type { StoredOrder } from "./order-registry"
+import type { AccountRole } from "./types"
+
+/** An account as stored on the server; the password is kept only as a scrypt hash. */
+export interface StoredAccount {
+  id: string
+  name: string
+  email: string
+  document: string
+  phone: string
+  address?: ShippingAddress
+  role?: AccountRole
+  /** `salt:hash`, both hex. */
+  passwordHash: string
+  createdAt: string
+}
+
+export interface StoredSession {
+  token: string
+  accountId: string
+  expiresAt: string
+}
+
+/** A cart line by SKU; product data is read from the catalog. */
+export interface StoredCartLine {
+  sku: string
+  quantity: number
+  updatedAt: number
+}
+
+export interface StoredCart {
+  items: StoredCartLine[]
+  couponCode: string | null
+  savedForLater: StoredCartLine[]
+  updatedAt: string
+}
+
+export interface DatabaseSchema {
+  version: 1
+  /** Keyed by normalized e-mail. */
+  accounts: Record<string, StoredAccount>
+  sessions: Record<string, StoredSession>
+  /** Keyed by account id. */
+  carts: Record<string, StoredCart>
+  orders: Record<string, StoredOrder>
+  /** The catalog the back office edits, keyed by product id; seeded from the demo products. */
+  products: Record<string, Product>
+  /** Every stock change, oldest first. */
+  stockAdjustments: StockAdjustment[]
+  transactions: Record<string, RegisteredTransaction>
+  /** Webhook event ids already applied. */
+  processedEvents: string[]
+}
+
+export const databaseConfig = {
+  file: resolve(process.env.COLMEIA_DATABASE_FILE ?? ".data/colmeia.json"),
+}
+
+const emptyDatabase = (): DatabaseSchema => ({
+  version: 1,
+  accounts: {},
+  sessions: {},
+  carts: {},
+  orders: {},
+  products: Object.fromEntries(products.map((product) => [product.id, product])),
+  stockAdjustments: [],
+  transactions: {},
+  processedEvents: [],
+})
+
+/**
+ * Embedded JSON store for the route handlers. The whole database is read
+ * once per process and written back after every change; the write goes to a
+ * temporary file first so a crash never leaves half a file behind. Kept on
+ * `globalThis` so it survives hot reloads in dev.
+ */
+const globalDatabase = globalThis as typeof globalThis & { __colmeiaDatabase?: DatabaseSchema }
+
+const load = (): DatabaseSchema => {
+  if (!existsSync(databaseConfig.file)) return emptyDatabase()
+  const stored = JSON.parse(readFileSync(databaseConfig.file, "utf8")) as Partial<DatabaseSchema>
+  return { ...emptyDatabase(), ...stored }
+}
+
+const persist = (database: DatabaseSchema) => {
+  mkdirSync(dirname(databaseConfig.file), { recursive: true })
+  const temporary = `${databaseConfig.file}.tmp`
+  writeFileSync(temporary, JSON.stringify(database, null, 2))
+  renameSync(temporary, databaseConfig.file)
+}
+
+export const readDatabase = (): DatabaseSchema => {
+  if (!globalDatabase.__colmeiaDatabase) {
+    globalDatabase.__colmeiaDatabase = load()
+  }
+  return globalDatabase.__colmeiaDatabase
+}
+
+/**
+ * Runs `change` against the database and saves the result. Changes are
+ * synchronous, so two requests never interleave inside one.
+ */
+export const updateDatabase = <T>(change: (database: DatabaseSchema) => T): T => {
+  const database = readDatabase()
+  const result = change(database)
+  persist(database)
+  return result
+}
@@ -1,11 +1,24 @@
+import { cardNumberGroups, cardNumberMaxLength, onlyCardDigits } from "./card"
+
 export const formatCurrency = (value: number) =>
   value.toLocaleString("pt-BR", {
     style: "currency",
     currency: "BRL",
   })
 
-export const maskCardNumber = (value: string) =>
-  value.replace(/\D/g, "").replace(/(\d{4})(?=\d)/g, "$1 ").trim()
+export const maskCardNumber = (value: string) => {
+  const digits = onlyCardDigits(value).slice(0, cardNumberMaxLength(value))
+  const groups: string[] = []
+  let position = 0
+
+  for (const size of cardNumberGroups(digits)) {
+    if (position >= digits.length) break
+    groups.push(digits.slice(position, position + size))
+    position += size
+  }
+
+  return groups.join(" ")
+}
 
 export const maskExpiration = (value: string) =>
   value
@@ -14,3 +27,21 @@ export const maskExpiration = (value: string) =>
     .replace(/(\d{2})(\d{0,2})/, (_, month, year) =>
       year ? `${month}/${year}` : month,
     )
+
+export const maskCep = (value: string) =>
+  value
+    .replace(/\D/g, "")
+    .slice(0, 8)
+    .replace(/(\d{5})(\d{1,3})/, "$1-$2")
+
+export const formatIsoDate = (value: string) => {
+  const [year, month, day] = value.split("-")
+  return year && month && day ? `${day}/${month}/${year}` : value
+}
+
+export const toIsoDate = (date: Date) =>
+  [
+    date.getFullYear(),
+    (date.getMonth() + 1).toString().padStart(2, "0"),
+    date.getDate().toString().padStart(2, "0"),
+  ].join("-")
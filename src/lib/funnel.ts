@@ -0,0 +1,130 @@
+import type { TrackedEvent } from "./analytics"
+import { approvedStatuses } from "./back-office"
+import type { PaymentMethod } from "./mock-data"
+import type { CheckoutStep } from "./types"
+
+export type FunnelStageId = CheckoutStep | "aprovado"
+
+/** Checkout steps in the order a shopper goes through them, then the approved payment. */
+export const funnelStages: FunnelStageId[] = ["catalog", "cart", "shipping", "payment", "status", "aprovado"]
+
+export const funnelStageLabels: Record<FunnelStageId, string> = {
+  catalog: "Catálogo",
+  cart: "Carrinho",
+  shipping: "Entrega",
+  payment: "Pagamento",
+  status: "Pedido enviado",
+  aprovado: "Pagamento aprovado",
+}
+
+export interface FunnelStage {
+  stage: FunnelStageId
+  sessions: number
+  /** Share of the sessions of the stage before; null for the first stage or when it had none. */
+  fromPrevious: number | null
+  /** Share of the sessions that entered the funnel. */
+  fromStart: number | null
+}
+
+export interface MethodFunnel {
+  method: PaymentMethod
+  /** Sessions that picked the method, or paid with it without changing the default. */
+  selected: number
+  submitted: number
+  approved: number
+  submitRate: number | null
+  approvalRate: number | null
+}
+
+export interface FunnelReport {
+  events: number
+  sessions: number
+  stages: FunnelStage[]
+  methods: MethodFunnel[]
+}
+
+const paymentMethods: PaymentMethod[] = ["pix", "credit", "boleto"]
+
+const rate = (part: number, whole: number) => (whole === 0 ? null : part / whole)
+
+/**
+ * Conversion per checkout step and per payment method, counted in sessions.
+ * A session reached a step when it entered it or any later one, so going back
+ * to the cart does not lose it the payment step. Outcomes are matched to
+ * submissions by order and method, since Pix and boletos often settle in a
+ * later session than the one that submitted them.
+ */
+export const funnelReport = (events: TrackedEvent[]): FunnelReport => {
+  const approvedPayments = new Set(
+    events.flatMap((event) =>
+      event.type === "payment_outcome" && approvedStatuses.includes(event.status)
+        ? [`${event.orderId}:${event.method}`]
+        : [],
+    ),
+  )
+
+  const furthest = new Map<string, number>()
+  const reach = (sessionId: string, stage: FunnelStageId) => {
+    const index = funnelStages.indexOf(stage)
+    furthest.set(sessionId, Math.max(furthest.get(sessionId) ?? 0, index))
+  }
+  const selected = new Map<PaymentMethod, Set<string>>(paymentMethods.map((method) => [method, new Set()]))
+  const submitted = new Map<PaymentMethod, Set<string>>(paymentMethods.map((method) => [method, new Set()]))
+  const approved = new Map<PaymentMethod, Set<string>>(paymentMethods.map((method) => [method, new Set()]))
+
+  for (const event of events) {
+    switch (event.type) {
+      case "step_entered":
+        reach(event.sessionId, event.step)
+        break
+      case "payment_method_selected":
+        reach(event.sessionId, "payment")
+        selected.get(event.method)?.add(event.sessionId)
+        break
+      case "payment_submitted":
+        reach(event.sessionId, "status")
+        selected.get(event.method)?.add(event.sessionId)
+        submitted.get(event.method)?.add(event.sessionId)
+        if (approvedPayments.has(`${event.orderId}:${event.method}`)) {
+          reach(event.sessionId, "aprovado")
+          approved.get(event.method)?.add(event.sessionId)
+        }
+        break
+      case "product_viewed":
+      case "added_to_cart":
+        reach(event.sessionId, "catalog")
+        break
+      case "payment_outcome":
+        break
+    }
+  }
+
+  const sessions = furthest.size
+  const reached = funnelStages.map(
+    (_, index) => Array.from(furthest.values()).filter((furthestIndex) => furthestIndex >= index).length,
+  )
+
+  return {
+    events: events.length,
+    sessions,
+    stages: funnelStages.map((stage, index) => ({
+      stage,
+      sessions: reached[index],
+      fromPrevious: index === 0 ? null : rate(reached[index], reached[index - 1]),
+      fromStart: rate(reached[index], sessions),
+    })),
+    methods: paymentMethods.map((method) => {
+      const selectedCount = selected.get(method)?.size ?? 0
+      const submittedCount = submitted.get(method)?.size ?? 0
+      const approvedCount = approved.get(method)?.size ?? 0
+      return {
+        method,
+        selected: selectedCount,
+        submitted: submittedCount,
+        approved: approvedCount,
+        submitRate: rate(submittedCount, selectedCount),
+        approvalRate: rate(approvedCount, submittedCount),
+      }
+    }),
+  }
+}
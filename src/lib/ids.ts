@@ -0,0 +1,15 @@
+/**
+ * Random identifier that stays unique across tabs and reloads.
+ * `crypto.randomUUID` is only exposed in secure contexts, so plain HTTP
+ * (e.g. testing from another device on the LAN) falls back to
+ * `getRandomValues`.
+ */
+export const createId = (prefix?: string) => {
+  const id =
+    typeof crypto.randomUUID === "function"
+      ? crypto.randomUUID()
+      : Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+          byte.toString(16).padStart(2, "0"),
+        ).join("")
+  return prefix ? `${prefix}-${id}` : id
+}
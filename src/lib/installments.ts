@@ -0,0 +1,85 @@
+import { multiplyMoney, subtractMoney, toMoney, type Money } from "./money"
+
+export interface InstallmentConfig {
+  maxInstallments: number
+  interestFreeInstallments: number
+  monthlyInterestRate: number
+  minInstallmentValue: Money
+}
+
+/** Amounts in cents. */
+export interface InstallmentPlan {
+  count: number
+  installmentValue: Money
+  total: Money
+  interest: Money
+  monthlyInterestRate: number
+}
+
+export const installmentConfig: InstallmentConfig = {
+  maxInstallments: 12,
+  interestFreeInstallments: 6,
+  monthlyInterestRate: 0.0199,
+  minInstallmentValue: toMoney(10),
+}
+
+/**
+ * Plans above the interest-free limit follow the Price table:
+ * PMT = PV × i / (1 − (1 + i)^−n). Interest-free plans charge exactly the
+ * amount, even when it does not divide evenly into installments.
+ */
+export const buildInstallmentPlan = (
+  amount: Money,
+  count: number,
+  config: InstallmentConfig = installmentConfig,
+): InstallmentPlan => {
+  const rate = count > config.interestFreeInstallments ? config.monthlyInterestRate : 0
+  const installmentValue = multiplyMoney(amount, rate === 0 ? 1 / count : rate / (1 - Math.pow(1 + rate, -count)))
+  const total = rate === 0 ? amount : multiplyMoney(installmentValue, count)
+
+  return {
+    count,
+    installmentValue,
+    total,
+    interest: subtractMoney(total, amount),
+    monthlyInterestRate: rate,
+  }
+}
+
+/**
+ * Every plan whose installment stays at or above the minimum value. A single
+ * payment is always offered.
+ */
+export const buildInstallmentOptions = (
+  amount: Money,
+  config: InstallmentConfig = installmentConfig,
+): InstallmentPlan[] => {
+  const options = [buildInstallmentPlan(amount, 1, config)]
+  for (let count = 2; count <= config.maxInstallments; count += 1) {
+    const plan = buildInstallmentPlan(amount, count, config)
+    if (plan.installmentValue < config.minInstallmentValue) break
+    options.push(plan)
+  }
+  return options
+}
+
+/**
+ * Resolves the requested number of installments, falling back to the
+ * largest plan still available for the amount.
+ */
+export const resolveInstallmentPlan = (
+  amount: Money,
+  count = 1,
+  config: InstallmentConfig = installmentConfig,
+): InstallmentPlan => {
+  const options = buildInstallmentOptions(amount, config)
+  return options.filter((option) => option.count <= count).pop() ?? options[0]
+}
+
+export const formatInterestRate = (rate: number) => `${(rate * 100).toFixed(2).replace(".", ",")}% a.m.`
+
+export const describeInstallmentPlan = (plan: InstallmentPlan) => {
+  if (plan.count === 1) return "À vista"
+  if (plan.monthlyInterestRate === 0) return `${plan.count}x sem juros`
+  return `${plan.count}x com juros de ${formatInterestRate(plan.monthlyInterestRate)}`
+}
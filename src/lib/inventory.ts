@@ -0,0 +1,87 @@
+import type { ProductVariant } from "./mock-data"
+import type { CartItem } from "./types"
+import { findBySku, variantName } from "./variants"
+
+export const inventoryConfig = {
+  /** How long a checkout holds its units before they return to the shelf. */
+  reservationTtlMs: 15 * 60_000,
+  /** Hold kept while Pix or boleto payments wait for confirmation. */
+  pendingPaymentTtlMs: 3 * 24 * 60 * 60_000,
+}
+
+export interface StockLine {
+  sku: string
+  quantity: number
+}
+
+export interface StockReservation {
+  /** Checkout that owns the hold (its idempotency key). */
+  key: string
+  items: StockLine[]
+  expiresAt: number
+}
+
+export interface InventoryLedger {
+  /** Units permanently taken out of stock by paid orders, by SKU. */
+  sold: Record<string, number>
+  reservations: StockReservation[]
+  /** Checkouts whose sale was already recorded. */
+  committed: string[]
+}
+
+export type ReservationResult = { ok: true; reservation: StockReservation } | { ok: false; error: string }
+
+export const isReservationActive = (reservation: StockReservation, now = Date.now()) =>
+  reservation.expiresAt > now
+
+const reservedQuantity = (ledger: InventoryLedger, sku: string, now: number, exceptKey?: string | null) =>
+  ledger.reservations
+    .filter((reservation) => reservation.key !== exceptKey && isReservationActive(reservation, now))
+    .flatMap((reservation) => reservation.items)
+    .filter((item) => item.sku === sku)
+    .reduce((sum, item) => sum + item.quantity, 0)
+
+/** Units of a variant a checkout can still take: stock minus sales and other checkouts' holds. */
+export const availableStock = (
+  ledger: InventoryLedger,
+  variant: ProductVariant,
+  ownKey?: string | null,
+  now = Date.now(),
+) => {
+  const taken = (ledger.sold[variant.sku] ?? 0) + reservedQuantity(ledger, variant.sku, now, ownKey)
+  return Math.max(0, variant.stock - taken)
+}
+
+/** Why a line asking for more than `available` units of `label` cannot be held. */
+export const stockShortageMessage = (label: string, available: number) =>
+  available === 0
+    ? `${label} está esgotado.`
+    : `Estoque insuficiente para ${label}: restam ${available} unidade${available > 1 ? "s" : ""}.`
+
+/**
+ * Holds the cart for a checkout, replacing its previous hold. Fails without
+ * touching the ledger when any line asks for more than is available.
+ */
+export const reserveStock = (
+  ledger: InventoryLedger,
+  key: string,
+  items: CartItem[],
+  ttlMs = inventoryConfig.reservationTtlMs,
+  now = Date.now(),
+): ReservationResult => {
+  for (const { product, variant, quantity } of items) {
+    const current = findBySku(variant.sku)
+    const available = current ? availableStock(ledger, current.variant, key, now) : 0
+    const label = variantName(product, variant)
+    if (quantity > available) return { ok: false, error: stockShortageMessage(label, available) }
+  }
+
+  return {
+    ok: true,
+    reservation: {
+      key,
+      items: items.map(({ variant, quantity }) => ({ sku: variant.sku, quantity })),
+      expiresAt: now + ttlMs,
+    },
+  }
+}
@@ -0,0 +1,57 @@
+import { createBoleto } from "./boleto"
+import { toIsoDate } from "./format"
+import type { MailMessage, MailOrder, MailTemplate } from "./mail-templates"
+import { cepDirectory, mockUsers, products } from "./mock-data"
+import { toReais } from "./money"
+import { createPixCharge } from "./pix"
+import { priceOrder } from "./pricing"
+import { quoteFreight } from "./shipping"
+import type { CartItem } from "./types"
+import { defaultVariant, variantLabel } from "./variants"
+
+/** One sample of every e-mail for the preview page, built from the demo catalog and customer. */
+export const mailPreviewMessages = (): Record<MailTemplate, MailMessage> => {
+  const customer = mockUsers[0]
+  const address = { ...cepDirectory[0], number: "1000", complement: "Apto 42" }
+  const items: CartItem[] = products.slice(0, 2).map((product, index) => ({
+    product,
+    variant: defaultVariant(product),
+    quantity: index + 1,
+    updatedAt: 0,
+  }))
+  const freight = quoteFreight(items, address.state)[0]
+  const totals = priceOrder({ items, freight, payment: { paymentMethod: "pix" } })
+  const order: MailOrder = {
+    id: "order-preview-3f9a1c2b",
+    customer: { name: customer.name, email: customer.email, document: customer.document },
+    lines: items.map((item) => ({
+      productId: item.product.id,
+      sku: item.variant.sku,
+      name: item.product.name,
+      variant: variantLabel(item.product, item.variant),
+      unitPrice: item.variant.price,
+      quantity: item.quantity,
+    })),
+    totals,
+    shipping: { address, quote: freight, price: totals.shipping },
+  }
+  const dueDate = new Date()
+  dueDate.setDate(dueDate.getDate() + 3)
+
+  return {
+    account_created: { template: "account_created", name: customer.name, email: customer.email },
+    order_placed: { template: "order_placed", order },
+    payment_approved: { template: "payment_approved", order },
+    payment_failed: { template: "payment_failed", order, status: "falhado" },
+    boleto_issued: {
+      template: "boleto_issued",
+      order,
+      boleto: createBoleto({ amount: toReais(totals.due), dueDate: toIsoDate(dueDate), reference: order.id }),
+    },
+    pix_issued: {
+      template: "pix_issued",
+      order,
+      pix: createPixCharge({ amount: toReais(totals.total), reference: order.id }),
+    },
+  }
+}
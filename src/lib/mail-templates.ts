@@ -0,0 +1,268 @@
+import type { BoletoSlip } from "./boleto"
+import { formatCurrency, formatIsoDate } from "./format"
+import { addMoney, formatMoney } from "./money"
+import { orderNumber, type Order } from "./orders"
+import type { PaymentStatus } from "./payment-gateway"
+import type { PixCharge } from "./pix"
+import { pricingConfig } from "./pricing"
+import { formatAddress, formatDeliveryDays } from "./shipping"
+import { lineItemName } from "./variants"
+
+export const mailTemplateConfig = {
+  storeName: "Colmeia",
+  /** Base of the links in the e-mails. */
+  siteUrl: process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000",
+}
+
+/** What the e-mails need from an order; the dates stay out so server and client copies both fit. */
+export type MailOrder = Pick<Order, "id" | "customer" | "lines" | "totals" | "shipping">
+
+export type MailMessage =
+  | { template: "account_created"; name: string; email: string }
+  | { template: "order_placed"; order: MailOrder }
+  | { template: "payment_approved"; order: MailOrder }
+  | { template: "payment_failed"; order: MailOrder; status: "falhado" | "expirado" }
+  | { template: "boleto_issued"; order: MailOrder; boleto: BoletoSlip }
+  | { template: "pix_issued"; order: MailOrder; pix: Pick<PixCharge, "payload" | "expiresAt"> }
+
+export type MailTemplate = MailMessage["template"]
+
+export const mailTemplateLabels: Record<MailTemplate, string> = {
+  account_created: "Conta criada",
+  order_placed: "Pedido recebido",
+  payment_approved: "Pagamento aprovado",
+  payment_failed: "Pagamento recusado ou expirado",
+  boleto_issued: "Boleto emitido",
+  pix_issued: "Pix gerado",
+}
+
+export interface RenderedMail {
+  subject: string
+  text: string
+  html: string
+}
+
+/** Building blocks of an e-mail body, rendered both as HTML and as plain text. */
+type MailBlock =
+  | { kind: "paragraph"; text: string }
+  | { kind: "rows"; title?: string; rows: [string, string][] }
+  | { kind: "code"; label: string; value: string }
+  | { kind: "button"; label: string; href: string }
+
+type MailContent = { subject: string; heading: string; blocks: MailBlock[] }
+
+const firstName = (name: string) => name.trim().split(/\s+/)[0] ?? name
+
+const link = (path: string) => `${mailTemplateConfig.siteUrl}${path}`
+
+const itemRows = (order: MailOrder): MailBlock => ({
+  kind: "rows",
+  title: "Itens",
+  rows: order.lines.map((line) => {
+    const priced = order.totals.lines.find((item) => item.sku === line.sku)
+    return [`${line.quantity}x ${lineItemName(line)}`, priced ? formatMoney(priced.gross) : formatCurrency(line.unitPrice)]
+  }),
+})
+
+/** Same lines as the order summary on screen. */
+const totalRows = ({ totals }: MailOrder): MailBlock => {
+  const discount = addMoney(totals.lineDiscount, totals.orderDiscount)
+  const rows: [string, string][] = [["Subtotal", formatMoney(totals.subtotal)]]
+  if (totals.coupon && discount > 0) rows.push([`Desconto (${totals.coupon.code})`, `-${formatMoney(discount)}`])
+  rows.push(["Frete", totals.shipping > 0 ? formatMoney(totals.shipping) : "Grátis"])
+  if (totals.pixDiscount > 0) {
+    rows.push([`Desconto Pix (${pricingConfig.pixDiscountPercent}%)`, `-${formatMoney(totals.pixDiscount)}`])
+  }
+  if (totals.interest > 0) rows.push(["Juros do cartão", formatMoney(totals.interest)])
+  rows.push(["Total", formatMoney(totals.total)])
+  return { kind: "rows", title: "Resumo", rows }
+}
+
+const deliveryParagraph = ({ shipping }: MailOrder): MailBlock => ({
+  kind: "paragraph",
+  text: `Entrega por ${shipping.quote.carrier} em ${formatDeliveryDays(shipping.quote.deliveryDays)} após a confirmação do pagamento, em ${formatAddress(shipping.address)}.`,
+})
+
+const orderButton = (order: MailOrder): MailBlock => ({
+  kind: "button",
+  label: "Ver pedido",
+  href: link(`/pedidos/${order.id}`),
+})
+
+const formatDateTime = (value: Date) =>
+  new Date(value).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short", timeZone: "America/Sao_Paulo" })
+
+const contentFor = (message: MailMessage): MailContent => {
+  switch (message.template) {
+    case "account_created":
+      return {
+        subject: `Boas-vindas à ${mailTemplateConfig.storeName}, ${firstName(message.name)}!`,
+        heading: `Olá, ${firstName(message.name)}!`,
+        blocks: [
+          { kind: "paragraph", text: `Sua conta foi criada com o e-mail ${message.email}.` },
+          {
+            kind: "paragraph",
+            text: "Seu carrinho e sua lista de desejos ficam guardados na conta, e você acompanha as compras em Meus pedidos.",
+          },
+          { kind: "button", label: "Ir para a loja", href: link("/") },
+        ],
+      }
+    case "order_placed":
+      return {
+        subject: `Recebemos seu pedido ${orderNumber(message.order)}`,
+        heading: `Pedido ${orderNumber(message.order)} recebido`,
+        blocks: [
+          {
+            kind: "paragraph",
+            text: `${firstName(message.order.customer.name)}, obrigado pela compra! Avisaremos por e-mail assim que o pagamento for confirmado.`,
+          },
+          itemRows(message.order),
+          totalRows(message.order),
+          deliveryParagraph(message.order),
+          orderButton(message.order),
+        ],
+      }
+    case "payment_approved":
+      return {
+        subject: `Pagamento aprovado: pedido ${orderNumber(message.order)}`,
+        heading: "Pagamento aprovado",
+        blocks: [
+          {
+            kind: "paragraph",
+            text: `Recebemos o pagamento de ${formatMoney(message.order.totals.total)} do pedido ${orderNumber(message.order)}. Ele já está em preparação.`,
+          },
+          deliveryParagraph(message.order),
+          orderButton(message.order),
+        ],
+      }
+    case "payment_failed":
+      return {
+        subject: `${message.status === "expirado" ? "Pagamento expirado" : "Pagamento não aprovado"}: pedido ${orderNumber(message.order)}`,
+        heading: message.status === "expirado" ? "O prazo de pagamento acabou" : "Pagamento não aprovado",
+        blocks: [
+          {
+            kind: "paragraph",
+            text:
+              message.status === "expirado"
+                ? `O pagamento do pedido ${orderNumber(message.order)} não foi confirmado dentro do prazo e o pedido foi cancelado.`
+                : `O pagamento do pedido ${orderNumber(message.order)} foi recusado e o pedido foi cancelado. Nenhum valor foi cobrado.`,
+          },
+          {
+            kind: "paragraph",
+            text: "Você pode colocar os mesmos itens no carrinho com \"Comprar novamente\" e tentar com outra forma de pagamento.",
+          },
+          orderButton(message.order),
+        ],
+      }
+    case "boleto_issued":
+      return {
+        subject: `Boleto do pedido ${orderNumber(message.order)}`,
+        heading: "Seu boleto está pronto",
+        blocks: [
+          {
+            kind: "paragraph",
+            text: `Pague o boleto até ${formatIsoDate(message.boleto.dueDate)} no app do seu banco ou em uma lotérica. A confirmação leva até 3 dias úteis.`,
+          },
+          { kind: "code", label: "Linha digitável", value: message.boleto.digitableLine },
+          {
+            kind: "rows",
+            rows: [
+              ["Valor", formatCurrency(message.boleto.amount)],
+              ["Vencimento", formatIsoDate(message.boleto.dueDate)],
+              ["Nosso número", message.boleto.nossoNumero],
+            ],
+          },
+          orderButton(message.order),
+        ],
+      }
+    case "pix_issued":
+      return {
+        subject: `Pix do pedido ${orderNumber(message.order)}`,
+        heading: "Pague com Pix",
+        blocks: [
+          {
+            kind: "paragraph",
+            text: `Escaneie o QR Code ou use o Pix copia e cola até ${formatDateTime(message.pix.expiresAt)}. Depois disso o pedido é cancelado.`,
+          },
+          {
+            kind: "button",
+            label: "Abrir QR Code",
+            href: link(`/pix?codigo=${encodeURIComponent(message.pix.payload)}`),
+          },
+          { kind: "code", label: "Pix copia e cola", value: message.pix.payload },
+          totalRows(message.order),
+        ],
+      }
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+const blockHtml = (block: MailBlock) => {
+  switch (block.kind) {
+    case "paragraph":
+      return `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(block.text)}</p>`
+    case "rows":
+      return [
+        block.title ? `<p style="margin:0 0 8px;font-weight:600">${escapeHtml(block.title)}</p>` : "",
+        '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin:0 0 16px;font-size:14px">',
+        ...block.rows.map(
+          ([label, value]) =>
+            `<tr><td style="padding:4px 0;color:#52525b">${escapeHtml(label)}</td><td align="right" style="padding:4px 0;font-weight:600">${escapeHtml(value)}</td></tr>`,
+        ),
+        "</table>",
+      ].join("")
+    case "code":
+      return `<p style="margin:0 0 4px;font-size:12px;color:#52525b">${escapeHtml(block.label)}</p><p style="margin:0 0 16px;padding:12px;border-radius:8px;background:#f4f4f5;font-family:monospace;font-size:13px;word-break:break-all">${escapeHtml(block.value)}</p>`
+    case "button":
+      return `<p style="margin:0 0 16px"><a href="${escapeHtml(block.href)}" style="display:inline-block;padding:10px 20px;border-radius:8px;background:#18181b;color:#ffffff;text-decoration:none;font-weight:600">${escapeHtml(block.label)}</a></p>`
+  }
+}
+
+const blockText = (block: MailBlock) => {
+  switch (block.kind) {
+    case "paragraph":
+      return block.text
+    case "rows":
+      return [block.title, ...block.rows.map(([label, value]) => `${label}: ${value}`)].filter(Boolean).join("\n")
+    case "code":
+      return `${block.label}:\n${block.value}`
+    case "button":
+      return `${block.label}: ${block.href}`
+  }
+}
+
+/**
+ * Renders a transactional e-mail in pt-BR. The HTML uses tables and inline
+ * styles only, which is what mail clients reliably display.
+ */
+export const renderMail = (message: MailMessage): RenderedMail => {
+  const { subject, heading, blocks } = contentFor(message)
+  const footer = `${mailTemplateConfig.storeName} • Este é um e-mail automático, não é preciso respondê-lo.`
+
+  const html = [
+    '<!DOCTYPE html><html lang="pt-BR"><head><meta charset="utf-8">',
+    `<title>${escapeHtml(subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">',
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr><td align="center">',
+    '<table role="presentation" width="560" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:12px">',
+    '<tr><td style="padding:32px">',
+    `<p style="margin:0 0 24px;font-size:14px;font-weight:700;letter-spacing:0.08em;text-transform:uppercase">${escapeHtml(mailTemplateConfig.storeName)}</p>`,
+    `<h1 style="margin:0 0 16px;font-size:22px">${escapeHtml(heading)}</h1>`,
+    ...blocks.map(blockHtml),
+    `<p style="margin:24px 0 0;font-size:12px;color:#71717a">${escapeHtml(footer)}</p>`,
+    "</td></tr></table></td></tr></table></body></html>",
+  ].join("")
+
+  const text = [heading, ...blocks.map(blockText), footer].join("\n\n")
+
+  return { subject, text, html }
+}
+
+/** E-mail for a payment update of an order, when the customer should hear about it. */
+export const paymentStatusMail = (order: MailOrder, status: PaymentStatus): MailMessage | null => {
+  if (status === "pago") return { template: "payment_approved", order }
+  if (status === "falhado" || status === "expirado") return { template: "payment_failed", order, status }
+  return null
+}
@@ -0,0 +1,148 @@
+import { mkdir, writeFile } from "node:fs/promises"
+import { join, resolve } from "node:path"
+
+import { createId } from "./ids"
+import { renderMail, type MailMessage, type RenderedMail } from "./mail-templates"
+import { sendSmtpMessage, type SmtpConfig } from "./smtp"
+
+export interface OutgoingMail extends RenderedMail {
+  to: string
+}
+
+export interface SentMail {
+  messageId: string
+}
+
+/** Anything that can deliver a rendered e-mail. */
+export interface MailTransport {
+  readonly name: string
+  send: (mail: OutgoingMail) => Promise<SentMail>
+}
+
+export type MailTransportName = "outbox" | "smtp"
+
+export interface MailConfig {
+  transport: MailTransportName
+  from: string
+  /** Folder where the outbox transport writes `.eml` files. */
+  outboxDir: string
+  smtp: SmtpConfig
+}
+
+export const mailConfig: MailConfig = {
+  transport: process.env.MAIL_TRANSPORT === "smtp" ? "smtp" : "outbox",
+  from: process.env.MAIL_FROM ?? "Colmeia <nao-responda@colmeia.com.br>",
+  outboxDir: resolve(process.env.MAIL_OUTBOX_DIR ?? ".data/outbox"),
+  smtp: {
+    host: process.env.SMTP_HOST ?? "localhost",
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === "true",
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    timeoutMs: 15_000,
+  },
+}
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`
+
+const base64Body = (value: string) => Buffer.from(value).toString("base64").replace(/.{76}(?=.)/g, "$&\r\n")
+
+/** Bare address of a `Name <address>` sender, for the SMTP envelope. */
+const senderAddress = (from: string) => /<([^>]+)>/.exec(from)?.[1] ?? from
+
+const senderHeader = (from: string) => {
+  const match = /^(.*?)\s*<([^>]+)>$/.exec(from)
+  return match ? `${encodeHeader(match[1])} <${match[2]}>` : from
+}
+
+/** RFC 5322 message with text and HTML alternatives, as both transports deliver it. */
+export const buildMimeMessage = (mail: OutgoingMail, from: string, messageId: string) => {
+  const boundary = `colmeia-${messageId}`
+  return [
+    `From: ${senderHeader(from)}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${messageId}@${senderAddress(from).split("@")[1] ?? "localhost"}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(mail.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Body(mail.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n")
+}
+
+/**
+ * Development transport: every e-mail becomes an `.eml` file in the outbox
+ * folder, which any mail client opens.
+ */
+export const createOutboxTransport = (outboxDir: string, from: string): MailTransport => ({
+  name: "outbox",
+  async send(mail) {
+    const messageId = createId("mail")
+    await mkdir(outboxDir, { recursive: true })
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+    await writeFile(join(outboxDir, `${stamp}-${messageId}.eml`), buildMimeMessage(mail, from, messageId))
+    return { messageId }
+  },
+})
+
+export const createSmtpTransport = (config: SmtpConfig, from: string): MailTransport => ({
+  name: "smtp",
+  async send(mail) {
+    const messageId = createId("mail")
+    await sendSmtpMessage(
+      config,
+      { from: senderAddress(from), to: [mail.to] },
+      buildMimeMessage(mail, from, messageId),
+    )
+    return { messageId }
+  },
+})
+
+export const createMailTransport = (config: MailConfig): MailTransport => {
+  switch (config.transport) {
+    case "smtp":
+      return createSmtpTransport(config.smtp, config.from)
+    case "outbox":
+    default:
+      return createOutboxTransport(config.outboxDir, config.from)
+  }
+}
+
+let activeTransport: MailTransport | null = null
+
+export const getMailTransport = (): MailTransport => {
+  if (!activeTransport) {
+    activeTransport = createMailTransport(mailConfig)
+  }
+  return activeTransport
+}
+
+export const setMailTransport = (transport: MailTransport) => {
+  activeTransport = transport
+}
+
+/**
+ * Renders and sends a transactional e-mail. A failed delivery is logged and
+ * never fails the request that triggered it.
+ */
+export const deliverMail = async (to: string, message: MailMessage) => {
+  try {
+    return await getMailTransport().send({ to, ...renderMail(message) })
+  } catch (error) {
+    console.error(`Falha ao enviar o e-mail "${message.template}" para ${to}:`, error)
+    return null
+  }
+}
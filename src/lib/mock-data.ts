@@ -1,60 +1,171 @@
+import type { BoletoSlip } from "./boleto"
+import type { InstallmentPlan } from "./installments"
+import type { Money } from "./money"
+import type { PixCharge } from "./pix"
+import type { OrderTotals } from "./pricing"
+
 export type ProductCategory = "bebidas" | "alimentos" | "acessorios"
 
 export interface Product {
   id: string
   name: string
   description: string
-  price: number
   category: ProductCategory
-  stock: number
   image: string
+  /** Shipping weight in kg, unless the variant sets its own. */
+  weight: number
+  dimensions: ProductDimensions
+  /** Sales ranking score used by the "mais vendidos" sort. */
+  popularity: number
+  /** Choices the customer picks from; empty for products sold in a single version. */
+  options: ProductOption[]
+  /** One per combination of option values; always at least one. */
+  variants: ProductVariant[]
+}
+
+export interface ProductOption {
+  id: string
+  label: string
+  values: string[]
+}
+
+export interface ProductVariant {
+  sku: string
+  /** Value picked for each option, by option id. */
+  options: Record<string, string>
+  price: number
+  stock: number
+  weight?: number
+  dimensions?: ProductDimensions
+}
+
+/** Packaged size in cm. */
+export interface ProductDimensions {
+  length: number
+  width: number
+  height: number
 }
 
 export const products: Product[] = [
   {
     id: "cafe-gourmet",
-    name: "Café Gourmet Torrado em Grãos",
-    description: "Blend especial com notas de chocolate e avelã. Pacote de 500g.",
-    price: 49.9,
+    name: "Café Gourmet Torrado",
+    description: "Blend especial com notas de chocolate e avelã. Em grãos ou moído na hora do envio.",
     category: "bebidas",
-    stock: 15,
     image: "/products/coffee-beans.jpg",
+    weight: 0.55,
+    dimensions: { length: 20, width: 12, height: 8 },
+    popularity: 92,
+    options: [
+      { id: "peso", label: "Peso", values: ["250g", "500g", "1kg"] },
+      { id: "moagem", label: "Moagem", values: ["Grãos", "Moído"] },
+    ],
+    variants: [
+      {
+        sku: "CAFE-250-GRAOS",
+        options: { peso: "250g", moagem: "Grãos" },
+        price: 27.9,
+        stock: 10,
+        weight: 0.3,
+        dimensions: { length: 16, width: 10, height: 6 },
+      },
+      {
+        sku: "CAFE-250-MOIDO",
+        options: { peso: "250g", moagem: "Moído" },
+        price: 27.9,
+        stock: 8,
+        weight: 0.3,
+        dimensions: { length: 16, width: 10, height: 6 },
+      },
+      { sku: "CAFE-500-GRAOS", options: { peso: "500g", moagem: "Grãos" }, price: 49.9, stock: 15 },
+      { sku: "CAFE-500-MOIDO", options: { peso: "500g", moagem: "Moído" }, price: 49.9, stock: 6 },
+      {
+        sku: "CAFE-1KG-GRAOS",
+        options: { peso: "1kg", moagem: "Grãos" },
+        price: 94.9,
+        stock: 4,
+        weight: 1.05,
+        dimensions: { length: 26, width: 14, height: 10 },
+      },
+      {
+        sku: "CAFE-1KG-MOIDO",
+        options: { peso: "1kg", moagem: "Moído" },
+        price: 94.9,
+        stock: 0,
+        weight: 1.05,
+        dimensions: { length: 26, width: 14, height: 10 },
+      },
+    ],
   },
   {
     id: "kit-xicaras",
     name: "Kit 2 Xícaras de Cerâmica",
     description: "Conjunto esmaltado com capacidade de 180ml. Resistentes a altas temperaturas.",
-    price: 89,
     category: "acessorios",
-    stock: 8,
     image: "/products/cups.jpg",
+    weight: 0.9,
+    dimensions: { length: 25, width: 15, height: 12 },
+    popularity: 64,
+    options: [{ id: "cor", label: "Cor", values: ["Branco", "Preto", "Terracota"] }],
+    variants: [
+      { sku: "XIC-KIT2-BRANCO", options: { cor: "Branco" }, price: 89, stock: 4 },
+      { sku: "XIC-KIT2-PRETO", options: { cor: "Preto" }, price: 89, stock: 2 },
+      { sku: "XIC-KIT2-TERRACOTA", options: { cor: "Terracota" }, price: 94, stock: 2 },
+    ],
   },
   {
     id: "cafeteira",
-    name: "Cafeteira Prensa Francesa 600ml",
+    name: "Cafeteira Prensa Francesa",
     description: "Estrutura em vidro temperado com base antiderrapante. Ideal para cafés filtrados.",
-    price: 159.9,
     category: "acessorios",
-    stock: 5,
     image: "/products/french-press.jpg",
+    weight: 1.1,
+    dimensions: { length: 22, width: 16, height: 16 },
+    popularity: 78,
+    options: [{ id: "capacidade", label: "Capacidade", values: ["350ml", "600ml", "1L"] }],
+    variants: [
+      {
+        sku: "PRENSA-350",
+        options: { capacidade: "350ml" },
+        price: 129.9,
+        stock: 3,
+        weight: 0.8,
+        dimensions: { length: 18, width: 13, height: 13 },
+      },
+      { sku: "PRENSA-600", options: { capacidade: "600ml" }, price: 159.9, stock: 5 },
+      {
+        sku: "PRENSA-1L",
+        options: { capacidade: "1L" },
+        price: 199.9,
+        stock: 2,
+        weight: 1.5,
+        dimensions: { length: 26, width: 18, height: 18 },
+      },
+    ],
   },
   {
     id: "chocolate",
     name: "Chocolate Amargo 70% Cacau",
     description: "Chocolate bean-to-bar com doçura equilibrada. Barra de 90g.",
-    price: 18.5,
     category: "alimentos",
-    stock: 30,
     image: "/products/dark-chocolate.jpg",
+    weight: 0.1,
+    dimensions: { length: 18, width: 8, height: 1 },
+    popularity: 85,
+    options: [],
+    variants: [{ sku: "CHOC-70-90G", options: {}, price: 18.5, stock: 30 }],
   },
   {
     id: "cookie",
     name: "Cookie Artesanal de Nozes",
     description: "Feito com manteiga clarificada e pedaços generosos de nozes pecã.",
-    price: 12.9,
     category: "alimentos",
-    stock: 24,
     image: "/products/cookies.jpg",
+    weight: 0.3,
+    dimensions: { length: 20, width: 15, height: 5 },
+    popularity: 71,
+    options: [],
+    variants: [{ sku: "COOKIE-NOZES", options: {}, price: 12.9, stock: 24 }],
   },
 ]
 
@@ -85,11 +196,193 @@ export const mockUsers: User[] = [
   },
 ]
 
+export type CouponKind = "percent" | "fixed" | "free_shipping"
+
+export interface Coupon {
+  code: string
+  kind: CouponKind
+  /** Percentage for `percent`, amount in BRL for `fixed`; unused for free shipping. */
+  value: number
+  description: string
+  category?: ProductCategory
+  minOrder?: number
+  /** Inclusive validity window as `yyyy-mm-dd`. */
+  validFrom?: string
+  validUntil?: string
+  oncePerAccount?: boolean
+}
+
+export const coupons: Coupon[] = [
+  {
+    code: "BEMVINDO10",
+    kind: "percent",
+    value: 10,
+    description: "10% de desconto na primeira compra",
+    oncePerAccount: true,
+  },
+  {
+    code: "CAFE15",
+    kind: "percent",
+    value: 15,
+    description: "15% de desconto em bebidas",
+    category: "bebidas",
+  },
+  {
+    code: "DESCONTO20",
+    kind: "fixed",
+    value: 20,
+    description: "R$ 20 de desconto em pedidos acima de R$ 150",
+    minOrder: 150,
+  },
+  {
+    code: "FRETEGRATIS",
+    kind: "free_shipping",
+    value: 0,
+    description: "Frete grátis em pedidos acima de R$ 99",
+    minOrder: 99,
+  },
+  {
+    code: "BLACKFRIDAY30",
+    kind: "percent",
+    value: 30,
+    description: "30% de desconto na semana da Black Friday",
+    validFrom: "2026-11-23",
+    validUntil: "2026-11-30",
+  },
+]
+
+/** A coupon accepted for the cart; `priceOrder` turns it into discounts. */
+export interface AppliedCoupon {
+  code: string
+  kind: CouponKind
+  description: string
+  /** Percentage for `percent`, amount in BRL for `fixed`, as on the coupon. */
+  value: number
+  category?: ProductCategory
+  freeShipping: boolean
+}
+
+export interface PaymentLineItem {
+  productId: string
+  sku: string
+  name: string
+  /** Chosen option values, e.g. "500g • Moído"; empty for single-version products. */
+  variant: string
+  unitPrice: number
+  quantity: number
+}
+
+export interface CepRecord {
+  cep: string
+  street: string
+  district: string
+  city: string
+  state: string
+}
+
+export interface ShippingAddress extends CepRecord {
+  number: string
+  complement?: string
+}
+
+/** Bundled CEP base used by the address lookup. */
+export const cepDirectory: CepRecord[] = [
+  { cep: "01310-100", street: "Avenida Paulista", district: "Bela Vista", city: "São Paulo", state: "SP" },
+  {
+    cep: "04538-133",
+    street: "Avenida Brigadeiro Faria Lima",
+    district: "Itaim Bibi",
+    city: "São Paulo",
+    state: "SP",
+  },
+  { cep: "13015-904", street: "Rua Barão de Jaguara", district: "Centro", city: "Campinas", state: "SP" },
+  { cep: "20040-020", street: "Avenida Rio Branco", district: "Centro", city: "Rio de Janeiro", state: "RJ" },
+  {
+    cep: "22021-001",
+    street: "Avenida Atlântica",
+    district: "Copacabana",
+    city: "Rio de Janeiro",
+    state: "RJ",
+  },
+  { cep: "29010-002", street: "Avenida Jerônimo Monteiro", district: "Centro", city: "Vitória", state: "ES" },
+  { cep: "30130-010", street: "Praça Sete de Setembro", district: "Centro", city: "Belo Horizonte", state: "MG" },
+  { cep: "80010-000", street: "Rua XV de Novembro", district: "Centro", city: "Curitiba", state: "PR" },
+  { cep: "88010-400", street: "Rua Felipe Schmidt", district: "Centro", city: "Florianópolis", state: "SC" },
+  {
+    cep: "90010-150",
+    street: "Rua dos Andradas",
+    district: "Centro Histórico",
+    city: "Porto Alegre",
+    state: "RS",
+  },
+  { cep: "70040-010", street: "Setor Bancário Sul", district: "Asa Sul", city: "Brasília", state: "DF" },
+  { cep: "74003-010", street: "Avenida Goiás", district: "Setor Central", city: "Goiânia", state: "GO" },
+  { cep: "40020-000", street: "Avenida Sete de Setembro", district: "Centro", city: "Salvador", state: "BA" },
+  { cep: "50030-230", street: "Rua do Bom Jesus", district: "Recife", city: "Recife", state: "PE" },
+  { cep: "60060-170", street: "Rua Barão do Rio Branco", district: "Centro", city: "Fortaleza", state: "CE" },
+  { cep: "66010-020", street: "Avenida Presidente Vargas", district: "Campina", city: "Belém", state: "PA" },
+  { cep: "69005-040", street: "Avenida Eduardo Ribeiro", district: "Centro", city: "Manaus", state: "AM" },
+]
+
+export interface FreightQuote {
+  carrierId: string
+  carrier: string
+  price: number
+  /** Delivery estimate in business days. */
+  deliveryDays: { min: number; max: number }
+}
+
+export interface OrderShipping {
+  address: ShippingAddress
+  quote: FreightQuote
+  /** Freight actually charged, in cents; zero when a free-shipping coupon applies. */
+  price: Money
+}
+
+export interface RefundRecord {
+  id: string
+  amount: number
+  items: { sku: string; quantity: number }[]
+  createdAt: Date
+  /** How the refund was spread over the order legs. */
+  allocations: { attemptId: string; refundId: string; amount: number }[]
+}
+
 export interface PaymentAttempt {
   id: string
   method: PaymentMethod
-  status: "inicial" | "processando" | "pago" | "falhado" | "expirado"
+  status:
+    | "inicial"
+    | "processando"
+    | "pago"
+    | "falhado"
+    | "expirado"
+    | "cancelado"
+    | "estornado"
+    | "parcialmente_estornado"
   createdAt: Date
   updatedAt: Date
   details?: string
+  amount?: number
+  transactionId?: string
+  gateway?: string
+  pix?: PixCharge
+  boleto?: BoletoSlip
+  installments?: InstallmentPlan
+  idempotencyKey?: string
+  /** Order the attempt pays for; missing on attempts made before orders were recorded. */
+  orderId?: string
+  /** Shared by the legs of a split payment. */
+  splitId?: string
+  leg?: { index: number; count: number }
+  /** Set when a settled leg was reversed because another leg failed. */
+  rolledBack?: boolean
+  refundedAmount?: number
+  /** Order data, kept on the first leg of split payments. */
+  items?: PaymentLineItem[]
+  coupon?: AppliedCoupon
+  shipping?: OrderShipping
+  /** Price breakdown the order was charged with; missing on orders placed before it was kept. */
+  totals?: OrderTotals
+  refunds?: RefundRecord[]
 }
@@ -0,0 +1,54 @@
+import { formatCurrency } from "./format"
+
+/**
+ * An amount in integer centavos. Order math stays in cents so sums never
+ * drift; reais only appear at the edges: catalog and freight tables, the
+ * payment gateway and the screen.
+ */
+export type Money = number & { readonly __money: unique symbol }
+
+export const zeroMoney = 0 as Money
+
+/** Converts reais to cents. The fixed-point step absorbs float noise such as 1.005 × 100 = 100.4999… */
+export const toMoney = (reais: number) => Math.round(Number((reais * 100).toFixed(2))) as Money
+
+export const toReais = (amount: Money) => amount / 100
+
+/** Rounds half away from zero, as banks do for centavos. */
+const roundHalfUp = (value: number) => Math.sign(value) * Math.round(Math.abs(value))
+
+export const sumMoney = (amounts: Money[]) => amounts.reduce((sum, amount) => sum + amount, 0) as Money
+
+export const addMoney = (...amounts: Money[]) => sumMoney(amounts)
+
+export const subtractMoney = (amount: Money, ...deductions: Money[]) =>
+  deductions.reduce((rest, deduction) => rest - deduction, amount as number) as Money
+
+export const multiplyMoney = (amount: Money, factor: number) => roundHalfUp(amount * factor) as Money
+
+export const percentOf = (amount: Money, percent: number) => multiplyMoney(amount, percent / 100)
+
+export const minMoney = (...amounts: Money[]) => Math.min(...amounts) as Money
+
+/**
+ * Splits an amount proportionally to `weights` so the parts add up to the
+ * exact total; leftover cents go to the largest remainders.
+ */
+export const allocateMoney = (amount: Money, weights: number[]): Money[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+  if (totalWeight <= 0) return weights.map(() => zeroMoney)
+  const exact = weights.map((weight) => (amount * weight) / totalWeight)
+  const parts = exact.map(Math.floor)
+  let left = amount - parts.reduce((sum, part) => sum + part, 0)
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder)
+  for (const { index } of byRemainder) {
+    if (left <= 0) break
+    parts[index] += 1
+    left -= 1
+  }
+  return parts as Money[]
+}
+
+export const formatMoney = (amount: Money) => formatCurrency(toReais(amount))
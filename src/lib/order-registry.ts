@@ -0,0 +1,445 @@
+import { z } from "zod"
+
+import { approvedStatuses } from "./back-office"
+import { evaluateCoupon, redeemedCouponCodes } from "./coupons"
+import { readDatabase, updateDatabase, type DatabaseSchema, type StoredAccount } from "./database"
+import { availableStock, inventoryConfig, stockShortageMessage, type InventoryLedger } from "./inventory"
+import { toMoney, type Money } from "./money"
+import { fulfillmentFor, type FulfillmentStatus, type Order, type OrderAttemptRecord } from "./orders"
+import type { PaymentStatus } from "./payment-gateway"
+import { priceOrder, type OrderTotals } from "./pricing"
+import { commitOrderStock, findListedSku } from "./product-registry"
+import { shippingAddressSchema, splitAmountSchema } from "./schemas"
+import { quoteFreight } from "./shipping"
+import { combineLegStatuses } from "./split-payment"
+import type { CartItem } from "./types"
+import { variantLabel, variantName } from "./variants"
+
+/** An order as saved on the server, with ISO dates. */
+export type StoredOrder = Omit<Order, "createdAt" | "updatedAt"> & {
+  createdAt: string
+  updatedAt: string
+  /** Every attempt linked to the order; missing on orders saved before attempts were kept. */
+  attempts?: OrderAttemptRecord[]
+  /** When the paid units left the stock; set once. */
+  stockCommittedAt?: string
+  /** SKUs the stock no longer covered when the order was paid; their units were not taken out. */
+  oversold?: string[]
+  /** Until when the units of the unpaid order stay held for it. */
+  reservedUntil?: string
+  /**
+   * Attempts of the latest submission, in charge order; empty until its legs
+   * are charged. Missing on orders saved before submissions were priced here.
+   */
+  submission?: string[]
+}
+
+const paymentStatusSchema = z.enum([
+  "inicial",
+  "processando",
+  "pago",
+  "falhado",
+  "expirado",
+  "cancelado",
+  "estornado",
+  "parcialmente_estornado",
+])
+
+const moneySchema = z
+  .number()
+  .int()
+  .nonnegative()
+  .transform((value) => value as Money)
+
+const paymentMethodSchema = z.enum(["pix", "credit", "boleto"])
+
+const freightQuoteSchema = z.object({
+  carrierId: z.string().min(1),
+  carrier: z.string().min(1),
+  price: z.number().nonnegative(),
+  deliveryDays: z.object({ min: z.number().int(), max: z.number().int() }),
+})
+
+const isoDateSchema = z.coerce.date().transform((value) => value.toISOString())
+
+const orderAttemptSchema = z.object({
+  id: z.string().min(1),
+  method: paymentMethodSchema,
+  status: paymentStatusSchema,
+  amount: z.number().nonnegative().optional(),
+  details: z.string().optional(),
+  transactionId: z.string().optional(),
+  gateway: z.string().optional(),
+  leg: z.object({ index: z.number().int().positive(), count: z.number().int().positive() }).optional(),
+  rolledBack: z.boolean().optional(),
+  refundedAmount: z.number().nonnegative().optional(),
+  installments: z.number().int().positive().optional(),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema,
+})
+
+/**
+ * The totals as the browser priced them. The server prices the order again
+ * and turns it away when anything differs; only the coupon code, the carrier
+ * and the payment choices are read from here.
+ */
+const orderTotalsSchema = z.object({
+  lines: z.array(
+    z.object({
+      sku: z.string().min(1),
+      quantity: z.number().int().positive(),
+      unitPrice: moneySchema,
+      gross: moneySchema,
+      discount: moneySchema,
+      net: moneySchema,
+    }),
+  ),
+  subtotal: moneySchema,
+  lineDiscount: moneySchema,
+  orderDiscount: moneySchema,
+  shipping: moneySchema,
+  due: moneySchema,
+  pixDiscount: moneySchema,
+  interest: moneySchema,
+  total: moneySchema,
+  payments: z
+    .array(
+      z.object({
+        method: paymentMethodSchema,
+        amount: moneySchema,
+        charged: moneySchema,
+        installments: z.object({ count: z.number().int().positive() }).nullable(),
+      }),
+    )
+    .min(1)
+    .max(2),
+  coupon: z.object({ code: z.string().min(1) }).nullable(),
+  freight: freightQuoteSchema.nullable(),
+})
+
+const paymentDocumentsSchema = z
+  .array(
+    z.object({
+      attemptId: z.string().min(1),
+      pix: z.object({ payload: z.string().min(1), expiresAt: z.coerce.date() }).optional(),
+      boleto: z
+        .object({
+          digitableLine: z.string().min(1),
+          nossoNumero: z.string().min(1),
+          dueDate: z.string().min(1),
+          amount: z.number().positive(),
+          barcode: z.string().min(1),
+          instructions: z.string().optional(),
+        })
+        .optional(),
+    }),
+  )
+  .default([])
+
+/**
+ * Body of `POST /api/orders`, sent before any charge. Prices, names, the
+ * account, customer, dates and fulfillment come from the server, never from
+ * the client.
+ */
+export const placeOrderSchema = z.object({
+  id: z.string().min(1),
+  lines: z
+    .array(
+      z.object({
+        sku: z.string().refine((sku) => findListedSku(sku) !== null, "SKU fora do catálogo."),
+        quantity: z.number().int().positive(),
+      }),
+    )
+    .min(1),
+  totals: orderTotalsSchema,
+  shipping: z.object({
+    address: shippingAddressSchema,
+    quote: freightQuoteSchema,
+  }),
+})
+
+/**
+ * Body of `PATCH /api/orders/:id`: the legs of a submission once charged, or
+ * after a payment update. The order status is worked out again on the server.
+ */
+export const orderPaymentSchema = z.object({
+  /** Legs of the submission, in charge order; linked only while it has none. */
+  attemptIds: z.array(z.string().min(1)).min(1).optional(),
+  attempts: z.array(orderAttemptSchema).default([]),
+  /** Pix and boletos of the legs, e-mailed to the customer; not kept on the order. */
+  documents: paymentDocumentsSchema,
+})
+
+/** Known attempts with the incoming ones replacing their older copies. */
+const mergeAttempts = (current: OrderAttemptRecord[], incoming: OrderAttemptRecord[]) => [
+  ...current.map((attempt) => incoming.find((item) => item.id === attempt.id) ?? attempt),
+  ...incoming.filter((item) => !current.some((attempt) => attempt.id === item.id)),
+]
+
+type Transactions = DatabaseSchema["transactions"]
+
+/** The registered charge behind an attempt, when this account registered it for this order. */
+const chargeOf = (transactions: Transactions, order: StoredOrder, attempt: OrderAttemptRecord) => {
+  const transaction = attempt.transactionId ? transactions[attempt.transactionId] : undefined
+  return transaction && transaction.accountId === order.accountId && transaction.orderId === order.id
+    ? transaction
+    : null
+}
+
+/**
+ * Legs of the latest submission, in charge order. Orders saved before
+ * submissions were kept read them from the last attempt: for a split, the
+ * legs charged before it, as a split stops at its first failed leg.
+ */
+const latestLegs = (order: StoredOrder) => {
+  const attempts = order.attempts ?? []
+  const byId = (id: string) => attempts.find((attempt) => attempt.id === id) ?? []
+  if (order.submission) return order.submission.flatMap(byId)
+  const latest = attempts.find((attempt) => attempt.id === order.attemptIds[order.attemptIds.length - 1])
+  if (!latest) return []
+  return order.attemptIds.slice(-(latest.leg?.index ?? 1)).flatMap(byId)
+}
+
+/**
+ * Payment status of the order from the charges the payments API holds for
+ * its latest submission; what the browser reports is never trusted. Each
+ * priced leg needs a charge of its own, for its method and amount: a leg
+ * without one (a gateway error, a charge made for another order or for
+ * another amount) counts as failed, and so does a split charged short.
+ */
+const settledPaymentStatus = (transactions: Transactions, order: StoredOrder): PaymentStatus => {
+  const legs = latestLegs(order)
+  // Submissions not charged yet, and orders saved before attempts were kept, stay as they are.
+  if (legs.length === 0) return order.paymentStatus
+  const charges = legs.flatMap((leg) => chargeOf(transactions, order, leg) ?? [])
+  const { payments } = order.totals
+  if (charges.length < legs.length || charges.length < payments.length) return "falhado"
+  if (new Set(charges.map((charge) => charge.transactionId)).size < charges.length) return "falhado"
+  const priced = charges.every(
+    (charge, index) => charge.method === payments[index]?.method && toMoney(charge.amount) === payments[index].charged,
+  )
+  return priced ? combineLegStatuses(charges.map((charge) => charge.status)) : "falhado"
+}
+
+/**
+ * Saves the order with its payment status and attempts brought in line with
+ * the payments API, taking its units out of stock the first time it is paid
+ * and flagging the lines the stock no longer covers.
+ * `fulfillment` is where the fulfillment starts from.
+ */
+const saveOrder = (order: StoredOrder, fulfillment: FulfillmentStatus) =>
+  updateDatabase((database) => {
+    const paymentStatus = settledPaymentStatus(database.transactions, order)
+    const settled: StoredOrder = {
+      ...order,
+      attempts: order.attempts?.map((attempt) => {
+        const charge = chargeOf(database.transactions, order, attempt)
+        return charge ? { ...attempt, status: charge.status, refundedAmount: charge.refundedAmount } : attempt
+      }),
+      paymentStatus,
+      fulfillment: fulfillmentFor(fulfillment, paymentStatus),
+    }
+    if (paymentStatus === "pago" && !settled.stockCommittedAt) {
+      const oversold = commitOrderStock(database, settled)
+      settled.stockCommittedAt = new Date().toISOString()
+      if (oversold.length > 0) settled.oversold = oversold
+    }
+    database.orders[settled.id] = settled
+    return settled
+  })
+
+/** Every order of every account, for the back office. */
+export const listAllOrders = () => Object.values(readDatabase().orders)
+
+export const findOrder = (id: string) => readDatabase().orders[id] ?? null
+
+export const listOrders = (accountId: string) =>
+  Object.values(readDatabase().orders).filter((order) => order.accountId === accountId)
+
+/** The order, only when it belongs to `accountId`. */
+export const getOrder = (id: string, accountId: string) => {
+  const order = readDatabase().orders[id]
+  return order && order.accountId === accountId ? order : null
+}
+
+export type PlaceOrderResult =
+  | { ok: true; order: StoredOrder }
+  | { ok: false; reason: "not_found" | "already_paid" | "price_changed" | "freight_unavailable" }
+  | { ok: false; reason: "coupon" | "out_of_stock"; error: string }
+
+/** Units held by unpaid orders, in the ledger shape the storefront checks stock with. */
+const heldStock = (database: DatabaseSchema): InventoryLedger => ({
+  sold: {},
+  reservations: Object.values(database.orders).flatMap((order) =>
+    order.paymentStatus === "processando" && !order.stockCommittedAt && order.reservedUntil
+      ? [
+          {
+            key: order.id,
+            items: order.lines.map(({ sku, quantity }) => ({ sku, quantity })),
+            expiresAt: Date.parse(order.reservedUntil),
+          },
+        ]
+      : [],
+  ),
+  committed: [],
+})
+
+/** What the customer was shown and what is charged; any difference turns the order away. */
+const priceFingerprint = (totals: {
+  lines: { sku: string; quantity: number; unitPrice: Money; net: Money }[]
+  shipping: Money
+  due: Money
+  total: Money
+  payments: { method: string; amount: Money; charged: Money }[]
+}) =>
+  JSON.stringify([
+    totals.lines.map(({ sku, quantity, unitPrice, net }) => [sku, quantity, unitPrice, net]),
+    totals.shipping,
+    totals.due,
+    totals.total,
+    totals.payments.map(({ method, amount, charged }) => [method, amount, charged]),
+  ])
+
+/**
+ * Prices the submission with the catalog, coupons and freight table of the
+ * server, for the payment legs the customer chose. Null while the payment
+ * choices do not price at all (e.g. a split leg out of range).
+ */
+const priceSubmission = (
+  items: CartItem[],
+  input: z.infer<typeof placeOrderSchema>,
+  coupon: OrderTotals["coupon"],
+  freight: OrderTotals["freight"],
+) => {
+  const [primary, second] = input.totals.payments.map((leg) => ({
+    amount: leg.amount,
+    payment: { paymentMethod: leg.method, installments: leg.installments?.count },
+  }))
+  const split = second ?? null
+  const totals = priceOrder({ items, coupon, freight, payment: primary.payment, split })
+  if (split && !splitAmountSchema(totals.due).safeParse(split.amount).success) return null
+  return totals
+}
+
+/**
+ * Records a submission for the account before it is charged, priced again
+ * on the server, and holds its units while it is charged. Retrying an unpaid order replaces its snapshot; the
+ * attempts charged before stay linked, the new ones come with
+ * `updateOrderPayment`.
+ */
+export const placeOrder = (account: StoredAccount, input: z.infer<typeof placeOrderSchema>): PlaceOrderResult => {
+  const existing = readDatabase().orders[input.id]
+  if (existing && existing.accountId !== account.id) return { ok: false, reason: "not_found" }
+  if (existing && approvedStatuses.includes(existing.paymentStatus)) return { ok: false, reason: "already_paid" }
+
+  const items = input.lines.flatMap((line): CartItem[] => {
+    const listed = findListedSku(line.sku)
+    return listed ? [{ ...listed, quantity: line.quantity, updatedAt: 0 }] : []
+  })
+  if (items.length < input.lines.length) return { ok: false, reason: "price_changed" }
+
+  const held = heldStock(readDatabase())
+  for (const { product, variant, quantity } of items) {
+    const available = availableStock(held, variant, input.id)
+    if (quantity > available) {
+      return { ok: false, reason: "out_of_stock", error: stockShortageMessage(variantName(product, variant), available) }
+    }
+  }
+
+  let coupon: OrderTotals["coupon"] = null
+  if (input.totals.coupon) {
+    // Single-use coupons are checked against the account's paid orders, whatever the browser remembers.
+    const evaluation = evaluateCoupon(input.totals.coupon.code, {
+      items,
+      accountId: account.id,
+      redeemedCodes: redeemedCouponCodes(listOrders(account.id).filter((order) => order.id !== input.id)),
+    })
+    if (!evaluation.ok) return { ok: false, reason: "coupon", error: evaluation.error }
+    coupon = evaluation.coupon
+  }
+  const freight = quoteFreight(items, input.shipping.address.state).find(
+    (quote) => quote.carrierId === input.shipping.quote.carrierId,
+  )
+  if (!freight) return { ok: false, reason: "freight_unavailable" }
+
+  const totals = priceSubmission(items, input, coupon, freight)
+  if (!totals || priceFingerprint(totals) !== priceFingerprint(input.totals)) {
+    return { ok: false, reason: "price_changed" }
+  }
+
+  const now = new Date().toISOString()
+  const order = saveOrder(
+    {
+      id: input.id,
+      accountId: account.id,
+      customer: { name: account.name, email: account.email, document: account.document },
+      lines: items.map(({ product, variant, quantity }) => ({
+        productId: product.id,
+        sku: variant.sku,
+        name: product.name,
+        variant: variantLabel(product, variant),
+        unitPrice: variant.price,
+        quantity,
+      })),
+      totals,
+      shipping: { address: input.shipping.address, quote: freight, price: totals.shipping },
+      attemptIds: existing?.attemptIds ?? [],
+      attempts: existing?.attempts ?? [],
+      submission: [],
+      paymentStatus: "processando",
+      fulfillment: "aguardando_pagamento",
+      stockCommittedAt: existing?.stockCommittedAt,
+      reservedUntil: new Date(Date.now() + inventoryConfig.reservationTtlMs).toISOString(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    },
+    "aguardando_pagamento",
+  )
+  return { ok: true, order }
+}
+
+/** Saves the order again when its payment status or attempts changed; `updatedAt` moves with the status. */
+const resettle = (order: StoredOrder, attempts: OrderAttemptRecord[] = []) => {
+  const paymentStatus = settledPaymentStatus(readDatabase().transactions, order)
+  if (paymentStatus === order.paymentStatus && attempts.length === 0) return order
+  return saveOrder(
+    {
+      ...order,
+      attempts: mergeAttempts(order.attempts ?? [], attempts),
+      updatedAt: paymentStatus === order.paymentStatus ? order.updatedAt : new Date().toISOString(),
+    },
+    order.fulfillment,
+  )
+}
+
+/**
+ * Follows a payment update from the browser. The legs of a submission are
+ * linked the first time they are sent, holding the units while Pix or boleto
+ * wait to be paid, and the attempts are recorded; the
+ * order status comes from the payments API, where only the latest submission
+ * decides it.
+ */
+export const updateOrderPayment = (order: StoredOrder, input: z.infer<typeof orderPaymentSchema>) =>
+  resettle(
+    input.attemptIds && order.submission?.length === 0
+      ? {
+          ...order,
+          submission: input.attemptIds,
+          attemptIds: [...order.attemptIds, ...input.attemptIds],
+          reservedUntil: new Date(Date.now() + inventoryConfig.pendingPaymentTtlMs).toISOString(),
+        }
+      : order,
+    input.attempts,
+  )
+
+/**
+ * Follows a charge the provider settled (a webhook), so orders paid with the
+ * browser closed are up to date. Returns the orders whose status changed.
+ */
+export const settleOrdersCharged = (transactionId: string) =>
+  Object.values(readDatabase().orders)
+    .filter((order) => (order.attempts ?? []).some((attempt) => attempt.transactionId === transactionId))
+    .flatMap((order) => {
+      const updated = resettle(order)
+      return updated.paymentStatus === order.paymentStatus ? [] : [updated]
+    })
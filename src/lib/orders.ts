@@ -0,0 +1,150 @@
+import type { BoletoSlip } from "./boleto"
+import { toIsoDate } from "./format"
+import type { OrderShipping, PaymentAttempt, PaymentLineItem, User } from "./mock-data"
+import type { PaymentStatus } from "./payment-gateway"
+import type { PixCharge } from "./pix"
+import type { OrderTotals } from "./pricing"
+import { combineLegStatuses, isFailedStatus } from "./split-payment"
+import type { CartItem } from "./types"
+import { findBySku, lineItemName } from "./variants"
+
+/** Where the goods are, independently of how the payment went. */
+export type FulfillmentStatus = "aguardando_pagamento" | "em_preparacao" | "enviado" | "entregue" | "cancelado"
+
+export const fulfillmentStatusLabels: Record<FulfillmentStatus, string> = {
+  aguardando_pagamento: "Aguardando pagamento",
+  em_preparacao: "Em preparação",
+  enviado: "Enviado",
+  entregue: "Entregue",
+  cancelado: "Cancelado",
+}
+
+export const fulfillmentStatusVariants: Record<FulfillmentStatus, "default" | "secondary" | "destructive" | "outline"> =
+  {
+    aguardando_pagamento: "outline",
+    em_preparacao: "default",
+    enviado: "default",
+    entregue: "secondary",
+    cancelado: "destructive",
+  }
+
+/**
+ * A purchase as the customer sees it: what was bought, for how much, by
+ * whom and where it goes. Payments stay on their attempts; the order links
+ * them and keeps the status of the latest submission.
+ */
+export interface Order {
+  id: string
+  accountId: string
+  customer: Pick<User, "name" | "email" | "document">
+  /** Snapshot of the cart lines at checkout. */
+  lines: PaymentLineItem[]
+  totals: OrderTotals
+  shipping: OrderShipping
+  /** Every attempt charged for the order, retries included, in charge order. */
+  attemptIds: string[]
+  paymentStatus: PaymentStatus
+  fulfillment: FulfillmentStatus
+  createdAt: Date
+  updatedAt: Date
+}
+
+/** Short reference shown to the customer, e.g. "#3F9A1C2B". */
+export const orderNumber = (order: Pick<Order, "id">) => `#${order.id.slice(-8).toUpperCase()}`
+
+/**
+ * Fulfillment after a payment update: a paid order goes to preparation, a
+ * payment that failed, expired, was cancelled or fully refunded cancels it.
+ * Orders already on their way are left alone.
+ */
+export const fulfillmentFor = (current: FulfillmentStatus, payment: PaymentStatus): FulfillmentStatus => {
+  if (current === "enviado" || current === "entregue") return current
+  if (payment === "pago") return current === "aguardando_pagamento" ? "em_preparacao" : current
+  if (isFailedStatus(payment) || payment === "cancelado" || payment === "estornado") return "cancelado"
+  return current
+}
+
+/** Payment status of an order from the legs of its latest submission. */
+export const orderPaymentStatus = (legs: PaymentAttempt[]) => combineLegStatuses(legs.map((leg) => leg.status))
+
+/**
+ * What the server keeps of each payment attempt of an order, for the back
+ * office. Card data, Pix codes and boletos stay out.
+ */
+export type OrderAttemptRecord = Pick<
+  PaymentAttempt,
+  "id" | "method" | "status" | "amount" | "details" | "transactionId" | "gateway" | "leg" | "rolledBack" | "refundedAmount"
+> & {
+  /** Number of card installments. */
+  installments?: number
+  createdAt: string
+  updatedAt: string
+}
+
+export const attemptRecord = (attempt: PaymentAttempt): OrderAttemptRecord => ({
+  id: attempt.id,
+  method: attempt.method,
+  status: attempt.status,
+  amount: attempt.amount,
+  details: attempt.details,
+  transactionId: attempt.transactionId,
+  gateway: attempt.gateway,
+  leg: attempt.leg,
+  rolledBack: attempt.rolledBack,
+  refundedAmount: attempt.refundedAmount,
+  installments: attempt.installments?.count,
+  createdAt: new Date(attempt.createdAt).toISOString(),
+  updatedAt: new Date(attempt.updatedAt).toISOString(),
+})
+
+/** Pix or boleto of a submission still awaiting payment; the customer gets it by e-mail. */
+export interface PaymentDocument {
+  attemptId: string
+  pix?: PixCharge
+  boleto?: BoletoSlip
+}
+
+export const paymentDocuments = (legs: PaymentAttempt[]): PaymentDocument[] =>
+  legs.flatMap((leg) =>
+    leg.status === "processando" && (leg.pix || leg.boleto)
+      ? [{ attemptId: leg.id, pix: leg.pix, boleto: leg.boleto }]
+      : [],
+  )
+
+export interface OrderFilters {
+  fulfillment: FulfillmentStatus | "todos"
+  /** Inclusive `yyyy-mm-dd` bounds on the order date. */
+  from?: string
+  to?: string
+}
+
+export const defaultOrderFilters: OrderFilters = { fulfillment: "todos" }
+
+/** Orders matching the filters, newest first. */
+export const filterOrders = (orders: Order[], filters: OrderFilters) =>
+  orders
+    .filter((order) => filters.fulfillment === "todos" || order.fulfillment === filters.fulfillment)
+    .filter((order) => !filters.from || toIsoDate(order.createdAt) >= filters.from)
+    .filter((order) => !filters.to || toIsoDate(order.createdAt) <= filters.to)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+
+export interface ReorderResult {
+  /** Lines still sold, at today's catalog price and variant. */
+  items: CartItem[]
+  /** Names of lines whose SKU left the catalog. */
+  unavailable: string[]
+}
+
+/** Turns an order back into cart lines for "Comprar novamente". */
+export const reorderItems = (order: Order): ReorderResult => {
+  const unavailable: string[] = []
+  const items = order.lines.flatMap((line): CartItem[] => {
+    const listed = findBySku(line.sku)
+    if (!listed) {
+      unavailable.push(lineItemName(line))
+      return []
+    }
+    return [{ ...listed, quantity: line.quantity, updatedAt: Date.now() }]
+  })
+  return { items, unavailable }
+}
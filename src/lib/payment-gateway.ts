@@ -0,0 +1,475 @@
+import { usesApi } from "./api-client"
+import { createBoleto, type BoletoSlip } from "./boleto"
+import { createId } from "./ids"
+import type { PaymentAttempt, PaymentMethod } from "./mock-data"
+import { createPixCharge, type PixCharge } from "./pix"
+import { applyRefund } from "./refunds"
+
+export type PaymentStatus = PaymentAttempt["status"]
+
+export interface AuthorizationRequest {
+  method: PaymentMethod
+  amount: number
+  installments?: number
+  /** Authorizations repeated with the same key return the original transaction. */
+  idempotencyKey?: string
+  /** Order the charge pays; the payments API only counts it toward that order. */
+  orderId?: string
+  boleto?: {
+    dueDate: string
+    instructions?: string
+  }
+}
+
+export interface GatewayTransaction {
+  transactionId: string
+  method: PaymentMethod
+  status: PaymentStatus
+  details?: string
+  pix?: PixCharge
+  boleto?: BoletoSlip
+}
+
+export interface GatewayRefund {
+  refundId: string
+  transactionId: string
+  amount: number
+  /** Total refunded on the transaction so far. */
+  refundedAmount: number
+  status: PaymentStatus
+}
+
+export interface PaymentGateway {
+  readonly name: string
+  authorize: (request: AuthorizationRequest) => Promise<GatewayTransaction>
+  capture: (transactionId: string) => Promise<GatewayTransaction>
+  getStatus: (transactionId: string) => Promise<GatewayTransaction>
+  /** Voids a pending charge or reverses a captured one. */
+  cancel: (transactionId: string) => Promise<GatewayTransaction>
+  /** Settles a pending Pix as `expirado` once its QR Code runs out; other charges are left as they are. */
+  expire: (transactionId: string) => Promise<GatewayTransaction>
+  /** Refunds part or all of a captured charge. */
+  refund: (transactionId: string, amount: number) => Promise<GatewayRefund>
+}
+
+export type PaymentGatewayName = "mock" | "scenario"
+
+export interface PaymentGatewayConfig {
+  /**
+   * How outcomes are decided. With the API data source the payments API
+   * applies it on the server; in the local mode the browser does.
+   */
+  gateway: PaymentGatewayName
+  /** Charge through the payments API instead of simulating in the browser. */
+  remote: boolean
+  scenario: Partial<Record<PaymentMethod, PaymentStatus>>
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const createTransactionId = (prefix: string) => createId(prefix)
+
+/**
+ * Wraps `authorize` so concurrent or repeated calls sharing an idempotency key
+ * reuse the first authorization. Failed authorizations are forgotten so the
+ * same key can be retried.
+ */
+const withIdempotency = (
+  authorize: (request: AuthorizationRequest) => Promise<GatewayTransaction>,
+): PaymentGateway["authorize"] => {
+  const authorizations = new Map<string, Promise<GatewayTransaction>>()
+  return (request) => {
+    const key = request.idempotencyKey
+    if (!key) return authorize(request)
+    const existing = authorizations.get(key)
+    if (existing) return existing
+    const authorization = authorize(request).catch((error: unknown) => {
+      authorizations.delete(key)
+      throw error
+    })
+    authorizations.set(key, authorization)
+    return authorization
+  }
+}
+
+const unknownTransaction = (transactionId: string): Error =>
+  new Error(`Transação ${transactionId} não encontrada no gateway.`)
+
+const cancellableStatuses: PaymentStatus[] = ["processando", "pago", "parcialmente_estornado"]
+
+/** Pending charges are voided; captured ones are reversed in full. */
+const cancelledStatus = (status: PaymentStatus): PaymentStatus =>
+  status === "processando" ? "cancelado" : "estornado"
+
+const paymentSuccessRates: Record<PaymentMethod, number> = {
+  pix: 0.85,
+  credit: 0.72,
+  boleto: 0.6,
+}
+
+export const getRandomStatus = (method: PaymentMethod): PaymentStatus => {
+  const successRate = paymentSuccessRates[method] ?? 0.5
+  const random = Math.random()
+
+  if (random <= successRate) return "pago"
+  if (random <= successRate + 0.1) return "expirado"
+  return "falhado"
+}
+
+/**
+ * Issues the payment documents the customer needs: the Pix BR Code or the
+ * registered boleto. Boletos without a due date cannot be registered.
+ */
+const issueDocuments = (
+  { method, amount, boleto }: AuthorizationRequest,
+  transactionId: string,
+): Pick<GatewayTransaction, "pix" | "boleto"> => {
+  if (method === "pix") {
+    return { pix: createPixCharge({ amount, reference: transactionId }) }
+  }
+  if (method === "boleto") {
+    if (!boleto?.dueDate) {
+      throw new Error("Informe a data de vencimento para registrar o boleto.")
+    }
+    return {
+      boleto: createBoleto({
+        amount,
+        dueDate: boleto.dueDate,
+        instructions: boleto.instructions,
+        reference: transactionId,
+      }),
+    }
+  }
+  return {}
+}
+
+/**
+ * Pix and boleto are confirmed asynchronously: the charge stays pending
+ * until the provider reports it, through a signed webhook on the payments API.
+ */
+export const asyncPaymentMethods: PaymentMethod[] = ["pix", "boleto"]
+
+type StoredTransaction = {
+  method: PaymentMethod
+  amount: number
+  refundedAmount: number
+  outcome: PaymentStatus
+  status: PaymentStatus
+  details?: string
+  pix?: PixCharge
+  boleto?: BoletoSlip
+}
+
+/**
+ * Simulated processor kept in the browser, for the local mode. Cards keep
+ * the original random approval rates: the outcome is rolled on authorization
+ * and revealed on capture. No webhook reaches the browser, so Pix and boleto
+ * reveal theirs on the first status query.
+ */
+export const createMockGateway = (): PaymentGateway => {
+  const transactions = new Map<string, StoredTransaction>()
+
+  const find = (transactionId: string) => {
+    const transaction = transactions.get(transactionId)
+    if (!transaction) throw unknownTransaction(transactionId)
+    return transaction
+  }
+
+  const read = (transactionId: string): GatewayTransaction => {
+    const transaction = find(transactionId)
+    return {
+      transactionId,
+      method: transaction.method,
+      status: transaction.status,
+      details: transaction.details,
+      pix: transaction.pix,
+      boleto: transaction.boleto,
+    }
+  }
+
+  return {
+    name: "mock",
+    authorize: withIdempotency(async (request) => {
+      await sleep(1400)
+      const transactionId = createTransactionId("mock")
+      transactions.set(transactionId, {
+        method: request.method,
+        amount: request.amount,
+        refundedAmount: 0,
+        outcome: getRandomStatus(request.method),
+        status: "processando",
+        ...issueDocuments(request, transactionId),
+      })
+      return read(transactionId)
+    }),
+    async capture(transactionId) {
+      await sleep(800)
+      const transaction = find(transactionId)
+      if (!asyncPaymentMethods.includes(transaction.method)) {
+        transaction.status = transaction.outcome
+      }
+      return read(transactionId)
+    },
+    async getStatus(transactionId) {
+      const transaction = find(transactionId)
+      if (transaction.status === "processando" && asyncPaymentMethods.includes(transaction.method)) {
+        transaction.status = transaction.outcome
+      }
+      return read(transactionId)
+    },
+    async cancel(transactionId) {
+      const transaction = find(transactionId)
+      if (cancellableStatuses.includes(transaction.status)) {
+        transaction.status = cancelledStatus(transaction.status)
+      }
+      return read(transactionId)
+    },
+    async expire(transactionId) {
+      const transaction = find(transactionId)
+      if (transaction.status === "processando" && transaction.pix) transaction.status = "expirado"
+      return read(transactionId)
+    },
+    async refund(transactionId, amount) {
+      await sleep(600)
+      const transaction = find(transactionId)
+      Object.assign(transaction, applyRefund(transaction, amount))
+      return {
+        refundId: createId("refund"),
+        transactionId,
+        amount,
+        refundedAmount: transaction.refundedAmount,
+        status: transaction.status,
+      }
+    },
+  }
+}
+
+const paymentsApiUrl = "/api/payments"
+
+const requestPaymentsApi = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${paymentsApiUrl}${path}`, {
+    ...init,
+    credentials: "same-origin",
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  })
+  if (!response.ok) {
+    // Business errors (e.g. a refund above the balance) carry a readable message.
+    const body = (await response.json().catch(() => null)) as { error?: string } | null
+    throw new Error(
+      response.status === 409 && body?.error
+        ? body.error
+        : "Não foi possível comunicar com o gateway de pagamento. Tente novamente.",
+    )
+  }
+  return response.json() as Promise<T>
+}
+
+type RemoteTransaction = {
+  method: PaymentMethod
+  status: PaymentStatus
+  details?: string
+}
+
+/**
+ * Charges through the payments API, for the API data source. The server
+ * decides every outcome (see `payment-registry.ts`), so the orders it keeps
+ * never take a payment status from the browser. Pix and boleto documents are
+ * issued here and kept for the lifetime of the tab.
+ */
+export const createApiGateway = (): PaymentGateway => {
+  const documents = new Map<string, Pick<GatewayTransaction, "pix" | "boleto">>()
+
+  const read = (transactionId: string, remote: RemoteTransaction): GatewayTransaction => ({
+    transactionId,
+    method: remote.method,
+    status: remote.status,
+    details: remote.details,
+    ...documents.get(transactionId),
+  })
+
+  const path = (transactionId: string, suffix = "") => `/${encodeURIComponent(transactionId)}${suffix}`
+
+  return {
+    name: "api",
+    authorize: withIdempotency(async (request) => {
+      const transactionId = createTransactionId("charge")
+      documents.set(transactionId, issueDocuments(request, transactionId))
+      const remote = await requestPaymentsApi<RemoteTransaction>("", {
+        method: "POST",
+        body: JSON.stringify({
+          transactionId,
+          orderId: request.orderId,
+          method: request.method,
+          amount: request.amount,
+        }),
+      })
+      return read(transactionId, remote)
+    }),
+    async capture(transactionId) {
+      const remote = await requestPaymentsApi<RemoteTransaction>(path(transactionId, "/capture"), {
+        method: "POST",
+      })
+      return read(transactionId, remote)
+    },
+    async getStatus(transactionId) {
+      return read(transactionId, await requestPaymentsApi<RemoteTransaction>(path(transactionId)))
+    },
+    async cancel(transactionId) {
+      const remote = await requestPaymentsApi<RemoteTransaction>(path(transactionId), { method: "DELETE" })
+      return read(transactionId, remote)
+    },
+    async expire(transactionId) {
+      const remote = await requestPaymentsApi<RemoteTransaction>(path(transactionId, "/expire"), {
+        method: "POST",
+      })
+      return read(transactionId, remote)
+    },
+    refund: (transactionId, amount) =>
+      requestPaymentsApi<GatewayRefund>(path(transactionId, "/refunds"), {
+        method: "POST",
+        body: JSON.stringify({ amount }),
+      }),
+  }
+}
+
+/**
+ * Deterministic processor for QA: every method settles with the status set
+ * in the scenario (defaults to `pago`), without artificial latency. Pix
+ * charges settle on the first status query; `expirado` leaves them pending
+ * so the QR Code countdown runs out.
+ */
+export const createScenarioGateway = (
+  scenario: PaymentGatewayConfig["scenario"] = {},
+): PaymentGateway => {
+  const transactions = new Map<
+    string,
+    {
+      method: PaymentMethod
+      amount: number
+      refundedAmount: number
+      status: PaymentStatus
+      pix?: PixCharge
+      boleto?: BoletoSlip
+    }
+  >()
+
+  const outcomeFor = (method: PaymentMethod) => scenario[method] ?? "pago"
+
+  const read = (transactionId: string): GatewayTransaction => {
+    const transaction = transactions.get(transactionId)
+    if (!transaction) throw unknownTransaction(transactionId)
+    const { method, status, pix, boleto } = transaction
+    return { transactionId, method, status, pix, boleto }
+  }
+
+  return {
+    name: "scenario",
+    authorize: withIdempotency(async (request) => {
+      const transactionId = createTransactionId("scenario")
+      transactions.set(transactionId, {
+        method: request.method,
+        amount: request.amount,
+        refundedAmount: 0,
+        status: "processando",
+        ...issueDocuments(request, transactionId),
+      })
+      return read(transactionId)
+    }),
+    async capture(transactionId) {
+      const transaction = transactions.get(transactionId)
+      if (!transaction) throw unknownTransaction(transactionId)
+      if (!transaction.pix) {
+        transaction.status = outcomeFor(transaction.method)
+      }
+      return read(transactionId)
+    },
+    async getStatus(transactionId) {
+      const transaction = transactions.get(transactionId)
+      if (
+        transaction?.status === "processando" &&
+        transaction.pix &&
+        outcomeFor(transaction.method) !== "expirado"
+      ) {
+        transaction.status = outcomeFor(transaction.method)
+      }
+      return read(transactionId)
+    },
+    async cancel(transactionId) {
+      const transaction = transactions.get(transactionId)
+      if (!transaction) throw unknownTransaction(transactionId)
+      if (cancellableStatuses.includes(transaction.status)) {
+        transaction.status = cancelledStatus(transaction.status)
+      }
+      return read(transactionId)
+    },
+    async expire(transactionId) {
+      const transaction = transactions.get(transactionId)
+      if (!transaction) throw unknownTransaction(transactionId)
+      if (transaction.status === "processando" && transaction.pix) transaction.status = "expirado"
+      return read(transactionId)
+    },
+    async refund(transactionId, amount) {
+      const transaction = transactions.get(transactionId)
+      if (!transaction) throw unknownTransaction(transactionId)
+      Object.assign(transaction, applyRefund(transaction, amount))
+      return {
+        refundId: createId("refund"),
+        transactionId,
+        amount,
+        refundedAmount: transaction.refundedAmount,
+        status: transaction.status,
+      }
+    },
+  }
+}
+
+const paymentStatuses: PaymentStatus[] = ["inicial", "processando", "pago", "falhado", "expirado"]
+const paymentMethods: PaymentMethod[] = ["pix", "credit", "boleto"]
+
+/**
+ * Parses scenarios written as `pix=pago,credit=falhado,boleto=expirado`.
+ * Unknown methods or statuses are ignored.
+ */
+export const parseScenario = (value: string | undefined): PaymentGatewayConfig["scenario"] =>
+  (value ?? "")
+    .split(",")
+    .map((entry) => entry.split("=").map((part) => part.trim()))
+    .reduce<PaymentGatewayConfig["scenario"]>((acc, [method, status]) => {
+      if (
+        paymentMethods.includes(method as PaymentMethod) &&
+        paymentStatuses.includes(status as PaymentStatus)
+      ) {
+        acc[method as PaymentMethod] = status as PaymentStatus
+      }
+      return acc
+    }, {})
+
+export const paymentGatewayConfig: PaymentGatewayConfig = {
+  gateway: process.env.NEXT_PUBLIC_PAYMENT_GATEWAY === "scenario" ? "scenario" : "mock",
+  remote: usesApi(),
+  scenario: parseScenario(process.env.NEXT_PUBLIC_PAYMENT_SCENARIO),
+}
+
+export const createPaymentGateway = (config: PaymentGatewayConfig): PaymentGateway => {
+  if (config.remote) return createApiGateway()
+  switch (config.gateway) {
+    case "scenario":
+      return createScenarioGateway(config.scenario)
+    case "mock":
+    default:
+      return createMockGateway()
+  }
+}
+
+let activeGateway: PaymentGateway | null = null
+
+export const getPaymentGateway = (): PaymentGateway => {
+  if (!activeGateway) {
+    activeGateway = createPaymentGateway(paymentGatewayConfig)
+  }
+  return activeGateway
+}
+
+export const setPaymentGateway = (gateway: PaymentGateway) => {
+  activeGateway = gateway
+}
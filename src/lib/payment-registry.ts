@@ -0,0 +1,233 @@
+import { z } from "zod"
+
+import { readDatabase, updateDatabase } from "./database"
+import { createId } from "./ids"
+import type { PaymentMethod } from "./mock-data"
+import { toMoney } from "./money"
+import {
+  asyncPaymentMethods,
+  getRandomStatus,
+  paymentGatewayConfig,
+  type GatewayRefund,
+  type PaymentStatus,
+} from "./payment-gateway"
+import type { PaymentWebhookEvent } from "./payment-webhooks"
+import { applyRefund } from "./refunds"
+
+export const registerTransactionSchema = z.object({
+  transactionId: z.string().min(1),
+  orderId: z.string().min(1),
+  method: z.enum(["pix", "credit", "boleto"]),
+  amount: z.number().positive(),
+})
+
+export const refundTransactionSchema = z.object({
+  amount: z.number().positive(),
+})
+
+export interface RegisteredTransaction {
+  transactionId: string
+  /** Account that registered the charge; missing on charges registered before sessions. */
+  accountId?: string
+  /** Order the charge pays; missing on charges registered before orders were checked. */
+  orderId?: string
+  method: PaymentMethod
+  amount: number
+  refundedAmount: number
+  status: PaymentStatus
+  details?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type RefundResult =
+  | { ok: true; refund: GatewayRefund }
+  | { ok: false; reason: "unknown_transaction" | "not_refundable"; message?: string }
+
+export type RegisterTransactionResult =
+  | { ok: true; transaction: RegisteredTransaction }
+  | { ok: false; reason: "taken" | "unknown_order" | "unpriced_amount" }
+
+export type ExpireTransactionResult =
+  | { ok: true; transaction: RegisteredTransaction }
+  | { ok: false; reason: "unknown_transaction" | "not_expirable" }
+
+export type ApplyEventResult =
+  | { ok: true; duplicate: boolean; transaction: RegisteredTransaction }
+  | { ok: false; reason: "unknown_transaction" | "already_settled" }
+
+/**
+ * Records a charge awaiting capture or confirmation in the local database.
+ * The charge must pay a leg of one of the account's orders, as the server
+ * priced it: same method, same amount. Registering the same id again returns
+ * the record, unless another account registered it.
+ */
+export const registerTransaction = (
+  input: z.infer<typeof registerTransactionSchema>,
+  accountId: string,
+): RegisterTransactionResult => {
+  const existing = getTransaction(input.transactionId)
+  if (existing) {
+    return existing.accountId === accountId ? { ok: true, transaction: existing } : { ok: false, reason: "taken" }
+  }
+
+  const order = readDatabase().orders[input.orderId]
+  if (!order || order.accountId !== accountId) return { ok: false, reason: "unknown_order" }
+  const priced = order.totals.payments.some(
+    (leg) => leg.method === input.method && leg.charged === toMoney(input.amount),
+  )
+  if (!priced) return { ok: false, reason: "unpriced_amount" }
+
+  const now = new Date().toISOString()
+  const transaction: RegisteredTransaction = {
+    ...input,
+    accountId,
+    refundedAmount: 0,
+    status: "processando",
+    createdAt: now,
+    updatedAt: now,
+  }
+  updateDatabase((database) => {
+    database.transactions[transaction.transactionId] = transaction
+  })
+  return { ok: true, transaction }
+}
+
+export const getTransaction = (transactionId: string) => readDatabase().transactions[transactionId] ?? null
+
+/** Transactions with `status`, of one account or, for the provider, of every account. */
+export const listTransactions = (status?: PaymentStatus, accountId?: string) =>
+  Object.values(readDatabase().transactions).filter(
+    (transaction) =>
+      (!status || transaction.status === status) && (!accountId || transaction.accountId === accountId),
+  )
+
+/**
+ * The transaction, only when `accountId` registered it or one of its orders
+ * was charged through it. Others read as missing.
+ */
+export const getAccountTransaction = (transactionId: string, accountId: string) => {
+  const transaction = getTransaction(transactionId)
+  if (!transaction) return null
+  if (transaction.accountId === accountId) return transaction
+  const linked = Object.values(readDatabase().orders).some(
+    (order) =>
+      order.accountId === accountId &&
+      (order.attempts ?? []).some((attempt) => attempt.transactionId === transactionId),
+  )
+  return linked ? transaction : null
+}
+
+const settle = (
+  transaction: RegisteredTransaction,
+  status: PaymentStatus,
+  details?: string,
+  changes: Partial<RegisteredTransaction> = {},
+): RegisteredTransaction => {
+  const updated = { ...transaction, ...changes, status, details, updatedAt: new Date().toISOString() }
+  updateDatabase((database) => {
+    database.transactions[transaction.transactionId] = updated
+  })
+  return updated
+}
+
+/**
+ * Outcome the simulated provider settles a charge with: fixed per method in
+ * the `scenario` mode, rolled with the mock approval rates otherwise.
+ */
+const providerOutcome = (method: PaymentMethod): PaymentStatus =>
+  paymentGatewayConfig.gateway === "scenario"
+    ? (paymentGatewayConfig.scenario[method] ?? "pago")
+    : getRandomStatus(method)
+
+/**
+ * Captures an authorized charge. Cards settle here; Pix and boletos wait for
+ * the webhook, except boletos in the `scenario` mode, which settle at once.
+ */
+export const captureTransaction = (transactionId: string) => {
+  const transaction = getTransaction(transactionId)
+  if (!transaction || transaction.status !== "processando") return transaction
+  const settlesNow =
+    !asyncPaymentMethods.includes(transaction.method) ||
+    (paymentGatewayConfig.gateway === "scenario" && transaction.method === "boleto")
+  return settlesNow ? settle(transaction, providerOutcome(transaction.method)) : transaction
+}
+
+/**
+ * The transaction as a status query sees it. In the `scenario` mode a
+ * pending Pix settles on its first query, unless the scenario lets it expire.
+ */
+export const checkTransaction = (transaction: RegisteredTransaction) => {
+  if (
+    paymentGatewayConfig.gateway !== "scenario" ||
+    transaction.method !== "pix" ||
+    transaction.status !== "processando"
+  ) {
+    return transaction
+  }
+  const outcome = providerOutcome("pix")
+  return outcome === "expirado" ? transaction : settle(transaction, outcome)
+}
+
+/**
+ * Applies a verified webhook event. Events are idempotent by id and only a
+ * pending transaction can be settled.
+ */
+export const applyPaymentEvent = (event: PaymentWebhookEvent): ApplyEventResult => {
+  const transaction = getTransaction(event.transactionId)
+  if (!transaction) return { ok: false, reason: "unknown_transaction" }
+  if (readDatabase().processedEvents.includes(event.id)) return { ok: true, duplicate: true, transaction }
+  if (transaction.status !== "processando") return { ok: false, reason: "already_settled" }
+
+  updateDatabase((database) => {
+    database.processedEvents.push(event.id)
+  })
+  return { ok: true, duplicate: false, transaction: settle(transaction, event.status, event.details) }
+}
+
+export const cancelTransaction = (transactionId: string) => {
+  const transaction = getTransaction(transactionId)
+  if (!transaction) return null
+  if (transaction.status === "processando") {
+    return settle(transaction, "cancelado", "Cobrança cancelada pelo lojista.")
+  }
+  if (transaction.status === "pago" || transaction.status === "parcialmente_estornado") {
+    return settle(transaction, "estornado", "Pagamento estornado pelo lojista.", {
+      refundedAmount: transaction.amount,
+    })
+  }
+  return transaction
+}
+
+/**
+ * Settles a pending Pix as `expirado` when its QR Code runs out in the
+ * browser, so the order follows with the expiry e-mail instead of a
+ * cancellation. Charges already settled are returned as they are.
+ */
+export const expireTransaction = (transactionId: string): ExpireTransactionResult => {
+  const transaction = getTransaction(transactionId)
+  if (!transaction) return { ok: false, reason: "unknown_transaction" }
+  if (transaction.status !== "processando") return { ok: true, transaction }
+  if (transaction.method !== "pix") return { ok: false, reason: "not_expirable" }
+  return { ok: true, transaction: settle(transaction, "expirado", "O prazo do QR Code Pix acabou.") }
+}
+
+export const refundTransaction = (transactionId: string, amount: number): RefundResult => {
+  const transaction = getTransaction(transactionId)
+  if (!transaction) return { ok: false, reason: "unknown_transaction" }
+
+  try {
+    const { refundedAmount, status } = applyRefund(transaction, amount)
+    settle(transaction, status, transaction.details, { refundedAmount })
+    return {
+      ok: true,
+      refund: { refundId: createId("refund"), transactionId, amount, refundedAmount, status },
+    }
+  } catch (error) {
+    return {
+      ok: false,
+      reason: "not_refundable",
+      message: error instanceof Error ? error.message : undefined,
+    }
+  }
+}
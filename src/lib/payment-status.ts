@@ -0,0 +1,49 @@
+import type { PaymentMethod } from "./mock-data"
+import type { PaymentStatus } from "./payment-gateway"
+
+/**
+ * Allowed moves between payment statuses. Settled failures are final; paid
+ * charges can only move forward through refunds.
+ */
+export const paymentStatusTransitions: Record<PaymentStatus, PaymentStatus[]> = {
+  inicial: ["processando", "falhado", "cancelado"],
+  processando: ["pago", "falhado", "expirado", "cancelado"],
+  pago: ["parcialmente_estornado", "estornado"],
+  parcialmente_estornado: ["parcialmente_estornado", "estornado"],
+  falhado: [],
+  expirado: [],
+  cancelado: [],
+  estornado: [],
+}
+
+export const paymentStatusLabels: Record<PaymentStatus, string> = {
+  inicial: "inicial",
+  processando: "processando",
+  pago: "pago",
+  falhado: "falhado",
+  expirado: "expirado",
+  cancelado: "cancelado",
+  estornado: "estornado",
+  parcialmente_estornado: "parcialmente estornado",
+}
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  pix: "Pix",
+  credit: "Cartão de crédito",
+  boleto: "Boleto",
+}
+
+export const canTransition = (from: PaymentStatus, to: PaymentStatus) =>
+  paymentStatusTransitions[from].includes(to)
+
+export const assertTransition = (from: PaymentStatus, to: PaymentStatus) => {
+  if (!canTransition(from, to)) {
+    throw new Error(
+      `Transição de pagamento inválida: ${paymentStatusLabels[from]} → ${paymentStatusLabels[to]}.`,
+    )
+  }
+}
+
+/** Orders in these statuses can still be refunded. */
+export const isRefundableStatus = (status: PaymentStatus) =>
+  status === "pago" || status === "parcialmente_estornado"
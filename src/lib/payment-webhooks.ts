@@ -0,0 +1,54 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+import { z } from "zod"
+
+export const paymentSignatureHeader = "x-colmeia-signature"
+
+const signatureToleranceSeconds = 5 * 60
+
+export const paymentWebhookEventSchema = z.object({
+  id: z.string().min(1),
+  type: z.literal("payment.status_changed"),
+  transactionId: z.string().min(1),
+  status: z.enum(["pago", "falhado", "expirado"]),
+  details: z.string().optional(),
+  occurredAt: z.iso.datetime(),
+})
+
+export type PaymentWebhookEvent = z.infer<typeof paymentWebhookEventSchema>
+
+/**
+ * Shared secret used to sign webhook deliveries. Development falls back to a
+ * well-known value so the local simulator works without configuration.
+ */
+export const getWebhookSecret = () =>
+  process.env.PAYMENT_WEBHOOK_SECRET ??
+  (process.env.NODE_ENV === "production" ? null : "colmeia-dev-webhook-secret")
+
+const computeSignature = (secret: string, timestamp: string, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+
+/**
+ * Signature header in the form `t=<unix seconds>,v1=<hex HMAC-SHA256>`, where
+ * the signed content is `<t>.<raw body>`.
+ */
+export const signWebhookPayload = (secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) =>
+  `t=${timestamp},v1=${computeSignature(secret, timestamp.toString(), body)}`
+
+export const verifyWebhookSignature = (
+  secret: string,
+  body: string,
+  header: string | null,
+  now = Math.floor(Date.now() / 1000),
+) => {
+  if (!header) return false
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.trim().split("=") as [string, string]),
+  )
+  const timestamp = Number(parts.t)
+  if (!parts.v1 || !Number.isFinite(timestamp)) return false
+  if (Math.abs(now - timestamp) > signatureToleranceSeconds) return false
+
+  const expected = Buffer.from(computeSignature(secret, parts.t, body), "hex")
+  const received = Buffer.from(parts.v1, "hex")
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
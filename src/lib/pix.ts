@@ -0,0 +1,109 @@
+export interface PixMerchant {
+  key: string
+  name: string
+  city: string
+}
+
+export type PixPayloadRequest = {
+  amount?: number
+  txid?: string
+  description?: string
+} & ({ type: "static" } | { type: "dynamic"; location: string })
+
+export interface PixCharge {
+  payload: string
+  txid: string
+  expiresAt: Date
+}
+
+export const pixMerchant: PixMerchant = {
+  key: "pagamentos@colmeia.com.br",
+  name: "Colmeia Checkout",
+  city: "São Paulo",
+}
+
+export const pixExpirationSeconds = 10 * 60
+
+const tlv = (id: string, value: string) => `${id}${value.length.toString().padStart(2, "0")}${value}`
+
+const sanitize = (value: string, maxLength: number) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 ]/g, "")
+    .trim()
+    .toUpperCase()
+    .slice(0, maxLength)
+
+const sanitizeTxid = (value: string | undefined) => {
+  const txid = (value ?? "").replace(/[^A-Za-z0-9]/g, "").slice(-25)
+  return txid || "***"
+}
+
+/**
+ * CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF) as required by the
+ * BR Code specification, returned as four uppercase hex digits.
+ */
+export const crc16 = (payload: string) => {
+  let crc = 0xffff
+  for (let index = 0; index < payload.length; index += 1) {
+    crc ^= payload.charCodeAt(index) << 8
+    for (let bit = 0; bit < 8; bit += 1) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1
+      crc &= 0xffff
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0")
+}
+
+/**
+ * Builds the EMV "copia e cola" payload for a Pix charge. Static payloads
+ * carry the merchant key; dynamic ones point to the PSP location URL.
+ */
+export const buildPixPayload = (merchant: PixMerchant, request: PixPayloadRequest) => {
+  const accountInfo =
+    request.type === "dynamic"
+      ? tlv("00", "br.gov.bcb.pix") + tlv("25", request.location.replace(/^https?:\/\//, ""))
+      : tlv("00", "br.gov.bcb.pix") + tlv("01", merchant.key)
+
+  const description =
+    request.type === "static" && request.description
+      ? tlv("02", sanitize(request.description, 99 - accountInfo.length - 4))
+      : ""
+
+  const payload = [
+    tlv("00", "01"),
+    tlv("01", request.type === "dynamic" ? "12" : "11"),
+    tlv("26", accountInfo + description),
+    tlv("52", "0000"),
+    tlv("53", "986"),
+    request.amount && request.amount > 0 ? tlv("54", request.amount.toFixed(2)) : "",
+    tlv("58", "BR"),
+    tlv("59", sanitize(merchant.name, 25)),
+    tlv("60", sanitize(merchant.city, 15)),
+    tlv("62", tlv("05", request.type === "dynamic" ? "***" : sanitizeTxid(request.txid))),
+    "6304",
+  ].join("")
+
+  return payload + crc16(payload)
+}
+
+export const createPixCharge = ({
+  amount,
+  reference,
+}: {
+  amount: number
+  reference: string
+}): PixCharge => {
+  const txid = sanitizeTxid(reference)
+  return {
+    txid,
+    payload: buildPixPayload(pixMerchant, {
+      type: "static",
+      amount,
+      txid,
+      description: "Pedido Colmeia",
+    }),
+    expiresAt: new Date(Date.now() + pixExpirationSeconds * 1000),
+  }
+}
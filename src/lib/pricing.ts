@@ -0,0 +1,160 @@
+import { resolveInstallmentPlan, type InstallmentPlan } from "./installments"
+import type { AppliedCoupon, FreightQuote, PaymentMethod } from "./mock-data"
+import {
+  addMoney,
+  allocateMoney,
+  minMoney,
+  percentOf,
+  subtractMoney,
+  sumMoney,
+  toMoney,
+  zeroMoney,
+  type Money,
+} from "./money"
+import { buildPaymentLegs } from "./split-payment"
+import type { CartItem, CheckoutFormValues, SplitPaymentDraft } from "./types"
+
+export const pricingConfig = {
+  /** Taken off whatever is paid by Pix. */
+  pixDiscountPercent: 5,
+}
+
+/** A cart line priced in cents. */
+export interface PricedLine {
+  sku: string
+  quantity: number
+  unitPrice: Money
+  gross: Money
+  /** Share of a category coupon landing on this line. */
+  discount: Money
+  net: Money
+}
+
+/** One payment leg priced in cents: its share of the amount due and what is actually charged. */
+export interface PricedPayment {
+  method: PaymentMethod
+  amount: Money
+  pixDiscount: Money
+  interest: Money
+  charged: Money
+  installments: InstallmentPlan | null
+}
+
+/**
+ * The full price breakdown of an order, in cents. Every screen and the
+ * saved order read it from here instead of adding amounts on their own.
+ */
+export interface OrderTotals {
+  lines: PricedLine[]
+  subtotal: Money
+  /** Category coupon discounts, spread over the matching lines. */
+  lineDiscount: Money
+  /** Coupon discount on the whole order. */
+  orderDiscount: Money
+  /** Freight charged, after any free-shipping coupon. */
+  shipping: Money
+  /** Amount split between payment methods: subtotal − discounts + freight. */
+  due: Money
+  pixDiscount: Money
+  interest: Money
+  /** Amount charged over all payments; equal to `due` until payments are priced. */
+  total: Money
+  payments: PricedPayment[]
+  coupon: AppliedCoupon | null
+  freight: FreightQuote | null
+}
+
+export interface PricingInput {
+  items: CartItem[]
+  coupon?: AppliedCoupon | null
+  freight?: FreightQuote | null
+  /** Prices the payment legs too; left out while the customer is still in the cart. */
+  payment?: CheckoutFormValues
+  split?: SplitPaymentDraft | null
+}
+
+const lineGross = ({ variant, quantity }: CartItem) => (toMoney(variant.price) * quantity) as Money
+
+export const cartSubtotal = (items: CartItem[]) => sumMoney(items.map(lineGross))
+
+/** What the coupon takes off the eligible amount; fixed coupons never exceed it. */
+const couponDiscount = (coupon: AppliedCoupon | null, eligible: Money) => {
+  if (coupon?.kind === "percent") return percentOf(eligible, coupon.value)
+  if (coupon?.kind === "fixed") return minMoney(toMoney(coupon.value), eligible)
+  return zeroMoney
+}
+
+const pricePayment = ({ amount, payment }: { amount: Money; payment: CheckoutFormValues }): PricedPayment => {
+  const method = payment.paymentMethod
+  if (method === "credit") {
+    const plan = resolveInstallmentPlan(amount, payment.installments)
+    return { method, amount, pixDiscount: zeroMoney, interest: plan.interest, charged: plan.total, installments: plan }
+  }
+  const pixDiscount = method === "pix" ? percentOf(amount, pricingConfig.pixDiscountPercent) : zeroMoney
+  return {
+    method,
+    amount,
+    pixDiscount,
+    interest: zeroMoney,
+    charged: subtractMoney(amount, pixDiscount),
+    installments: null,
+  }
+}
+
+/**
+ * Prices an order: line subtotals, coupon discounts, freight, then each
+ * payment leg with its Pix discount or card interest.
+ */
+export const priceOrder = ({
+  items,
+  coupon = null,
+  freight = null,
+  payment,
+  split = null,
+}: PricingInput): OrderTotals => {
+  const gross = items.map(lineGross)
+  const subtotal = sumMoney(gross)
+
+  const eligible = items.map(({ product }) => !coupon?.category || product.category === coupon.category)
+  const discount = couponDiscount(coupon, sumMoney(gross.filter((_, index) => eligible[index])))
+  const lineDiscounts = coupon?.category
+    ? allocateMoney(
+        discount,
+        gross.map((amount, index) => (eligible[index] ? amount : 0)),
+      )
+    : gross.map(() => zeroMoney)
+  const lineDiscount = sumMoney(lineDiscounts)
+  const orderDiscount = coupon?.category ? zeroMoney : discount
+
+  const lines = items.map(
+    (item, index): PricedLine => ({
+      sku: item.variant.sku,
+      quantity: item.quantity,
+      unitPrice: toMoney(item.variant.price),
+      gross: gross[index],
+      discount: lineDiscounts[index],
+      net: subtractMoney(gross[index], lineDiscounts[index]),
+    }),
+  )
+
+  const shipping = coupon?.freeShipping || !freight ? zeroMoney : toMoney(freight.price)
+  const due = addMoney(subtractMoney(subtotal, lineDiscount, orderDiscount), shipping)
+  const payments = payment ? buildPaymentLegs(due, payment, split).map(pricePayment) : []
+  const pixDiscount = sumMoney(payments.map((leg) => leg.pixDiscount))
+  const interest = sumMoney(payments.map((leg) => leg.interest))
+
+  return {
+    lines,
+    subtotal,
+    lineDiscount,
+    orderDiscount,
+    shipping,
+    due,
+    pixDiscount,
+    interest,
+    total: payments.length > 0 ? sumMoney(payments.map((leg) => leg.charged)) : due,
+    payments,
+    coupon,
+    freight,
+  }
+}
@@ -0,0 +1,153 @@
+import type { z } from "zod"
+
+import type { StockAdjustment } from "./back-office"
+import { normalizeSearchText } from "./catalog"
+import { readDatabase, updateDatabase, type DatabaseSchema } from "./database"
+import { createId } from "./ids"
+import type { Product } from "./mock-data"
+import type { StoredOrder } from "./order-registry"
+import type { createProductSchema, stockAdjustmentSchema, updateProductSchema } from "./schemas"
+
+/** Package data of products created in the back office, which only asks for what the shopper sees. */
+export const productDefaults = {
+  weight: 0.5,
+  dimensions: { length: 20, width: 15, height: 10 },
+}
+
+export type AdjustStockResult =
+  | { ok: true; adjustment: StockAdjustment; product: Product }
+  | { ok: false; reason: "unknown_sku" | "negative_stock" }
+
+const byName = (a: Product, b: Product) => a.name.localeCompare(b.name, "pt-BR")
+
+export const listProducts = () => Object.values(readDatabase().products).sort(byName)
+
+export const getProduct = (id: string) => readDatabase().products[id] ?? null
+
+/** Listed product and variant for a SKU, like `findBySku` on the client. */
+export const findListedSku = (sku: string) => {
+  for (const product of Object.values(readDatabase().products)) {
+    const variant = product.variants.find((item) => item.sku === sku)
+    if (variant) return { product, variant }
+  }
+  return null
+}
+
+const slugify = (value: string) =>
+  normalizeSearchText(value)
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "produto"
+
+/** `base`, or `base-2`, `base-3`… when taken. */
+const uniqueKey = (base: string, taken: (key: string) => boolean) => {
+  let key = base
+  for (let suffix = 2; taken(key); suffix += 1) key = `${base}-${suffix}`
+  return key
+}
+
+/**
+ * Records a stock change inside an open database update. Any change that
+ * would take stock below zero is refused, sales included.
+ */
+const applyAdjustment = (
+  database: DatabaseSchema,
+  input: Omit<StockAdjustment, "id" | "productId" | "stockAfter" | "createdAt">,
+): AdjustStockResult => {
+  const product = Object.values(database.products).find((item) =>
+    item.variants.some((variant) => variant.sku === input.sku),
+  )
+  const variant = product?.variants.find((item) => item.sku === input.sku)
+  if (!product || !variant) return { ok: false, reason: "unknown_sku" }
+
+  const stockAfter = variant.stock + input.delta
+  if (stockAfter < 0) return { ok: false, reason: "negative_stock" }
+
+  const updated: Product = {
+    ...product,
+    variants: product.variants.map((item) => (item.sku === input.sku ? { ...item, stock: stockAfter } : item)),
+  }
+  const adjustment: StockAdjustment = {
+    ...input,
+    id: createId("stock"),
+    productId: product.id,
+    stockAfter,
+    createdAt: new Date().toISOString(),
+  }
+  database.products[product.id] = updated
+  database.stockAdjustments.push(adjustment)
+  return { ok: true, adjustment, product: updated }
+}
+
+export const createProduct = (input: z.infer<typeof createProductSchema>, accountId: string) =>
+  updateDatabase((database) => {
+    const id = uniqueKey(slugify(input.name), (key) => key in database.products)
+    const skus = new Set(Object.values(database.products).flatMap((product) => product.variants.map((v) => v.sku)))
+    const sku = uniqueKey(id.toUpperCase(), (key) => skus.has(key))
+    database.products[id] = {
+      id,
+      name: input.name,
+      description: input.description,
+      category: input.category,
+      image: input.image,
+      ...productDefaults,
+      popularity: 0,
+      options: [],
+      variants: [{ sku, options: {}, price: input.price, stock: 0 }],
+    }
+    if (input.stock > 0) {
+      applyAdjustment(database, { sku, delta: input.stock, reason: "cadastro", accountId })
+    }
+    return database.products[id]
+  })
+
+/** Saves the product fields and variant prices; unknown SKUs in the body are ignored. */
+export const updateProduct = (product: Product, input: z.infer<typeof updateProductSchema>) => {
+  const { variants, ...fields } = input
+  const updated: Product = {
+    ...product,
+    ...fields,
+    variants: product.variants.map((variant) => ({
+      ...variant,
+      price: variants.find((item) => item.sku === variant.sku)?.price ?? variant.price,
+    })),
+  }
+  updateDatabase((database) => {
+    database.products[product.id] = updated
+  })
+  return updated
+}
+
+/** Takes the product out of the catalog. Orders keep their snapshot and the stock log stays. */
+export const deleteProduct = (id: string) =>
+  updateDatabase((database) => {
+    delete database.products[id]
+  })
+
+export const adjustStock = (input: z.infer<typeof stockAdjustmentSchema>, accountId: string) =>
+  updateDatabase((database) => applyAdjustment(database, { ...input, accountId }))
+
+/** The stock log, newest first, optionally for one product or SKU. */
+export const listStockAdjustments = (filters: { productId?: string; sku?: string } = {}) =>
+  readDatabase()
+    .stockAdjustments.filter(
+      (item) =>
+        (!filters.productId || item.productId === filters.productId) && (!filters.sku || item.sku === filters.sku),
+    )
+    .reverse()
+
+/**
+ * Takes the units of a paid order out of stock, inside an open database
+ * update. Lines whose SKU left the catalog are skipped; lines the stock no
+ * longer covers are left out and their SKUs returned, for the order to be
+ * flagged as oversold.
+ */
+export const commitOrderStock = (database: DatabaseSchema, order: StoredOrder) =>
+  order.lines.flatMap((line) => {
+    const result = applyAdjustment(database, {
+      sku: line.sku,
+      delta: -line.quantity,
+      reason: "venda",
+      orderId: order.id,
+    })
+    return !result.ok && result.reason === "negative_stock" ? [line.sku] : []
+  })
@@ -0,0 +1,116 @@
+import type { PaymentAttempt, PaymentLineItem, RefundRecord } from "./mock-data"
+import {
+  addMoney,
+  formatMoney,
+  minMoney,
+  multiplyMoney,
+  subtractMoney,
+  sumMoney,
+  toMoney,
+  toReais,
+  zeroMoney,
+  type Money,
+} from "./money"
+import type { PaymentStatus } from "./payment-gateway"
+import { isRefundableStatus } from "./payment-status"
+
+export interface RefundSelection {
+  sku: string
+  quantity: number
+}
+
+/** Refund state a gateway keeps for each captured charge, in reais as gateways report it. */
+export interface RefundableCharge {
+  amount: number
+  refundedAmount: number
+  status: PaymentStatus
+}
+
+/**
+ * Refunds part of a settled charge and returns its new refund state. Throws
+ * when the charge cannot be refunded or the amount exceeds what is left.
+ * Takes and returns reais like the gateways; the check runs in cents.
+ */
+export const applyRefund = (
+  charge: RefundableCharge,
+  amount: number,
+): Pick<RefundableCharge, "refundedAmount" | "status"> => {
+  if (!isRefundableStatus(charge.status)) {
+    throw new Error("Somente pagamentos aprovados podem ser estornados.")
+  }
+  const charged = toMoney(charge.amount)
+  const remaining = subtractMoney(charged, toMoney(charge.refundedAmount))
+  const requested = toMoney(amount)
+  if (requested <= 0 || requested > remaining) {
+    throw new Error(`Valor de estorno inválido. Disponível para estorno: ${formatMoney(remaining)}.`)
+  }
+  const refundedAmount = addMoney(toMoney(charge.refundedAmount), requested)
+  return {
+    refundedAmount: toReais(refundedAmount),
+    status: refundedAmount >= charged ? "estornado" : "parcialmente_estornado",
+  }
+}
+
+export const legRefundableAmount = (leg: PaymentAttempt) =>
+  subtractMoney(toMoney(leg.amount ?? 0), toMoney(leg.refundedAmount ?? 0))
+
+const refundedQuantities = (refunds: RefundRecord[] = []) =>
+  refunds
+    .flatMap((refund) => refund.items)
+    .reduce(
+      (acc, item) => acc.set(item.sku, (acc.get(item.sku) ?? 0) + item.quantity),
+      new Map<string, number>(),
+    )
+
+/** Line items of an order with the quantities that were not refunded yet. */
+export const refundableItems = (order: PaymentAttempt): PaymentLineItem[] => {
+  const refunded = refundedQuantities(order.refunds)
+  return (order.items ?? [])
+    .map((item) => ({ ...item, quantity: item.quantity - (refunded.get(item.sku) ?? 0) }))
+    .filter((item) => item.quantity > 0)
+}
+
+export const validateRefundSelection = (order: PaymentAttempt, selection: RefundSelection[]) => {
+  const available = new Map(refundableItems(order).map((item) => [item.sku, item.quantity]))
+  const requested = selection.filter((item) => item.quantity > 0)
+  if (requested.length === 0) return "Selecione ao menos um item para estornar."
+  const exceeded = requested.find((item) => item.quantity > (available.get(item.sku) ?? 0))
+  return exceeded ? "Quantidade para estorno maior que a disponível." : null
+}
+
+/**
+ * Amount refunded for the selected items, in cents, proportional to what the
+ * order charged (card interest included). Refunding everything that is left returns
+ * the whole remaining balance so rounding never strands cents.
+ */
+export const refundAmountFor = (
+  legs: PaymentAttempt[],
+  order: PaymentAttempt,
+  selection: RefundSelection[],
+) => {
+  const remaining = refundableItems(order)
+  const quantityFor = (sku: string) => selection.find((item) => item.sku === sku)?.quantity ?? 0
+  if (remaining.every((item) => quantityFor(item.sku) >= item.quantity)) {
+    return sumMoney(legs.map(legRefundableAmount))
+  }
+
+  const items = order.items ?? []
+  const subtotal = sumMoney(items.map((item) => multiplyMoney(toMoney(item.unitPrice), item.quantity)))
+  const charged = sumMoney(legs.map((leg) => toMoney(leg.amount ?? 0)))
+  const selected = sumMoney(items.map((item) => multiplyMoney(toMoney(item.unitPrice), quantityFor(item.sku))))
+  return subtotal > 0 ? multiplyMoney(charged, selected / subtotal) : zeroMoney
+}
+
+/** Spreads a refund over the legs, last leg first, within what each leg still holds. */
+export const allocateRefund = (legs: PaymentAttempt[], amount: Money) => {
+  let left = amount
+  const allocations: { leg: PaymentAttempt; amount: Money }[] = []
+  for (const leg of legs.slice().reverse()) {
+    if (left <= 0) break
+    const share = minMoney(left, legRefundableAmount(leg))
+    if (share <= 0) continue
+    allocations.push({ leg, amount: share })
+    left = subtractMoney(left, share)
+  }
+  return allocations
+}
@@ -0,0 +1,188 @@
+import { z } from "zod"
+
+import { manualStockReasons, type StockAdjustmentReason } from "./back-office"
+import {
+  cardBrandRules,
+  detectCardBrand,
+  isExpirationValid,
+  luhnCheck,
+  onlyCardDigits,
+} from "./card"
+import { categoryLabels } from "./catalog"
+import { toIsoDate } from "./format"
+import { installmentConfig } from "./installments"
+import type { ProductCategory } from "./mock-data"
+import type { Money } from "./money"
+import { brazilianStates } from "./shipping"
+import { splitPaymentConfig } from "./split-payment"
+
+const requiredString = (message: string) => z.string({ error: message }).trim().min(1, message)
+
+export const pixPaymentSchema = z.object({
+  paymentMethod: z.literal("pix"),
+  pixKey: requiredString("Informe a chave Pix para continuidade."),
+})
+
+export const creditPaymentSchema = z
+  .object({
+    paymentMethod: z.literal("credit"),
+    cardHolder: requiredString("Informe o nome impresso no cartão.").min(3, "Nome do titular inválido."),
+    cardNumber: requiredString("Informe o número do cartão."),
+    cardExpiration: requiredString("Informe a validade no formato MM/AA.")
+      .regex(/^\d{2}\/\d{2}$/, "Informe a validade no formato MM/AA.")
+      .refine((value) => isExpirationValid(value), "Cartão vencido ou validade inválida."),
+    cardCvv: requiredString("Informe o código de segurança (CVV).").regex(
+      /^\d+$/,
+      "O CVV deve conter apenas números.",
+    ),
+    installments: z.number().int().min(1).max(installmentConfig.maxInstallments).default(1),
+  })
+  .superRefine((values, context) => {
+    // Refinements still run when a field failed its own check, so guard against missing values.
+    const digits = onlyCardDigits(values.cardNumber ?? "")
+    const brand = detectCardBrand(digits)
+
+    if (!digits) return
+    if (!brand) {
+      context.addIssue({
+        code: "custom",
+        path: ["cardNumber"],
+        message: "Bandeira não aceita. Use Visa, Mastercard, Elo, Hipercard, Amex ou Diners.",
+      })
+      return
+    }
+
+    const rule = cardBrandRules[brand]
+    if (!rule.lengths.includes(digits.length)) {
+      context.addIssue({ code: "custom", path: ["cardNumber"], message: "Número do cartão incompleto." })
+    } else if (!luhnCheck(digits)) {
+      context.addIssue({
+        code: "custom",
+        path: ["cardNumber"],
+        message: "Número do cartão inválido. Confira os dígitos.",
+      })
+    }
+
+    if (values.cardCvv && values.cardCvv.length !== rule.cvvLength) {
+      context.addIssue({
+        code: "custom",
+        path: ["cardCvv"],
+        message: `O CVV deve ter ${rule.cvvLength} dígitos.`,
+      })
+    }
+  })
+
+export const boletoPaymentSchema = z.object({
+  paymentMethod: z.literal("boleto"),
+  boletoDueDate: requiredString("Selecione a data de vencimento do boleto.").refine(
+    (value) => value >= toIsoDate(new Date()),
+    "A data de vencimento do boleto não pode estar no passado.",
+  ),
+  boletoInstructions: z.string().trim().max(120, "Use no máximo 120 caracteres.").optional(),
+})
+
+export const checkoutFormSchema = z.discriminatedUnion(
+  "paymentMethod",
+  [pixPaymentSchema, creditPaymentSchema, boletoPaymentSchema],
+  { error: "Selecione um método de pagamento válido." },
+)
+
+export type CheckoutPayment = z.infer<typeof checkoutFormSchema>
+
+/** Second leg of a split payment in cents; both legs must be non-trivial. */
+export const splitAmountSchema = (due: Money) =>
+  z
+    .number({ error: "Informe o valor da segunda forma de pagamento." })
+    .min(splitPaymentConfig.minLegAmount, "Cada parte do pagamento deve ter pelo menos R$ 1,00.")
+    .max(
+      due - splitPaymentConfig.minLegAmount,
+      "O valor da segunda forma deve ser menor que o total do pedido.",
+    )
+
+export const shippingAddressSchema = z.object({
+  cep: requiredString("Informe o CEP.").regex(/^\d{5}-\d{3}$/, "Informe um CEP válido no formato 00000-000."),
+  street: requiredString("Informe a rua."),
+  number: requiredString("Informe o número."),
+  complement: z.string().trim().max(60, "Use no máximo 60 caracteres.").optional(),
+  district: requiredString("Informe o bairro."),
+  city: requiredString("Informe a cidade."),
+  state: requiredString("Informe a UF.")
+    .toUpperCase()
+    .refine((value) => value in brazilianStates, "Informe uma UF válida."),
+})
+
+export const authCredentialsSchema = z.object({
+  email: z
+    .string({ error: "Informe seu e-mail." })
+    .trim()
+    .toLowerCase()
+    .pipe(z.email({ error: "Informe um e-mail válido." })),
+  password: z.string({ error: "Informe sua senha." }).min(6, "A senha deve ter pelo menos 6 caracteres."),
+  name: z.string().trim().optional(),
+})
+
+export const registerCredentialsSchema = authCredentialsSchema.extend({
+  name: requiredString("Informe seu nome completo.").min(3, "Informe seu nome completo."),
+})
+
+const priceSchema = z
+  .number({ error: "Informe o preço." })
+  .positive("O preço deve ser maior que zero.")
+  .transform((value) => Math.round(value * 100) / 100)
+
+const productFieldsSchema = z.object({
+  name: requiredString("Informe o nome do produto.").min(2, "Informe o nome do produto."),
+  description: requiredString("Informe a descrição."),
+  category: z.enum(Object.keys(categoryLabels) as [ProductCategory, ...ProductCategory[]], {
+    error: "Escolha uma categoria.",
+  }),
+  image: requiredString("Informe a imagem.").regex(
+    /^(https?:\/\/|\/)\S+$/,
+    "Use um caminho como /products/foto.jpg ou uma URL.",
+  ),
+})
+
+/** A product sold in a single version, as created in the back office. */
+export const createProductSchema = productFieldsSchema.extend({
+  price: priceSchema,
+  stock: z
+    .number({ error: "Informe o estoque inicial." })
+    .int("O estoque deve ser um número inteiro.")
+    .nonnegative("O estoque não pode ser negativo."),
+})
+
+/** Product fields and variant prices; stock only changes through adjustments. */
+export const updateProductSchema = productFieldsSchema.extend({
+  variants: z.array(z.object({ sku: z.string().min(1), price: priceSchema })).min(1),
+})
+
+export const stockAdjustmentSchema = z.object({
+  sku: requiredString("Escolha a versão do produto."),
+  delta: z
+    .number({ error: "Informe quantas unidades entram ou saem." })
+    .int("Ajuste em unidades inteiras.")
+    .refine((value) => value !== 0, "Informe quantas unidades entram ou saem."),
+  reason: z.enum(manualStockReasons as [StockAdjustmentReason, ...StockAdjustmentReason[]], {
+    error: "Escolha o motivo do ajuste.",
+  }),
+  note: z.string().trim().max(200, "Use no máximo 200 caracteres.").optional(),
+})
+
+export type FieldErrors = Partial<Record<string, string>>
+
+/**
+ * Runs a schema and keeps the first message for each top-level field, the
+ * shape the forms use to render inline errors.
+ */
+export const getFieldErrors = (schema: z.ZodType, values: unknown): FieldErrors => {
+  const result = schema.safeParse(values)
+  if (result.success) return {}
+
+  return result.error.issues.reduce<FieldErrors>((acc, issue) => {
+    const field = issue.path.length > 0 ? String(issue.path[0]) : "form"
+    if (!acc[field]) acc[field] = issue.message
+    return acc
+  }, {})
+}
+
+export const firstErrorMessage = (errors: FieldErrors) => Object.values(errors).find(Boolean) ?? null
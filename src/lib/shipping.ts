@@ -0,0 +1,161 @@
+import { maskCep } from "./format"
+import { cepDirectory, type CepRecord, type FreightQuote, type ShippingAddress } from "./mock-data"
+import type { CartItem } from "./types"
+import { variantDimensions, variantWeight } from "./variants"
+
+export type BrazilianRegion = "norte" | "nordeste" | "centro-oeste" | "sudeste" | "sul"
+
+export const brazilianStates: Record<string, BrazilianRegion> = {
+  AC: "norte",
+  AL: "nordeste",
+  AM: "norte",
+  AP: "norte",
+  BA: "nordeste",
+  CE: "nordeste",
+  DF: "centro-oeste",
+  ES: "sudeste",
+  GO: "centro-oeste",
+  MA: "nordeste",
+  MG: "sudeste",
+  MS: "centro-oeste",
+  MT: "centro-oeste",
+  PA: "norte",
+  PB: "nordeste",
+  PE: "nordeste",
+  PI: "nordeste",
+  PR: "sul",
+  RJ: "sudeste",
+  RN: "nordeste",
+  RO: "norte",
+  RR: "norte",
+  RS: "sul",
+  SC: "sul",
+  SE: "nordeste",
+  SP: "sudeste",
+  TO: "norte",
+}
+
+export const shippingConfig = {
+  /** State the orders ship from. */
+  originState: "SP",
+  /** Cubic weight in kg is length × width × height (cm) divided by this factor. */
+  cubicWeightDivisor: 6000,
+  lookupDelayMs: 400,
+}
+
+type FreightZone = "local" | "regional" | "nacional" | "remota"
+
+/** Price multiplier and extra business days per distance from the origin. */
+const freightZones: Record<FreightZone, { multiplier: number; extraDays: number }> = {
+  local: { multiplier: 1, extraDays: 0 },
+  regional: { multiplier: 1.25, extraDays: 1 },
+  nacional: { multiplier: 1.6, extraDays: 3 },
+  remota: { multiplier: 2, extraDays: 5 },
+}
+
+export interface Carrier {
+  id: string
+  name: string
+  description: string
+  basePrice: number
+  pricePerKg: number
+  deliveryDays: { min: number; max: number }
+  /** Heaviest billable weight accepted, in kg. */
+  maxWeight: number
+  /** Zones served; every zone when omitted. */
+  zones?: FreightZone[]
+}
+
+export const carriers: Carrier[] = [
+  {
+    id: "pac",
+    name: "PAC",
+    description: "Entrega econômica pelos Correios",
+    basePrice: 16.9,
+    pricePerKg: 2.4,
+    deliveryDays: { min: 4, max: 7 },
+    maxWeight: 30,
+  },
+  {
+    id: "sedex",
+    name: "SEDEX",
+    description: "Entrega expressa pelos Correios",
+    basePrice: 24.9,
+    pricePerKg: 5.1,
+    deliveryDays: { min: 1, max: 3 },
+    maxWeight: 30,
+  },
+  {
+    id: "colmeia-express",
+    name: "Colmeia Express",
+    description: "Transportadora parceira para Sul e Sudeste",
+    basePrice: 12.9,
+    pricePerKg: 3.2,
+    deliveryDays: { min: 2, max: 4 },
+    maxWeight: 20,
+    zones: ["local", "regional"],
+  },
+]
+
+const roundCents = (value: number) => Math.round(value * 100) / 100
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const zoneFor = (state: string): FreightZone | null => {
+  const region = brazilianStates[state]
+  if (!region) return null
+  if (state === shippingConfig.originState) return "local"
+  if (region === "sudeste" || region === "sul") return "regional"
+  return region === "norte" ? "remota" : "nacional"
+}
+
+/** Each unit counts its real or cubic weight, whichever is larger. */
+export const billableWeight = (items: CartItem[]) =>
+  items.reduce((sum, { product, variant, quantity }) => {
+    const { length, width, height } = variantDimensions(product, variant)
+    const cubicWeight = (length * width * height) / shippingConfig.cubicWeightDivisor
+    return sum + Math.max(variantWeight(product, variant), cubicWeight) * quantity
+  }, 0)
+
+/**
+ * Freight options for the cart to a destination state, cheapest first. The
+ * weight is rounded up to the next half kilo; carriers that do not serve the
+ * zone or cannot take the weight are left out.
+ */
+export const quoteFreight = (items: CartItem[], state: string): FreightQuote[] => {
+  const zone = zoneFor(state.trim().toUpperCase())
+  if (!zone || items.length === 0) return []
+
+  const weight = Math.ceil(billableWeight(items) * 2) / 2
+  const { multiplier, extraDays } = freightZones[zone]
+  return carriers
+    .filter((carrier) => (!carrier.zones || carrier.zones.includes(zone)) && weight <= carrier.maxWeight)
+    .map((carrier) => ({
+      carrierId: carrier.id,
+      carrier: carrier.name,
+      price: roundCents((carrier.basePrice + carrier.pricePerKg * weight) * multiplier),
+      deliveryDays: {
+        min: carrier.deliveryDays.min + extraDays,
+        max: carrier.deliveryDays.max + extraDays,
+      },
+    }))
+    .sort((a, b) => a.price - b.price)
+}
+
+/** Looks a CEP up in the bundled base; resolves `null` when it is not listed. */
+export const lookupCep = async (cep: string): Promise<CepRecord | null> => {
+  await sleep(shippingConfig.lookupDelayMs)
+  const normalized = maskCep(cep)
+  return cepDirectory.find((record) => record.cep === normalized) ?? null
+}
+
+export const formatDeliveryDays = ({ min, max }: FreightQuote["deliveryDays"]) =>
+  min === max ? `${min} dia${min > 1 ? "s" : ""} út${min > 1 ? "eis" : "il"}` : `${min} a ${max} dias úteis`
+
+export const formatAddress = (address: ShippingAddress) =>
+  [
+    `${address.street}, ${address.number}${address.complement ? ` - ${address.complement}` : ""}`,
+    address.district,
+    `${address.city}/${address.state}`,
+    `CEP ${address.cep}`,
+  ].join(" • ")
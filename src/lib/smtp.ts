@@ -0,0 +1,153 @@
+import { connect as connectTcp, type Socket } from "node:net"
+import { hostname } from "node:os"
+import { connect as connectTls } from "node:tls"
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  /** TLS from the first byte (port 465); otherwise STARTTLS is used when the server offers it. */
+  secure: boolean
+  user?: string
+  password?: string
+  timeoutMs: number
+}
+
+export interface SmtpEnvelope {
+  from: string
+  to: string[]
+}
+
+type SmtpReply = { code: number; text: string }
+
+const completeReply = /^(?:\d{3}-[^\r\n]*\r\n)*(\d{3})(?: [^\r\n]*)?\r\n/
+
+/**
+ * Reads SMTP replies from a socket. A reply may span several lines
+ * (`250-…`) and ends on the line whose code is followed by a space.
+ */
+const createReplyReader = (socket: Socket) => {
+  let buffer = ""
+  const replies: SmtpReply[] = []
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = []
+  let failure: Error | null = null
+
+  const settle = () => {
+    while (replies.length > 0 && waiting.length > 0) {
+      waiting.shift()?.resolve(replies.shift() as SmtpReply)
+    }
+    if (failure) {
+      while (waiting.length > 0) waiting.shift()?.reject(failure)
+    }
+  }
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8")
+    let match = completeReply.exec(buffer)
+    while (match) {
+      replies.push({ code: Number(match[1]), text: match[0].trim() })
+      buffer = buffer.slice(match[0].length)
+      match = completeReply.exec(buffer)
+    }
+    settle()
+  }
+  const onError = (error: Error) => {
+    failure = error
+    settle()
+  }
+  const onClose = () => onError(new Error("O servidor SMTP encerrou a conexão."))
+
+  socket.on("data", onData)
+  socket.on("error", onError)
+  socket.on("close", onClose)
+
+  return {
+    next: () =>
+      new Promise<SmtpReply>((resolve, reject) => {
+        waiting.push({ resolve, reject })
+        settle()
+      }),
+    /** Stops reading, e.g. before the socket is upgraded to TLS. */
+    detach: () => {
+      socket.off("data", onData)
+      socket.off("error", onError)
+      socket.off("close", onClose)
+    },
+  }
+}
+
+/** Doubles leading dots and normalizes line endings for the DATA section. */
+const dotStuff = (message: string) =>
+  message
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n")
+
+/**
+ * Delivers one message over SMTP: EHLO, STARTTLS when offered, AUTH PLAIN
+ * when credentials are set, then MAIL/RCPT/DATA. Rejects with the server
+ * reply when a command is refused.
+ */
+export const sendSmtpMessage = async (config: SmtpConfig, envelope: SmtpEnvelope, message: string) => {
+  const open = (): Promise<Socket> =>
+    new Promise((resolve, reject) => {
+      const socket = config.secure
+        ? connectTls({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+        : connectTcp({ host: config.host, port: config.port }, () => resolve(socket))
+      socket.once("error", reject)
+    })
+
+  const withTimeout = (target: Socket) =>
+    target.setTimeout(config.timeoutMs, () =>
+      target.destroy(new Error("Tempo esgotado ao falar com o servidor SMTP.")),
+    )
+
+  let socket = withTimeout(await open())
+  let reader = createReplyReader(socket)
+
+  const expect = async (expected: number[]) => {
+    const reply = await reader.next()
+    if (!expected.includes(reply.code)) {
+      throw new Error(`Servidor SMTP recusou o envio: ${reply.text}`)
+    }
+    return reply
+  }
+  const command = (line: string, expected: number[]) => {
+    socket.write(`${line}\r\n`)
+    return expect(expected)
+  }
+
+  try {
+    await expect([220])
+    const greeting = await command(`EHLO ${hostname()}`, [250])
+
+    if (!config.secure && /\bSTARTTLS\b/i.test(greeting.text)) {
+      await command("STARTTLS", [220])
+      reader.detach()
+      const plain = socket
+      socket = await new Promise<Socket>((resolve, reject) => {
+        const secured = connectTls({ socket: plain, servername: config.host }, () => resolve(secured))
+        secured.once("error", reject)
+      })
+      withTimeout(socket)
+      reader = createReplyReader(socket)
+      await command(`EHLO ${hostname()}`, [250])
+    }
+
+    if (config.user && config.password) {
+      const credentials = Buffer.from(`\u0000${config.user}\u0000${config.password}`).toString("base64")
+      await command(`AUTH PLAIN ${credentials}`, [235])
+    }
+
+    await command(`MAIL FROM:<${envelope.from}>`, [250])
+    for (const recipient of envelope.to) {
+      await command(`RCPT TO:<${recipient}>`, [250, 251])
+    }
+    await command("DATA", [354])
+    await command(`${dotStuff(message)}\r\n.`, [250])
+    await command("QUIT", [221]).catch(() => null)
+  } finally {
+    reader.detach()
+    socket.destroy()
+  }
+}
@@ -0,0 +1,60 @@
+import type { PaymentAttempt } from "./mock-data"
+import { allocateMoney, subtractMoney, toMoney, type Money } from "./money"
+import type { PaymentStatus } from "./payment-gateway"
+import type { CheckoutFormValues, SplitPaymentDraft } from "./types"
+
+export const splitPaymentConfig = {
+  minLegAmount: toMoney(1),
+}
+
+/** Share of the amount due covered by one payment method, before Pix discount or card interest. */
+export interface PaymentLeg {
+  amount: Money
+  payment: CheckoutFormValues
+}
+
+/** Suggested amount for the second leg when splitting is turned on. */
+export const defaultSplitAmount = (due: Money) => allocateMoney(due, [1, 1])[1]
+
+/**
+ * Legs charged for an order: the primary payment alone, or the primary
+ * payment covering whatever the second leg does not.
+ */
+export const buildPaymentLegs = (
+  due: Money,
+  payment: CheckoutFormValues,
+  split: SplitPaymentDraft | null,
+): PaymentLeg[] =>
+  split
+    ? [
+        { amount: subtractMoney(due, split.amount), payment },
+        { amount: split.amount, payment: split.payment },
+      ]
+    : [{ amount: due, payment }]
+
+export const isFailedStatus = (status: PaymentStatus) => status === "falhado" || status === "expirado"
+
+/**
+ * Order status from its legs: failed, expired or cancelled as soon as one
+ * leg is, paid only when every leg is paid, pending while any leg is, and
+ * refunded (fully or partially) once refunds reach the legs.
+ */
+export const combineLegStatuses = (statuses: PaymentStatus[]): PaymentStatus => {
+  if (statuses.includes("expirado")) return "expirado"
+  if (statuses.includes("falhado")) return "falhado"
+  if (statuses.includes("cancelado")) return "cancelado"
+  if (statuses.length === 0 || statuses.some((status) => status === "processando" || status === "inicial")) {
+    return "processando"
+  }
+  if (statuses.every((status) => status === "pago")) return "pago"
+  if (statuses.every((status) => status === "estornado")) return "estornado"
+  return "parcialmente_estornado"
+}
+
+/** All legs of the order an attempt belongs to, in charge order. */
+export const orderLegs = (attempts: PaymentAttempt[], attempt: PaymentAttempt) =>
+  attempt.splitId
+    ? attempts
+        .filter((item) => item.splitId === attempt.splitId)
+        .sort((a, b) => (a.leg?.index ?? 0) - (b.leg?.index ?? 0))
+    : [attempt]
@@ -0,0 +1,57 @@
+import { createId } from "./ids"
+
+type LockRecord = {
+  tabId: string
+  expiresAt: number
+}
+
+export const processingLockName = "checkout-processing-lock"
+
+/** Identifies this browser tab for the lifetime of the page. */
+export const tabId = createId("tab")
+
+const readLock = (name: string): LockRecord | null => {
+  if (typeof window === "undefined") return null
+  try {
+    const raw = window.localStorage.getItem(name)
+    return raw ? (JSON.parse(raw) as LockRecord) : null
+  } catch {
+    return null
+  }
+}
+
+export const isLockedByAnotherTab = (name: string, now = Date.now()) => {
+  const lock = readLock(name)
+  return Boolean(lock && lock.tabId !== tabId && lock.expiresAt > now)
+}
+
+/**
+ * Best-effort lock shared between tabs through localStorage. Locks expire on
+ * their own so a closed tab cannot block checkout forever.
+ */
+export const acquireLock = (name: string, ttlMs: number) => {
+  if (typeof window === "undefined") return true
+  if (isLockedByAnotherTab(name)) return false
+  window.localStorage.setItem(name, JSON.stringify({ tabId, expiresAt: Date.now() + ttlMs }))
+  return true
+}
+
+export const releaseLock = (name: string) => {
+  if (typeof window === "undefined") return
+  if (readLock(name)?.tabId === tabId) {
+    window.localStorage.removeItem(name)
+  }
+}
+
+export const subscribeToLock = (name: string, callback: () => void) => {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === name) callback()
+  }
+  window.addEventListener("storage", onStorage)
+  // Expiration does not emit storage events, so re-check periodically.
+  const interval = window.setInterval(callback, 1000)
+  return () => {
+    window.removeEventListener("storage", onStorage)
+    window.clearInterval(interval)
+  }
+}
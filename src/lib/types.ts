@@ -1,19 +1,46 @@
-import type { PaymentMethod, Product, User } from "./mock-data"
+import type { z } from "zod"
 
-export interface AuthCredentials {
-  email: string
-  password: string
-  name?: string
-}
+import type { PaymentMethod, Product, ProductVariant, ShippingAddress, User } from "./mock-data"
+import type { Money } from "./money"
+import type { authCredentialsSchema } from "./schemas"
+
+export type AuthCredentials = z.infer<typeof authCredentialsSchema>
 
+/** Admins also reach the back office under `/admin`. */
+export type AccountRole = "cliente" | "admin"
+
+/** The signed-in customer; never carries the password. */
 export interface Account extends User {
+  /** Last address used at checkout, suggested on the next order. */
+  address?: ShippingAddress
+  /** Missing on accounts created before roles existed, which are customers. */
+  role?: AccountRole
+}
+
+/** An account of the local fallback mode, where the browser also checks the password. */
+export interface LocalAccount extends Account {
   password: string
-  address?: string
 }
 
+/** A cart line, keyed by the variant SKU. */
 export interface CartItem {
   product: Product
+  variant: ProductVariant
   quantity: number
+  /** Last time the line was added to or changed, used when merging carts. */
+  updatedAt: number
+}
+
+/** A product parked on an account's wishlist; prices and stock are read from the catalog. */
+export interface WishlistEntry {
+  productId: string
+  sku?: string
+  addedAt: number
+}
+
+export interface ShippingDraft {
+  address: ShippingAddress
+  carrierId: string | null
 }
 
 export interface CheckoutFormValues {
@@ -23,8 +50,15 @@ export interface CheckoutFormValues {
   cardNumber?: string
   cardExpiration?: string
   cardCvv?: string
+  installments?: number
   boletoDueDate?: string
   boletoInstructions?: string
 }
 
-export type CheckoutStep = "catalog" | "cart" | "payment" | "status"
+/** Second leg of a split payment; the primary payment covers the rest of the amount due. */
+export interface SplitPaymentDraft {
+  amount: Money
+  payment: CheckoutFormValues
+}
+
+export type CheckoutStep = "catalog" | "cart" | "shipping" | "payment" | "status"
@@ -0,0 +1,60 @@
+import { products, type PaymentLineItem, type Product, type ProductVariant } from "./mock-data"
+
+let listedProducts: Product[] = products
+
+/** Replaces the catalog the lookups below read, e.g. with the server's copy. */
+export const setListedProducts = (catalog: Product[]) => {
+  listedProducts = catalog
+}
+
+export const findProduct = (productId: string) =>
+  listedProducts.find((product) => product.id === productId) ?? null
+
+export const findVariant = (product: Product, sku: string) =>
+  product.variants.find((variant) => variant.sku === sku) ?? null
+
+/** Catalog product and variant for a SKU, as currently listed. */
+export const findBySku = (sku: string) => {
+  for (const product of listedProducts) {
+    const variant = findVariant(product, sku)
+    if (variant) return { product, variant }
+  }
+  return null
+}
+
+/** Variant matching every picked option value, if that combination exists. */
+export const matchVariant = (product: Product, selection: Record<string, string>) =>
+  product.variants.find((variant) =>
+    product.options.every((option) => variant.options[option.id] === selection[option.id]),
+  ) ?? null
+
+/** First variant in stock, so the picker opens on something that can be bought. */
+export const defaultVariant = (product: Product) =>
+  product.variants.find((variant) => variant.stock > 0) ?? product.variants[0]
+
+export const variantLabel = (product: Product, variant: ProductVariant) =>
+  product.options
+    .map((option) => variant.options[option.id])
+    .filter(Boolean)
+    .join(" • ")
+
+/** Product name followed by the picked options, as shown on cart lines and orders. */
+export const variantName = (product: Product, variant: ProductVariant) => {
+  const label = variantLabel(product, variant)
+  return label ? `${product.name} (${label})` : product.name
+}
+
+export const priceRange = (product: Product) => {
+  const prices = product.variants.map((variant) => variant.price)
+  return { min: Math.min(...prices), max: Math.max(...prices) }
+}
+
+export const hasOptions = (product: Product) => product.options.length > 0
+
+export const variantWeight = (product: Product, variant: ProductVariant) => variant.weight ?? product.weight
+
+export const variantDimensions = (product: Product, variant: ProductVariant) =>
+  variant.dimensions ?? product.dimensions
+
+/** Display name for an order line, from the snapshot taken at checkout. */
+export const lineItemName = (item: PaymentLineItem) => (item.variant ? `${item.name} (${item.variant})` : item.name)
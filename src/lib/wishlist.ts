@@ -0,0 +1,18 @@
+import type { WishlistEntry } from "./types"
+import { findProduct, findVariant } from "./variants"
+
+/** A product saved from the catalog has no SKU until an option is picked on its page. */
+export const wishlistKey = (entry: Pick<WishlistEntry, "productId" | "sku">) => entry.sku ?? entry.productId
+
+/**
+ * Current catalog data for a wishlist entry. The variant is null when the
+ * entry is a product with options to choose; the whole entry is null once
+ * the product or SKU leaves the catalog.
+ */
+export const resolveWishlistEntry = (entry: WishlistEntry) => {
+  const product = findProduct(entry.productId)
+  if (!product) return null
+  if (!entry.sku) return { product, variant: product.options.length === 0 ? product.variants[0] : null }
+  const variant = findVariant(product, entry.sku)
+  return variant ? { product, variant } : null
+}